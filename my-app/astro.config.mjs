@@ -1,5 +1,5 @@
 // @ts-check
-import { defineConfig } from 'astro/config';
+import { defineConfig, envField } from 'astro/config';
 import cloudflare from '@astrojs/cloudflare';
 import tailwindcss from '@tailwindcss/vite';
 import path from 'path';
@@ -19,4 +19,13 @@ export default defineConfig({
   },
 
   integrations: [react()],
+
+  env: {
+    schema: {
+      // Signs the short-lived JWTs that personal API tokens are exchanged for, and
+      // the service role JWT the snooze route records snoozes with.
+      // Set it with `wrangler secret put SUPABASE_JWT_SECRET`.
+      SUPABASE_JWT_SECRET: envField.string({ context: 'server', access: 'secret', optional: true }),
+    },
+  },
 });
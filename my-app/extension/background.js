@@ -0,0 +1,171 @@
+// TaskWorks URL Blocker (MV3) - Service Worker
+// ブロック時間帯を API から取得し、いま有効な時間帯のルールだけを declarativeNetRequest に登録する。
+// ページを開くたびに判定する Userscript と違い、ルールは時間帯の開始・終了時刻にアラームで作り直す。
+import { fetchStatus, fetchWindows } from './lib/api.js';
+import { buildRules } from './lib/rules.js';
+import { STORAGE_KEYS, loadSettings } from './lib/settings.js';
+import { findActiveWindows, findNextBoundary, parseBlockingWindows } from './lib/windows.js';
+
+const ALARMS = {
+    REFRESH: 'refresh',
+    BOUNDARY: 'boundary'
+};
+const REFRESH_INTERVAL_MINUTES = 5;
+
+function isRegexSupported(regex) {
+    return chrome.declarativeNetRequest.isRegexSupported({ regex, isCaseSensitive: false });
+}
+
+// API から取得 (ETag が一致すればキャッシュを使い続ける)。失敗したら前回のキャッシュでブロックを続ける
+async function syncWindows(settings) {
+    const stored = await chrome.storage.local.get(STORAGE_KEYS.WINDOW_CACHE);
+    const cache = stored[STORAGE_KEYS.WINDOW_CACHE];
+    const usableCache = cache && cache.apiBase === settings.apiBase && cache.focusOnly === settings.focusOnly && Array.isArray(cache.windows)
+        ? cache
+        : null;
+    const result = await fetchWindows(settings, usableCache ? usableCache.etag : null);
+    const windows = result.notModified && usableCache ? usableCache.windows : result.windows || [];
+    await chrome.storage.local.set({
+        [STORAGE_KEYS.WINDOW_CACHE]: {
+            windows,
+            etag: result.etag || null,
+            fetchedAt: Date.now(),
+            apiBase: settings.apiBase,
+            focusOnly: settings.focusOnly
+        }
+    });
+    return windows;
+}
+
+async function syncStatus(settings) {
+    try {
+        const data = await fetchStatus(settings);
+        await chrome.storage.local.set({ [STORAGE_KEYS.STATUS]: { data, fetchedAt: Date.now(), error: null } });
+    } catch (error) {
+        console.warn('[TaskWorks URL Blocker] 残りタスクの取得に失敗しました:', error);
+        const stored = await chrome.storage.local.get(STORAGE_KEYS.STATUS);
+        const previous = stored[STORAGE_KEYS.STATUS] || {};
+        await chrome.storage.local.set({
+            [STORAGE_KEYS.STATUS]: { ...previous, error: error.message }
+        });
+    }
+}
+
+async function loadWindows(settings, fetchRemote) {
+    if (!settings.apiBase) {
+        return { windows: parseBlockingWindows(settings.manualWindows), source: 'manual', error: null };
+    }
+    if (fetchRemote) {
+        try {
+            return { windows: await syncWindows(settings), source: 'api', error: null };
+        } catch (error) {
+            console.warn('[TaskWorks URL Blocker] TaskWorks API fetch failed:', error);
+            const stored = await chrome.storage.local.get(STORAGE_KEYS.WINDOW_CACHE);
+            const cache = stored[STORAGE_KEYS.WINDOW_CACHE];
+            return { windows: cache && Array.isArray(cache.windows) ? cache.windows : [], source: 'stale-cache', error: error.message };
+        }
+    }
+    const stored = await chrome.storage.local.get(STORAGE_KEYS.WINDOW_CACHE);
+    const cache = stored[STORAGE_KEYS.WINDOW_CACHE];
+    return { windows: cache && Array.isArray(cache.windows) ? cache.windows : [], source: 'cache', error: null };
+}
+
+async function applyRules(settings, windows) {
+    const now = new Date();
+    const activeWindows = findActiveWindows(now, windows);
+    const { rules, skipped } = await buildRules(
+        { activeWindows, blacklist: settings.blacklist, redirectUrl: settings.redirectUrl },
+        isRegexSupported
+    );
+    const existing = await chrome.declarativeNetRequest.getDynamicRules();
+    await chrome.declarativeNetRequest.updateDynamicRules({
+        removeRuleIds: existing.map(rule => rule.id),
+        addRules: rules
+    });
+    if (skipped.length) {
+        console.warn('[TaskWorks URL Blocker] 使用できない正規表現をスキップしました:', skipped);
+    }
+
+    const nextBoundary = findNextBoundary(now, windows);
+    if (nextBoundary) {
+        await chrome.alarms.create(ALARMS.BOUNDARY, { when: nextBoundary });
+    } else {
+        await chrome.alarms.clear(ALARMS.BOUNDARY);
+    }
+    return { activeWindows, ruleCount: rules.length, skipped, nextBoundary };
+}
+
+async function refresh(fetchRemote) {
+    const settings = await loadSettings();
+    const { windows, source, error } = await loadWindows(settings, fetchRemote);
+    const applied = await applyRules(settings, windows);
+    if (fetchRemote && settings.apiBase) {
+        await syncStatus(settings);
+    }
+    const syncState = {
+        at: Date.now(),
+        source,
+        error,
+        activeWindows: applied.activeWindows,
+        ruleCount: applied.ruleCount,
+        skippedPatterns: applied.skipped.map(entry => entry.pattern),
+        nextBoundary: applied.nextBoundary
+    };
+    await chrome.storage.local.set({ [STORAGE_KEYS.SYNC_STATE]: syncState });
+    return syncState;
+}
+
+// アラームとメッセージが同時に来てもルールの更新が重ならないよう、順番に実行する
+let queue = Promise.resolve();
+function enqueueRefresh(fetchRemote) {
+    const run = queue.then(() => refresh(fetchRemote));
+    queue = run.catch(error => {
+        console.error('[TaskWorks URL Blocker] ルールの更新に失敗しました:', error);
+    });
+    return run;
+}
+
+async function ensureRefreshAlarm() {
+    const alarm = await chrome.alarms.get(ALARMS.REFRESH);
+    if (!alarm) {
+        await chrome.alarms.create(ALARMS.REFRESH, { periodInMinutes: REFRESH_INTERVAL_MINUTES });
+    }
+}
+
+chrome.runtime.onInstalled.addListener(details => {
+    if (details.reason === 'install') {
+        chrome.runtime.openOptionsPage();
+    }
+    void ensureRefreshAlarm();
+    void enqueueRefresh(true);
+});
+
+chrome.runtime.onStartup.addListener(() => {
+    void ensureRefreshAlarm();
+    void enqueueRefresh(true);
+});
+
+chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === ALARMS.REFRESH) {
+        void enqueueRefresh(true);
+    } else if (alarm.name === ALARMS.BOUNDARY) {
+        void enqueueRefresh(false);
+    }
+});
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[STORAGE_KEYS.SETTINGS]) {
+        void enqueueRefresh(true);
+    }
+});
+
+// ポップアップからの「今すぐ同期」
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (message && message.type === 'refresh') {
+        enqueueRefresh(true)
+            .then(syncState => sendResponse({ ok: true, syncState }))
+            .catch(error => sendResponse({ ok: false, error: error.message }));
+        return true;
+    }
+    return false;
+});
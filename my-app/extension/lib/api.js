@@ -0,0 +1,128 @@
+// ----- TaskWorks API -----
+import { transformApiWindows } from './windows.js';
+
+// 今日と明日の2日分をまとめて取得し、日付が変わっても再取得を待たずにブロックできるようにする
+const FETCH_DAYS = 2;
+const REQUEST_TIMEOUT_MS = 8000;
+
+function padTwoDigits(value) {
+    return value.toString().padStart(2, '0');
+}
+
+function formatDateForApi(date) {
+    const year = date.getFullYear();
+    const month = padTwoDigits(date.getMonth() + 1);
+    const day = padTwoDigits(date.getDate());
+    return `${year}-${month}-${day}`;
+}
+
+function getTimeZone() {
+    try {
+        const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        return tz || 'UTC';
+    } catch (_) {
+        return 'UTC';
+    }
+}
+
+function buildAuthorizationHeader(token) {
+    if (typeof token !== 'string') {
+        return '';
+    }
+    const trimmed = token.trim();
+    if (!trimmed) {
+        return '';
+    }
+    if (/^bearer\s+/i.test(trimmed)) {
+        return trimmed;
+    }
+    return `Bearer ${trimmed}`;
+}
+
+export function buildWindowsEndpoint(base) {
+    const normalized = base.replace(/\/+$/, '');
+    if (/\/v1\/blocks\/windows$/i.test(normalized)) {
+        return normalized;
+    }
+    if (/\/api$/i.test(normalized)) {
+        return `${normalized}/v1/blocks/windows`;
+    }
+    if (/\/api\/v1$/i.test(normalized)) {
+        return `${normalized}/blocks/windows`;
+    }
+    return `${normalized}/api/v1/blocks/windows`;
+}
+
+function buildBlocksEndpoint(base, name) {
+    return buildWindowsEndpoint(base).replace(/\/windows$/i, `/${name}`);
+}
+
+async function request(url, settings, extraHeaders = {}) {
+    const authHeader = buildAuthorizationHeader(settings.apiToken);
+    let response;
+    try {
+        response = await fetch(url, {
+            headers: {
+                Accept: 'application/json',
+                ...(authHeader ? { Authorization: authHeader } : {}),
+                ...extraHeaders
+            },
+            credentials: 'include',
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        });
+    } catch (error) {
+        if (error && error.name === 'TimeoutError') {
+            throw new Error('TaskWorks APIリクエストがタイムアウトしました。');
+        }
+        throw new Error('TaskWorks APIへの接続に失敗しました。');
+    }
+    if (response.status === 401) {
+        throw new Error('TaskWorks APIの認証に失敗しました。API トークンに「ブロック時間帯の取得」権限があるか確認してください。');
+    }
+    return response;
+}
+
+// 304 の場合は notModified: true を返し、呼び出し側でキャッシュを使い続ける
+export async function fetchWindows(settings, etag) {
+    const endpoint = buildWindowsEndpoint(settings.apiBase);
+    const params = new URLSearchParams({
+        from: formatDateForApi(new Date()),
+        days: String(FETCH_DAYS),
+        tz: getTimeZone(),
+        focus_only: settings.focusOnly ? 'true' : 'false',
+        merge: 'false'
+    });
+    const response = await request(`${endpoint}?${params}`, settings, etag ? { 'If-None-Match': etag } : {});
+    if (response.status === 304) {
+        return { windows: null, etag, notModified: true };
+    }
+    if (!response.ok) {
+        throw new Error(`TaskWorks APIからステータス${response.status}が返されました。`);
+    }
+    let payload;
+    try {
+        payload = await response.json();
+    } catch (parseError) {
+        throw new Error('TaskWorks応答の解析に失敗しました。');
+    }
+    return {
+        windows: transformApiWindows(payload),
+        etag: response.headers.get('ETag'),
+        notModified: false
+    };
+}
+
+// ポップアップに表示する今日の残りタスク
+export async function fetchStatus(settings) {
+    const endpoint = buildBlocksEndpoint(settings.apiBase, 'status');
+    const params = new URLSearchParams({ tz: getTimeZone() });
+    const response = await request(`${endpoint}?${params}`, settings);
+    if (!response.ok) {
+        throw new Error(`TaskWorks APIからステータス${response.status}が返されました。`);
+    }
+    try {
+        return await response.json();
+    } catch (parseError) {
+        throw new Error('TaskWorks応答の解析に失敗しました。');
+    }
+}
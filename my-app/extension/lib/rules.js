@@ -0,0 +1,120 @@
+// ----- declarativeNetRequest のルール生成 -----
+// Userscript の findBlockMatch と同じ判定を、有効な時間帯ごとの動的ルールに置き換える。
+// 優先度: ブロックリスト (3) > 許可リストの例外 (2) > 許可リストモードの全体リダイレクト (1)
+import { normalizeBlocklistEntry } from './windows.js';
+
+const PRIORITY_BLOCK = 3;
+const PRIORITY_ALLOW = 2;
+const PRIORITY_ALLOWLIST_REDIRECT = 1;
+const RESOURCE_TYPES = ['main_frame'];
+
+function getHost(url) {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch (error) {
+        return null;
+    }
+}
+
+function escapeRegex(value) {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// urlFilter では * | ^ が特殊文字になるため、含む場合は正規表現に変換する
+function buildCondition(entry) {
+    if (entry.matchType === 'domain') {
+        return { requestDomains: [entry.pattern.toLowerCase()] };
+    }
+    if (entry.matchType === 'regex') {
+        return { regexFilter: entry.pattern, isUrlFilterCaseSensitive: false };
+    }
+    if (/[*|^]/.test(entry.pattern)) {
+        return { regexFilter: escapeRegex(entry.pattern) };
+    }
+    return { urlFilter: entry.pattern };
+}
+
+function entryKey(entry) {
+    return `${entry.matchType}:${entry.pattern}`;
+}
+
+// isRegexSupported: chrome.declarativeNetRequest.isRegexSupported を Promise で包んだもの。
+// RE2 で扱えない正規表現はルール全体の登録を失敗させるため、事前に除外する
+export async function buildRules({ activeWindows, blacklist, redirectUrl }, isRegexSupported) {
+    const rules = [];
+    const skipped = [];
+    const redirectHosts = new Set();
+
+    const resolveRedirect = window => (typeof window.redirectUrl === 'string' && window.redirectUrl)
+        ? window.redirectUrl
+        : redirectUrl;
+    for (const window of activeWindows) {
+        const host = getHost(resolveRedirect(window));
+        if (host) redirectHosts.add(host);
+    }
+    // リダイレクト先自体はブロックしない (ループ防止と、許可リストモードでタスクページを開けるように)
+    const excludedRequestDomains = Array.from(redirectHosts);
+
+    async function pushRule(entry, priority, action) {
+        const condition = buildCondition(entry);
+        if (condition.regexFilter) {
+            const result = await isRegexSupported(condition.regexFilter);
+            if (!result.isSupported) {
+                skipped.push({ pattern: entry.pattern, reason: result.reason || 'unsupported' });
+                return;
+            }
+        }
+        rules.push({
+            id: rules.length + 1,
+            priority,
+            action,
+            condition: {
+                ...condition,
+                resourceTypes: RESOURCE_TYPES,
+                ...(excludedRequestDomains.length ? { excludedRequestDomains } : {})
+            }
+        });
+    }
+
+    const globalEntries = (blacklist || []).map(normalizeBlocklistEntry).filter(Boolean);
+    const allowlistWindows = [];
+    for (const window of activeWindows) {
+        if (window.mode === 'allowlist') {
+            allowlistWindows.push(window);
+            continue;
+        }
+        const action = { type: 'redirect', redirect: { url: resolveRedirect(window) } };
+        const seen = new Set();
+        for (const entry of [...globalEntries, ...(window.blocklist || [])]) {
+            const normalized = normalizeBlocklistEntry(entry);
+            if (!normalized || seen.has(entryKey(normalized))) continue;
+            seen.add(entryKey(normalized));
+            await pushRule(normalized, PRIORITY_BLOCK, action);
+        }
+    }
+
+    if (allowlistWindows.length) {
+        // 許可リストの時間帯が重なっているときは、すべての時間帯で許可されている URL だけを通す
+        let allowed = null;
+        for (const window of allowlistWindows) {
+            const entries = new Map((window.allowlist || []).map(entry => [entryKey(entry), entry]));
+            if (allowed === null) {
+                allowed = entries;
+            } else {
+                for (const key of Array.from(allowed.keys())) {
+                    if (!entries.has(key)) allowed.delete(key);
+                }
+            }
+        }
+        for (const entry of allowed.values()) {
+            await pushRule(entry, PRIORITY_ALLOW, { type: 'allow' });
+        }
+        await pushRule(
+            { pattern: '^https?://', matchType: 'regex' },
+            PRIORITY_ALLOWLIST_REDIRECT,
+            { type: 'redirect', redirect: { url: resolveRedirect(allowlistWindows[0]) } }
+        );
+    }
+
+    return { rules, skipped };
+}
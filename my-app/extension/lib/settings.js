@@ -0,0 +1,27 @@
+// ----- 設定とキャッシュの保存先 (chrome.storage.local) -----
+// Service Worker・オプションページ・ポップアップで共有する
+
+export const STORAGE_KEYS = {
+    SETTINGS: 'settings',
+    WINDOW_CACHE: 'windowCache',
+    STATUS: 'status',
+    SYNC_STATE: 'syncState'
+};
+
+export const DEFAULT_SETTINGS = {
+    apiBase: '',
+    apiToken: '',
+    focusOnly: false,
+    blacklist: [],
+    redirectUrl: 'https://www.google.com',
+    manualWindows: []
+};
+
+export async function loadSettings() {
+    const stored = await chrome.storage.local.get(STORAGE_KEYS.SETTINGS);
+    return { ...DEFAULT_SETTINGS, ...(stored[STORAGE_KEYS.SETTINGS] || {}) };
+}
+
+export async function saveSettings(settings) {
+    await chrome.storage.local.set({ [STORAGE_KEYS.SETTINGS]: { ...DEFAULT_SETTINGS, ...settings } });
+}
@@ -0,0 +1,190 @@
+// ----- ブロック時間帯の解釈 -----
+// Userscript (src/violentmonkey/url-block.js) と同じロジック。Userscript は単一ファイルで
+// 配布しているため import できないので、どちらかを変更したらもう一方も揃えること。
+
+function padTwoDigits(value) {
+    return value.toString().padStart(2, '0');
+}
+
+// v4.4 以前のキャッシュやローカルのブラックリストは文字列 (部分一致)
+export function normalizeBlocklistEntry(item) {
+    if (typeof item === 'string') {
+        const pattern = item.trim();
+        return pattern ? { pattern, matchType: 'substring' } : null;
+    }
+    if (!item || typeof item !== 'object' || typeof item.pattern !== 'string' || !item.pattern.trim()) {
+        return null;
+    }
+    const rawType = item.match_type || item.matchType;
+    const matchType = rawType === 'domain' || rawType === 'regex' ? rawType : 'substring';
+    return { pattern: item.pattern.trim(), matchType };
+}
+
+export function matchesBlocklistEntry(url, entry) {
+    if (!entry) return false;
+    if (entry.matchType === 'domain') {
+        let host;
+        try {
+            host = new URL(url).hostname.toLowerCase();
+        } catch (error) {
+            return false;
+        }
+        const domain = entry.pattern.toLowerCase();
+        return host === domain || host.endsWith(`.${domain}`);
+    }
+    if (entry.matchType === 'regex') {
+        try {
+            return new RegExp(entry.pattern, 'i').test(url);
+        } catch (error) {
+            return false;
+        }
+    }
+    return url.includes(entry.pattern);
+}
+
+// "HH:MM-HH:MM" 形式の手動ブロック時間帯 (API 未設定時に使用)
+export function parseBlockingWindows(entries) {
+    if (!Array.isArray(entries)) {
+        return [];
+    }
+    const pattern = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+    const windows = [];
+    for (const entry of entries) {
+        if (typeof entry !== 'string') continue;
+        const trimmed = entry.trim();
+        if (!trimmed) continue;
+        const match = trimmed.match(pattern);
+        if (!match) continue;
+        const startHour = Number(match[1]);
+        const startMinute = Number(match[2]);
+        const endHour = Number(match[3]);
+        const endMinute = Number(match[4]);
+        if (startHour > 23 || endHour > 23 || startMinute > 59 || endMinute > 59) {
+            continue;
+        }
+        const startTotal = startHour * 60 + startMinute;
+        const endTotal = endHour * 60 + endMinute;
+        const fullDay = startTotal === endTotal;
+        const wraps = endTotal < startTotal;
+        const raw = `${padTwoDigits(startHour)}:${padTwoDigits(startMinute)}-${padTwoDigits(endHour)}:${padTwoDigits(endMinute)}`;
+        windows.push({
+            type: 'manual',
+            startMinutes: startTotal,
+            endMinutes: endTotal,
+            wraps,
+            fullDay,
+            raw
+        });
+    }
+    return windows;
+}
+
+export function transformApiWindows(rawWindows) {
+    if (!Array.isArray(rawWindows)) {
+        return [];
+    }
+    const windows = [];
+    for (const entry of rawWindows) {
+        if (!entry || typeof entry !== 'object') continue;
+        const startMs = Date.parse(entry.start_at);
+        const endMs = Date.parse(entry.end_at);
+        if (!Number.isFinite(startMs) || !Number.isFinite(endMs)) {
+            continue;
+        }
+        const policy = entry.policy || {};
+        const mode = typeof policy.mode === 'string' ? policy.mode.toLowerCase() : 'blocklist';
+        if (mode !== 'blocklist' && mode !== 'allowlist') {
+            continue;
+        }
+        const redirectUrl = typeof policy.redirect_url === 'string' && policy.redirect_url.trim() ? policy.redirect_url.trim() : undefined;
+        const blocklist = Array.isArray(policy.blocklist)
+            ? policy.blocklist.map(normalizeBlocklistEntry).filter(Boolean)
+            : [];
+        const allowlist = Array.isArray(policy.allowlist)
+            ? policy.allowlist.map(normalizeBlocklistEntry).filter(Boolean)
+            : [];
+        const fullDay = startMs === endMs;
+        if (!fullDay && endMs <= startMs) {
+            continue;
+        }
+        windows.push({
+            type: 'remote',
+            startMs,
+            endMs,
+            fullDay,
+            redirectUrl,
+            severity: policy.severity || undefined,
+            mode,
+            blocklist,
+            allowlist,
+            reason: entry.reason || undefined,
+            taskId: typeof entry.task_id === 'string' ? entry.task_id : undefined
+        });
+    }
+    windows.sort((a, b) => {
+        if (a.startMs === b.startMs) {
+            return a.endMs - b.endMs;
+        }
+        return a.startMs - b.startMs;
+    });
+    return windows;
+}
+
+export function isWindowActive(now, window) {
+    if (!window) return false;
+    if (window.fullDay) {
+        return true;
+    }
+    if (window.type === 'remote') {
+        if (typeof window.startMs !== 'number' || typeof window.endMs !== 'number') {
+            return false;
+        }
+        const nowMs = now.getTime();
+        return window.startMs <= nowMs && nowMs < window.endMs;
+    }
+    if (window.type === 'manual') {
+        const minutes = now.getHours() * 60 + now.getMinutes();
+        if (window.wraps) {
+            return minutes >= window.startMinutes || minutes < window.endMinutes;
+        }
+        return minutes >= window.startMinutes && minutes < window.endMinutes;
+    }
+    return false;
+}
+
+// 重なっている時間帯はそれぞれ別のリダイレクト先・追加ブロックリストを持つため、すべて返す
+export function findActiveWindows(now, windows) {
+    if (!Array.isArray(windows) || !windows.length) {
+        return [];
+    }
+    return windows.filter(window => isWindowActive(now, window));
+}
+
+// ----- 拡張機能のみ -----
+// declarativeNetRequest には時刻の条件がないため、次に時間帯が切り替わる時刻でルールを作り直す
+export function findNextBoundary(now, windows) {
+    const nowMs = now.getTime();
+    let next = null;
+    for (const window of windows || []) {
+        if (window.fullDay) continue;
+        const candidates = [];
+        if (window.type === 'remote') {
+            candidates.push(window.startMs, window.endMs);
+        } else if (window.type === 'manual') {
+            for (const minutes of [window.startMinutes, window.endMinutes]) {
+                const boundary = new Date(now);
+                boundary.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+                if (boundary.getTime() <= nowMs) {
+                    boundary.setDate(boundary.getDate() + 1);
+                }
+                candidates.push(boundary.getTime());
+            }
+        }
+        for (const candidate of candidates) {
+            if (candidate > nowMs && (next === null || candidate < next)) {
+                next = candidate;
+            }
+        }
+    }
+    return next;
+}
@@ -0,0 +1,58 @@
+// オプションページ: 保存すると Service Worker が storage.onChanged でルールを作り直す
+import { loadSettings, saveSettings } from './lib/settings.js';
+import { parseBlockingWindows } from './lib/windows.js';
+
+const form = document.getElementById('settings-form');
+const saveStatus = document.getElementById('save-status');
+const fields = {
+    apiBase: document.getElementById('api-base'),
+    apiToken: document.getElementById('api-token'),
+    focusOnly: document.getElementById('focus-only'),
+    redirectUrl: document.getElementById('redirect-url'),
+    blacklist: document.getElementById('blacklist'),
+    manualWindows: document.getElementById('manual-windows')
+};
+
+function splitLines(value) {
+    return value.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+async function render() {
+    const settings = await loadSettings();
+    fields.apiBase.value = settings.apiBase;
+    fields.apiToken.value = settings.apiToken;
+    fields.focusOnly.checked = Boolean(settings.focusOnly);
+    fields.redirectUrl.value = settings.redirectUrl;
+    fields.blacklist.value = settings.blacklist.join('\n');
+    fields.manualWindows.value = settings.manualWindows.join('\n');
+}
+
+function showStatus(message, isError) {
+    saveStatus.textContent = message;
+    saveStatus.className = isError ? 'error' : 'muted';
+}
+
+form.addEventListener('submit', async event => {
+    event.preventDefault();
+    const manualWindows = splitLines(fields.manualWindows.value);
+    const invalid = manualWindows.filter(entry => !parseBlockingWindows([entry]).length);
+    if (invalid.length) {
+        showStatus(`時間帯の形式が正しくありません: ${invalid.join(', ')}`, true);
+        return;
+    }
+    try {
+        await saveSettings({
+            apiBase: fields.apiBase.value.trim().replace(/\/+$/, ''),
+            apiToken: fields.apiToken.value.trim(),
+            focusOnly: fields.focusOnly.checked,
+            redirectUrl: fields.redirectUrl.value.trim(),
+            blacklist: splitLines(fields.blacklist.value),
+            manualWindows
+        });
+        showStatus('保存しました。ブロックのルールを更新しています。', false);
+    } catch (error) {
+        showStatus(`保存に失敗しました: ${error.message}`, true);
+    }
+});
+
+void render();
@@ -0,0 +1,130 @@
+// ポップアップ: 現在の時間帯と今日の残りタスクを表示する
+import { STORAGE_KEYS, loadSettings } from './lib/settings.js';
+import { findActiveWindows, parseBlockingWindows } from './lib/windows.js';
+
+const activeList = document.getElementById('active-windows');
+const nextBoundaryText = document.getElementById('next-boundary');
+const remainingHeading = document.getElementById('remaining-heading');
+const remainingList = document.getElementById('remaining-tasks');
+const syncStatus = document.getElementById('sync-status');
+const syncButton = document.getElementById('sync-button');
+
+const timeFormatter = new Intl.DateTimeFormat('ja-JP', { hour: '2-digit', minute: '2-digit' });
+const dateTimeFormatter = new Intl.DateTimeFormat('ja-JP', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+});
+
+function listItem(primary, secondary) {
+    const item = document.createElement('li');
+    const title = document.createElement('div');
+    title.textContent = primary;
+    item.appendChild(title);
+    if (secondary) {
+        const detail = document.createElement('div');
+        detail.className = 'hint';
+        detail.textContent = secondary;
+        item.appendChild(detail);
+    }
+    return item;
+}
+
+function describeWindow(window) {
+    const mode = window.mode === 'allowlist' ? '許可リスト' : 'ブロックリスト';
+    if (window.type === 'manual') {
+        return { title: `手動の時間帯 ${window.raw}`, detail: mode };
+    }
+    const range = window.fullDay
+        ? '終日'
+        : `${timeFormatter.format(new Date(window.startMs))} – ${timeFormatter.format(new Date(window.endMs))}`;
+    const severity = window.severity === 'strict' ? ' / 厳格' : window.severity === 'lenient' ? ' / ゆるめ' : '';
+    return { title: window.reason || 'ブロック中', detail: `${range} / ${mode}${severity}` };
+}
+
+async function loadWindows(settings) {
+    if (!settings.apiBase) {
+        return parseBlockingWindows(settings.manualWindows);
+    }
+    const stored = await chrome.storage.local.get(STORAGE_KEYS.WINDOW_CACHE);
+    const cache = stored[STORAGE_KEYS.WINDOW_CACHE];
+    return cache && Array.isArray(cache.windows) ? cache.windows : [];
+}
+
+async function render() {
+    const settings = await loadSettings();
+    const windows = await loadWindows(settings);
+    const activeWindows = findActiveWindows(new Date(), windows);
+
+    activeList.replaceChildren(
+        ...(activeWindows.length
+            ? activeWindows.map(window => {
+                const { title, detail } = describeWindow(window);
+                return listItem(title, detail);
+            })
+            : [listItem('ブロックしていません')])
+    );
+
+    const stored = await chrome.storage.local.get([STORAGE_KEYS.STATUS, STORAGE_KEYS.SYNC_STATE]);
+    const syncState = stored[STORAGE_KEYS.SYNC_STATE];
+    nextBoundaryText.textContent = syncState && syncState.nextBoundary
+        ? `次の切り替え: ${dateTimeFormatter.format(new Date(syncState.nextBoundary))}`
+        : '';
+
+    const status = stored[STORAGE_KEYS.STATUS];
+    if (!settings.apiBase) {
+        remainingHeading.textContent = '今日の残りタスク';
+        remainingList.replaceChildren(listItem('API を設定すると表示されます'));
+    } else if (status && status.data) {
+        const tasks = status.data.remainingTasks || [];
+        remainingHeading.textContent = `今日の残りタスク (${status.data.remainingTaskCount})`;
+        remainingList.replaceChildren(
+            ...(tasks.length
+                ? tasks.map(task => listItem(task.title, `${task.completed}/${task.target}`))
+                : [listItem('今日のタスクはすべて完了しました')])
+        );
+    } else {
+        remainingHeading.textContent = '今日の残りタスク';
+        remainingList.replaceChildren(listItem((status && status.error) || 'まだ取得していません'));
+    }
+
+    if (syncState) {
+        const error = syncState.error || (status && status.error);
+        const skipped = syncState.skippedPatterns && syncState.skippedPatterns.length
+            ? ` / 使用できない正規表現: ${syncState.skippedPatterns.join(', ')}`
+            : '';
+        syncStatus.textContent = `最終同期: ${dateTimeFormatter.format(new Date(syncState.at))} / ルール ${syncState.ruleCount} 件${skipped}`;
+        syncStatus.className = 'hint';
+        if (error) {
+            syncStatus.textContent += ` / ${error}`;
+            syncStatus.className = 'hint error';
+        }
+    } else {
+        syncStatus.textContent = '';
+    }
+}
+
+syncButton.addEventListener('click', async () => {
+    syncButton.disabled = true;
+    syncButton.textContent = '同期中...';
+    try {
+        const response = await chrome.runtime.sendMessage({ type: 'refresh' });
+        if (!response || !response.ok) {
+            syncStatus.textContent = `同期に失敗しました: ${(response && response.error) || '不明なエラー'}`;
+            syncStatus.className = 'hint error';
+            return;
+        }
+        await render();
+    } finally {
+        syncButton.disabled = false;
+        syncButton.textContent = '今すぐ同期';
+    }
+});
+
+document.getElementById('options-link').addEventListener('click', event => {
+    event.preventDefault();
+    chrome.runtime.openOptionsPage();
+});
+
+void render();
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import { KeyRound } from "lucide-react";
+
+import CopyCodeButton from "@/components/CopyCodeButton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_LABELS,
+  calendarFeedUrl,
+  createApiToken,
+  listApiTokens,
+  renameApiToken,
+  revokeApiToken,
+  type ApiToken,
+  type ApiTokenScope,
+} from "@/lib/api-tokens";
+import { resolveTimeZone } from "@/lib/recurrence";
+import { userscriptInstallUrl } from "@/lib/userscript";
+
+const EXPIRY_OPTIONS = [
+  { value: "", label: "無期限" },
+  { value: "30", label: "30日" },
+  { value: "90", label: "90日" },
+  { value: "365", label: "1年" },
+];
+
+const dateFormatter = new Intl.DateTimeFormat("ja-JP", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+function formatDate(value: string | null, fallback: string): string {
+  return value ? dateFormatter.format(new Date(value)) : fallback;
+}
+
+function tokenStatus(token: ApiToken): { label: string; variant: "secondary" | "outline" | "destructive" } {
+  if (token.revokedAt) return { label: "失効済み", variant: "destructive" };
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) {
+    return { label: "期限切れ", variant: "outline" };
+  }
+  return { label: "有効", variant: "secondary" };
+}
+
+export default function ApiTokensCard() {
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [label, setLabel] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["blocks:read"]);
+  const [expiryDays, setExpiryDays] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [createdScopes, setCreatedScopes] = useState<ApiTokenScope[]>([]);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+
+  const refreshTokens = useCallback(async () => {
+    try {
+      setTokens(await listApiTokens());
+    } catch (error) {
+      console.error("Failed to load API tokens", error);
+      setTokenError("APIトークンの取得に失敗しました。");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshTokens();
+  }, [refreshTokens]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((value) => value !== scope) : [...current, scope],
+    );
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (creating || !label.trim() || !scopes.length) return;
+    setTokenError(null);
+    setCreatedSecret(null);
+    setCreating(true);
+    try {
+      const days = Number(expiryDays);
+      const expiresAt = days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+      const { token, secret } = await createApiToken({ label, scopes, expiresAt });
+      setTokens((current) => [token, ...(current ?? [])]);
+      setCreatedSecret(secret);
+      setCreatedScopes(token.scopes);
+      setLabel("");
+    } catch (error) {
+      console.error("Failed to create API token", error);
+      setTokenError("APIトークンの作成に失敗しました。時間をおいて再度お試しください。");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRename = async (token: ApiToken) => {
+    const next = window.prompt("トークンの名前を入力してください。", token.label);
+    if (next === null || !next.trim() || next.trim() === token.label) return;
+    setTokenError(null);
+    setBusyId(token.id);
+    try {
+      await renameApiToken(token.id, next);
+      await refreshTokens();
+    } catch (error) {
+      console.error("Failed to rename API token", error);
+      setTokenError("名前の変更に失敗しました。");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`「${token.label}」を失効させますか？このトークンを使う連携は動作しなくなります。`)) return;
+    setTokenError(null);
+    setBusyId(token.id);
+    try {
+      await revokeApiToken(token.id);
+      await refreshTokens();
+    } catch (error) {
+      console.error("Failed to revoke API token", error);
+      setTokenError("トークンの失効に失敗しました。");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="size-4" />
+          APIトークン
+        </CardTitle>
+        <CardDescription>
+          Userscript やカレンダーアプリから TaskWorks API を利用するための長期トークンです。トークンは作成時に一度だけ表示されます。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <form className="grid gap-4 sm:grid-cols-[1fr_auto] sm:items-end" onSubmit={(event) => void handleCreate(event)}>
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="api-token-label">名前</Label>
+              <Input
+                id="api-token-label"
+                value={label}
+                maxLength={100}
+                onChange={(event) => setLabel(event.target.value)}
+                placeholder="例: 仕事用PCの Userscript"
+              />
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {API_TOKEN_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    className="size-4 accent-primary"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  {API_TOKEN_SCOPE_LABELS[scope]}
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-muted-foreground">
+                有効期限
+                <select
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground"
+                  value={expiryDays}
+                  onChange={(event) => setExpiryDays(event.target.value)}
+                >
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+          <Button type="submit" disabled={creating || !label.trim() || !scopes.length}>
+            {creating ? "作成中…" : "トークンを作成"}
+          </Button>
+        </form>
+
+        {createdSecret ? (
+          <div className="space-y-2 rounded-lg border border-primary/40 bg-primary/5 p-4">
+            <p className="font-medium text-foreground">新しいトークンを作成しました。この画面を離れると再表示できません。</p>
+            <code className="block break-all rounded bg-muted px-3 py-2 text-xs">{createdSecret}</code>
+            <div className="flex flex-wrap items-center gap-3">
+              <CopyCodeButton code={createdSecret} label="トークンをコピー" />
+              {createdScopes.includes("blocks:read") ? (
+                <Button asChild variant="outline" size="sm">
+                  <a href={userscriptInstallUrl(window.location.origin, createdSecret)}>
+                    このトークンで Userscript をインストール
+                  </a>
+                </Button>
+              ) : null}
+              {createdScopes.includes("calendar:read") ? (
+                <CopyCodeButton
+                  code={calendarFeedUrl(window.location.origin, createdSecret, resolveTimeZone())}
+                  label="カレンダー購読 URL をコピー"
+                />
+              ) : null}
+            </div>
+          </div>
+        ) : null}
+
+        {tokens === null && !tokenError ? <p className="text-muted-foreground">読み込み中…</p> : null}
+        {tokens && tokens.length === 0 ? (
+          <p className="text-muted-foreground">まだトークンはありません。</p>
+        ) : null}
+        {tokens?.length ? (
+          <ul className="divide-y divide-border rounded-lg border border-border">
+            {tokens.map((token) => {
+              const status = tokenStatus(token);
+              return (
+                <li
+                  key={token.id}
+                  className="flex flex-col gap-3 px-4 py-3 md:flex-row md:items-center md:justify-between"
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium text-foreground">{token.label}</p>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </div>
+                    <p className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</p>
+                    <p className="text-xs text-muted-foreground">
+                      {token.scopes.map((scope) => API_TOKEN_SCOPE_LABELS[scope]).join(" / ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      作成: {formatDate(token.createdAt, "-")} ・ 最終使用: {formatDate(token.lastUsedAt, "未使用")}
+                      {token.expiresAt ? ` ・ 期限: ${formatDate(token.expiresAt, "-")}` : ""}
+                    </p>
+                  </div>
+                  {token.revokedAt ? null : (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => void handleRename(token)}
+                        disabled={busyId !== null}
+                      >
+                        名前を変更
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="border-destructive/40 text-destructive hover:bg-destructive/10"
+                        onClick={() => void handleRevoke(token)}
+                        disabled={busyId !== null}
+                      >
+                        {busyId === token.id ? "処理中…" : "失効"}
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : null}
+        {tokenError ? <p className="text-xs text-destructive">{tokenError}</p> : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,27 @@
 import { useEffect } from "react";
+import type { EmailOtpType } from "@supabase/supabase-js";
 
-import { AUTH_RESULT_STORAGE_KEY, REDIRECT_URL_STORAGE_KEY } from "~/lib/auth";
+import { AUTH_RESULT_STORAGE_KEY, REDIRECT_QUERY_PARAM, REDIRECT_URL_STORAGE_KEY } from "~/lib/auth";
 import { supabaseBrowser } from "~/lib/supabase";
 
-const PROVIDER_ERROR_MESSAGE = "Google ログインに失敗しました。もう一度お試しください。";
+const PROVIDER_ERROR_MESSAGE = "ログインに失敗しました。もう一度お試しください。";
 const EXCHANGE_ERROR_MESSAGE = "セッションの確立に失敗しました。時間をおいて再試行してください。";
 
 type AuthResultStatus = "success" | "provider_error" | "exchange_error" | "session_missing";
 
+const EMAIL_OTP_TYPES: readonly EmailOtpType[] = [
+  "email",
+  "magiclink",
+  "signup",
+  "invite",
+  "recovery",
+  "email_change",
+];
+
+function parseEmailOtpType(value: string | null): EmailOtpType | null {
+  return EMAIL_OTP_TYPES.find((type) => type === value) ?? null;
+}
+
 function recordAuthResult(status: AuthResultStatus) {
   if (typeof window === "undefined") return;
 
@@ -116,12 +130,17 @@ export default function AuthCallback() {
     const providerError = url.searchParams.get("error");
     const providerDescription = url.searchParams.get("error_description");
     const code = url.searchParams.get("code");
-    const storedRedirect = consumeStoredRedirect();
+    // Email templates that link straight to the app send a token hash instead of a PKCE code.
+    const tokenHash = url.searchParams.get("token_hash");
+    const otpType = parseEmailOtpType(url.searchParams.get("type"));
+    // Magic links often open in a new tab without our sessionStorage; fall back to the query.
+    const storedRedirect = consumeStoredRedirect() ?? url.searchParams.get(REDIRECT_QUERY_PARAM);
 
     console.info("AuthCallback mounted", {
       href: window.location.href,
       providerError,
       hasCode: Boolean(code),
+      hasTokenHash: Boolean(tokenHash),
       storedRedirect,
       localStorageKeys: listLocalStorageKeys(),
     });
@@ -135,7 +154,13 @@ export default function AuthCallback() {
       return;
     }
 
-    if (!code) {
+    const establishSession = code
+      ? () => supabase.auth.exchangeCodeForSession(code)
+      : tokenHash && otpType
+        ? () => supabase.auth.verifyOtp({ token_hash: tokenHash, type: otpType })
+        : null;
+
+    if (!establishSession) {
       recordAuthResult("session_missing");
       redirectToPath(storedRedirect);
       return;
@@ -145,11 +170,11 @@ export default function AuthCallback() {
 
     const exchange = async () => {
       try {
-        const { error } = await supabase.auth.exchangeCodeForSession(code);
+        const { error } = await establishSession();
         if (cancelled) return;
 
         if (error) {
-          console.error("exchangeCodeForSession failed", error);
+          console.error(code ? "exchangeCodeForSession failed" : "verifyOtp failed", error);
           redirectWithError(EXCHANGE_ERROR_MESSAGE, storedRedirect, "exchange_error");
           return;
         }
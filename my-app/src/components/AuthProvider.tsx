@@ -0,0 +1,44 @@
+import { createContext, useContext, useMemo, useState, useSyncExternalStore, type ReactNode } from "react"
+import type { User } from "@supabase/supabase-js"
+
+import type { OAuthProvider } from "@/lib/auth"
+import {
+  getSessionSnapshot,
+  seedSession,
+  sendMagicLink,
+  signIn,
+  subscribeSession,
+  type SessionSnapshot,
+} from "@/lib/auth-session"
+
+export type SessionContextValue = SessionSnapshot & {
+  signIn: (redirectPath?: string, provider?: OAuthProvider) => Promise<void>
+  sendMagicLink: (email: string, redirectPath?: string) => Promise<boolean>
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null)
+
+type AuthProviderProps = {
+  /** The user resolved by the middleware; omit when the server did not check. */
+  initialUser?: User | null
+  children: ReactNode
+}
+
+export function AuthProvider({ initialUser, children }: AuthProviderProps) {
+  const [serverSnapshot] = useState<SessionSnapshot>(() => {
+    if (initialUser !== undefined) seedSession(initialUser)
+    return { user: initialUser ?? null, ready: initialUser !== undefined, error: null }
+  })
+  const session = useSyncExternalStore(subscribeSession, getSessionSnapshot, () => serverSnapshot)
+  const value = useMemo(() => ({ ...session, signIn, sendMagicLink }), [session])
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+}
+
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext)
+  if (!context) {
+    throw new Error("useSession must be used inside an AuthProvider")
+  }
+  return context
+}
@@ -0,0 +1,174 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  TASK_PAGE_REDIRECT,
+  isValidBlockRedirect,
+  type BlockingPolicy,
+  type BlockMode,
+  type BlockSeverity,
+} from "@/lib/block-windows"
+
+export type BlockRedirectMode = "default" | "task" | "custom"
+
+/** Form state for a blocking policy; empty values mean "inherit". */
+export type BlockingPolicyDraft = {
+  redirectMode: BlockRedirectMode
+  redirectUrl: string
+  severity: "" | BlockSeverity
+  mode: "" | BlockMode
+  patterns: string
+}
+
+export const EMPTY_BLOCKING_POLICY_DRAFT: BlockingPolicyDraft = {
+  redirectMode: "default",
+  redirectUrl: "",
+  severity: "",
+  mode: "",
+  patterns: "",
+}
+
+const SELECT_CLASS_NAME =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-sm text-foreground disabled:opacity-50"
+
+export function draftFromBlockingPolicy(policy: BlockingPolicy | undefined): BlockingPolicyDraft {
+  if (!policy) return EMPTY_BLOCKING_POLICY_DRAFT
+  const redirectMode: BlockRedirectMode =
+    policy.redirectUrl === TASK_PAGE_REDIRECT ? "task" : policy.redirectUrl ? "custom" : "default"
+  return {
+    redirectMode,
+    redirectUrl: redirectMode === "custom" ? policy.redirectUrl ?? "" : "",
+    severity: policy.severity ?? "",
+    mode: policy.mode ?? "",
+    patterns: policy.patterns.join("\n"),
+  }
+}
+
+export function blockingPolicyFromDraft(draft: BlockingPolicyDraft): BlockingPolicy {
+  return {
+    redirectUrl:
+      draft.redirectMode === "task"
+        ? TASK_PAGE_REDIRECT
+        : draft.redirectMode === "custom"
+        ? draft.redirectUrl.trim() || null
+        : null,
+    severity: draft.severity || null,
+    mode: draft.mode || null,
+    patterns: draft.patterns
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean),
+  }
+}
+
+/** Returns an error message when the custom redirect is not an http(s) URL. */
+export function validateBlockingPolicyDraft(draft: BlockingPolicyDraft): string | null {
+  if (draft.redirectMode !== "custom") return null
+  const url = draft.redirectUrl.trim()
+  if (!url) return "リダイレクト先のURLを入力してください"
+  return isValidBlockRedirect(url) ? null : "リダイレクト先は http(s):// から始まるURLを入力してください"
+}
+
+export function blockingPolicyDraftsEqual(a: BlockingPolicyDraft, b: BlockingPolicyDraft) {
+  const left = blockingPolicyFromDraft(a)
+  const right = blockingPolicyFromDraft(b)
+  return (
+    left.redirectUrl === right.redirectUrl &&
+    left.severity === right.severity &&
+    left.mode === right.mode &&
+    left.patterns.join("\n") === right.patterns.join("\n")
+  )
+}
+
+type BlockingPolicyFieldsProps = {
+  idPrefix: string
+  value: BlockingPolicyDraft
+  onChange: (value: BlockingPolicyDraft) => void
+  disabled?: boolean
+}
+
+export default function BlockingPolicyFields({
+  idPrefix,
+  value,
+  onChange,
+  disabled,
+}: BlockingPolicyFieldsProps) {
+  const update = (patch: Partial<BlockingPolicyDraft>) => onChange({ ...value, ...patch })
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-redirect`}>リダイレクト先</Label>
+          <select
+            id={`${idPrefix}-redirect`}
+            className={SELECT_CLASS_NAME}
+            value={value.redirectMode}
+            disabled={disabled}
+            onChange={(event) => update({ redirectMode: event.target.value as BlockRedirectMode })}
+          >
+            <option value="default">既定</option>
+            <option value="task">タスクのページ</option>
+            <option value="custom">URLを指定</option>
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-severity`}>強度</Label>
+          <select
+            id={`${idPrefix}-severity`}
+            className={SELECT_CLASS_NAME}
+            value={value.severity}
+            disabled={disabled}
+            onChange={(event) => update({ severity: event.target.value as BlockingPolicyDraft["severity"] })}
+          >
+            <option value="">既定</option>
+            <option value="strict">厳格 (strict)</option>
+            <option value="lenient">ゆるめ (lenient)</option>
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-mode`}>モード</Label>
+          <select
+            id={`${idPrefix}-mode`}
+            className={SELECT_CLASS_NAME}
+            value={value.mode}
+            disabled={disabled}
+            onChange={(event) => update({ mode: event.target.value as BlockingPolicyDraft["mode"] })}
+          >
+            <option value="">既定</option>
+            <option value="blocklist">ブロックリスト</option>
+            <option value="allowlist">許可リスト</option>
+          </select>
+        </div>
+      </div>
+      {value.redirectMode === "custom" ? (
+        <Input
+          id={`${idPrefix}-redirect-url`}
+          type="url"
+          value={value.redirectUrl}
+          disabled={disabled}
+          onChange={(event) => update({ redirectUrl: event.target.value })}
+          placeholder="https://example.com/focus"
+        />
+      ) : null}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-patterns`}>
+          {value.mode === "allowlist" ? "許可するURL" : "追加でブロックするURL"}
+        </Label>
+        <Textarea
+          id={`${idPrefix}-patterns`}
+          value={value.patterns}
+          disabled={disabled}
+          onChange={(event) => update({ patterns: event.target.value })}
+          placeholder={"youtube.com\nx.com"}
+          className="min-h-[72px] font-mono text-xs"
+        />
+        <p className="text-xs text-muted-foreground">
+          {value.mode === "allowlist"
+            ? "1行に1つ。許可リストモードでは、URLにこの文字列が含まれるサイトとリダイレクト先以外がすべてブロックされます。"
+            : "1行に1つ。URLにこの文字列が含まれるとブロックされます。"}
+        </p>
+      </div>
+    </div>
+  )
+}
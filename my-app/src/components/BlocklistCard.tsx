@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import { ShieldBan } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  BLOCKLIST_MATCH_TYPES,
+  BLOCKLIST_MATCH_TYPE_LABELS,
+  createBlocklistEntry,
+  deleteBlocklistEntry,
+  listBlocklistEntries,
+  normalizeBlocklistPattern,
+  updateBlocklistEntry,
+  type BlocklistEntry,
+  type BlocklistMatchType,
+} from "@/lib/blocklist";
+import * as store from "@/lib/storage.supabase";
+
+const SELECT_CLASS_NAME =
+  "h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground disabled:opacity-50";
+
+const PATTERN_PLACEHOLDERS: Record<BlocklistMatchType, string> = {
+  substring: "例: youtube.com/shorts",
+  domain: "例: x.com",
+  regex: "例: ^https://(www\\.)?reddit\\.com/r/",
+};
+
+/** "all", "task:<id>" or "tag:<id>". */
+type ScopeValue = string;
+
+function scopeOf(entry: BlocklistEntry): ScopeValue {
+  if (entry.taskId) return `task:${entry.taskId}`;
+  if (entry.tagId) return `tag:${entry.tagId}`;
+  return "all";
+}
+
+function parseScope(value: ScopeValue): { taskId: string | null; tagId: string | null } {
+  if (value.startsWith("task:")) return { taskId: value.slice(5), tagId: null };
+  if (value.startsWith("tag:")) return { taskId: null, tagId: value.slice(4) };
+  return { taskId: null, tagId: null };
+}
+
+function describeError(error: unknown, fallback: string): string {
+  const code = typeof error === "object" && error !== null ? (error as { code?: unknown }).code : undefined;
+  if (code === "23505") return "同じパターンが既に登録されています。";
+  if (code === "22023") return "パターンの形式が正しくありません。";
+  return fallback;
+}
+
+export default function BlocklistCard() {
+  const [entries, setEntries] = useState<BlocklistEntry[] | null>(null);
+  const [tasks, setTasks] = useState<store.Task[]>([]);
+  const [tags, setTags] = useState<store.Tag[]>([]);
+  const [pattern, setPattern] = useState("");
+  const [matchType, setMatchType] = useState<BlocklistMatchType>("domain");
+  const [scope, setScope] = useState<ScopeValue>("all");
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [blocklistError, setBlocklistError] = useState<string | null>(null);
+
+  const refreshEntries = useCallback(async () => {
+    try {
+      setEntries(await listBlocklistEntries());
+    } catch (error) {
+      console.error("Failed to load blocklist", error);
+      setBlocklistError("ブロックリストの取得に失敗しました。");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshEntries();
+    void Promise.all([store.list(), store.listTags()])
+      .then(([taskList, tagList]) => {
+        setTasks(taskList);
+        setTags(tagList);
+      })
+      .catch((error) => {
+        console.error("Failed to load tasks and tags for blocklist", error);
+      });
+  }, [refreshEntries]);
+
+  const scopeLabels = useMemo(() => {
+    const labels = new Map<ScopeValue, string>([["all", "すべての時間帯"]]);
+    for (const task of tasks) labels.set(`task:${task.id}`, `タスク: ${task.title}`);
+    for (const tag of tags) labels.set(`tag:${tag.id}`, `タグ: #${tag.name}`);
+    return labels;
+  }, [tags, tasks]);
+
+  const patternCheck = pattern.trim() ? normalizeBlocklistPattern(pattern, matchType) : null;
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (creating || !patternCheck?.ok) return;
+    setBlocklistError(null);
+    setCreating(true);
+    try {
+      const entry = await createBlocklistEntry({ pattern, matchType, ...parseScope(scope) });
+      setEntries((current) => [...(current ?? []), entry]);
+      setPattern("");
+    } catch (error) {
+      console.error("Failed to create blocklist entry", error);
+      setBlocklistError(describeError(error, "ブロックリストへの追加に失敗しました。"));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleEdit = async (entry: BlocklistEntry) => {
+    const next = window.prompt("パターンを入力してください。", entry.pattern);
+    if (next === null || !next.trim() || next.trim() === entry.pattern) return;
+    setBlocklistError(null);
+    setBusyId(entry.id);
+    try {
+      await updateBlocklistEntry(entry.id, { pattern: next });
+      await refreshEntries();
+    } catch (error) {
+      console.error("Failed to update blocklist entry", error);
+      setBlocklistError(describeError(error, "パターンの変更に失敗しました。"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (entry: BlocklistEntry) => {
+    if (!window.confirm(`「${entry.pattern}」をブロックリストから削除しますか？`)) return;
+    setBlocklistError(null);
+    setBusyId(entry.id);
+    try {
+      await deleteBlocklistEntry(entry.id);
+      setEntries((current) => (current ?? []).filter((item) => item.id !== entry.id));
+    } catch (error) {
+      console.error("Failed to delete blocklist entry", error);
+      setBlocklistError("ブロックリストからの削除に失敗しました。");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldBan className="size-4" />
+          ブロックリスト
+        </CardTitle>
+        <CardDescription>
+          ブロック時間帯に開けないサイトです。Userscript や拡張機能はブロック時間帯 API からこのリストを受け取り、どのブラウザでも同じルールで制限します。許可リストモードのタスク・タグに紐づけたパターンは、その時間帯に開けるサイトとして扱われます。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <form
+          className="grid gap-3 md:grid-cols-[1fr_auto_auto_auto] md:items-end"
+          onSubmit={(event) => void handleCreate(event)}
+        >
+          <div className="space-y-1.5">
+            <Label htmlFor="blocklist-pattern">パターン</Label>
+            <Input
+              id="blocklist-pattern"
+              value={pattern}
+              maxLength={500}
+              onChange={(event) => setPattern(event.target.value)}
+              placeholder={PATTERN_PLACEHOLDERS[matchType]}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="blocklist-match-type">一致方法</Label>
+            <select
+              id="blocklist-match-type"
+              className={SELECT_CLASS_NAME}
+              value={matchType}
+              onChange={(event) => setMatchType(event.target.value as BlocklistMatchType)}
+            >
+              {BLOCKLIST_MATCH_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {BLOCKLIST_MATCH_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="blocklist-scope">適用範囲</Label>
+            <select
+              id="blocklist-scope"
+              className={`${SELECT_CLASS_NAME} max-w-56`}
+              value={scope}
+              onChange={(event) => setScope(event.target.value)}
+            >
+              {Array.from(scopeLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button type="submit" disabled={creating || !patternCheck?.ok}>
+            {creating ? "追加中…" : "追加"}
+          </Button>
+        </form>
+        {patternCheck && !patternCheck.ok ? (
+          <p className="text-xs text-destructive">パターンの形式が正しくありません。</p>
+        ) : null}
+
+        {entries === null && !blocklistError ? <p className="text-muted-foreground">読み込み中…</p> : null}
+        {entries && entries.length === 0 ? (
+          <p className="text-muted-foreground">まだブロックリストは空です。</p>
+        ) : null}
+        {entries?.length ? (
+          <ul className="divide-y divide-border rounded-lg border border-border">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className="flex flex-col gap-3 px-4 py-3 md:flex-row md:items-center md:justify-between"
+              >
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <code className="break-all font-mono text-xs text-foreground">{entry.pattern}</code>
+                    <Badge variant="outline">{BLOCKLIST_MATCH_TYPE_LABELS[entry.matchType]}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {scopeLabels.get(scopeOf(entry)) ?? (entry.taskId ? "タスク" : "タグ")}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => void handleEdit(entry)}
+                    disabled={busyId !== null}
+                  >
+                    編集
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-destructive/40 text-destructive hover:bg-destructive/10"
+                    onClick={() => void handleDelete(entry)}
+                    disabled={busyId !== null}
+                  >
+                    {busyId === entry.id ? "処理中…" : "削除"}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+        {blocklistError ? <p className="text-xs text-destructive">{blocklistError}</p> : null}
+      </CardContent>
+    </Card>
+  );
+}
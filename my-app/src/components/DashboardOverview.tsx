@@ -8,13 +8,15 @@ import {
   RefreshCcw,
 } from "lucide-react"
 
+import { AuthProvider, useSession } from "@/components/AuthProvider"
+import DistractionReportCard from "@/components/DistractionReportCard"
+import SnoozeLogCard from "@/components/SnoozeLogCard"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Skeleton } from "@/components/ui/skeleton"
-import { signInWithGoogle } from "@/lib/auth"
+import { useTaskSync } from "@/hooks/use-task-sync"
 import type { TaskListRow, TodayTaskRow } from "@/lib/storage.supabase"
 import * as store from "@/lib/storage.supabase"
-import { supabaseBrowser } from "@/lib/supabase"
 
 const dateFormatter = new Intl.DateTimeFormat("ja-JP", {
   dateStyle: "medium",
@@ -33,61 +35,26 @@ type DashboardOverviewProps = {
   initialOverview?: OverviewSnapshot | null
 }
 
-export default function DashboardOverview({ initialUser = null, initialOverview = null }: DashboardOverviewProps = {}) {
-  const [user, setUser] = useState<User | null>(initialUser)
-  const [authReady, setAuthReady] = useState(Boolean(initialUser))
-  const [authError, setAuthError] = useState<string | null>(null)
+export default function DashboardOverview({ initialUser, initialOverview = null }: DashboardOverviewProps = {}) {
+  return (
+    <AuthProvider initialUser={initialUser}>
+      <DashboardOverviewContent initialOverview={initialOverview} />
+    </AuthProvider>
+  )
+}
+
+function DashboardOverviewContent({ initialOverview }: { initialOverview: OverviewSnapshot | null }) {
+  const { user, ready: authReady, error: authError, signIn } = useSession()
   const [overview, setOverview] = useState<OverviewSnapshot | null>(initialOverview)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  useEffect(() => {
-    let ignore = false
-    const supabase = supabaseBrowser()
-
-    const loadSession = async () => {
-      try {
-        const { data: sessionData, error: sessionError } = await supabase.auth.getSession()
-        if (ignore) return
-        if (sessionError) throw sessionError
-        setUser(sessionData.session?.user ?? null)
-        setAuthError(null)
-      } catch (err) {
-        console.error("[overview] failed to load auth session", err)
-        if (ignore) return
-        setAuthError("認証状態の取得に失敗しました")
-        setUser(null)
-      } finally {
-        if (!ignore) setAuthReady(true)
-      }
-    }
-
-    if (!initialUser) {
-      void loadSession()
-    } else {
-      setAuthReady(true)
-    }
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (ignore) return
-      setUser(session?.user ?? null)
-      setAuthError(null)
-    })
-
-    return () => {
-      ignore = true
-      subscription.unsubscribe()
-    }
-  }, [initialUser])
-
-  const refreshOverview = useCallback(async () => {
+  const refreshOverview = useCallback(async (options?: { background?: boolean }) => {
     if (!user) {
       setOverview(null)
       return
     }
-    setLoading(true)
+    if (!options?.background) setLoading(true)
     try {
       const result = await store.fetchTaskOverview()
       setOverview(result)
@@ -107,6 +74,13 @@ export default function DashboardOverview({ initialUser = null, initialOverview
     }
   }, [initialOverview, refreshOverview, user])
 
+  useTaskSync(
+    useCallback(() => {
+      void refreshOverview({ background: true })
+    }, [refreshOverview]),
+    { enabled: !!user }
+  )
+
   const stats = useMemo(() => {
     const list = overview?.list ?? []
     if (list.length === 0) {
@@ -153,14 +127,7 @@ export default function DashboardOverview({ initialUser = null, initialOverview
         </CardHeader>
         <CardContent className="space-y-3 text-sm text-muted-foreground">
           <p>ダッシュボードではタスクの進捗と最近のアクティビティを確認できます。</p>
-          <Button
-            className="w-full justify-center"
-            onClick={() => {
-              void signInWithGoogle().catch((err) => {
-                console.error("Failed to start sign in", err)
-              })
-            }}
-          >
+          <Button className="w-full justify-center" onClick={() => void signIn()}>
             Googleでログイン
           </Button>
         </CardContent>
@@ -251,7 +218,8 @@ export default function DashboardOverview({ initialUser = null, initialOverview
                       更新: {dateFormatter.format(new Date(task.updatedAt))}
                     </span>
                     <span className="text-muted-foreground">
-                      今日: {task.completedToday}/{task.targetToday}
+                      {task.progressScope === "week" ? "今週" : task.progressScope === "month" ? "今月" : "今日"}:{" "}
+                      {task.completedToday}/{task.targetToday}
                     </span>
                   </div>
                   <span className="text-xs text-muted-foreground">
@@ -263,6 +231,10 @@ export default function DashboardOverview({ initialUser = null, initialOverview
           )}
         </CardContent>
       </Card>
+
+      <DistractionReportCard />
+
+      <SnoozeLogCard />
     </div>
   )
 }
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { ChevronLeft, ChevronRight, ShieldAlert } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { listBlockEvents, summarizeBlockEvents, type BlockEvent } from "@/lib/block-events"
+
+const dayFormatter = new Intl.DateTimeFormat("ja-JP", { month: "numeric", day: "numeric" })
+
+/** Monday 00:00 (local time) of the week `offset` weeks from the current one. */
+function startOfWeek(offset: number) {
+  const date = new Date()
+  date.setHours(0, 0, 0, 0)
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7) + offset * 7)
+  return date
+}
+
+/** Weekly report of blocked visits: most distracting sites and attempts per task window. */
+export default function DistractionReportCard() {
+  const [weekOffset, setWeekOffset] = useState(0)
+  const [events, setEvents] = useState<BlockEvent[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const range = useMemo(() => {
+    const start = startOfWeek(weekOffset)
+    const end = startOfWeek(weekOffset + 1)
+    const lastDay = new Date(end.getTime() - 1)
+    return { start, end, label: `${dayFormatter.format(start)} – ${dayFormatter.format(lastDay)}` }
+  }, [weekOffset])
+
+  const refresh = useCallback(async () => {
+    setEvents(null)
+    try {
+      setEvents(await listBlockEvents({ from: range.start.toISOString(), to: range.end.toISOString() }))
+      setError(null)
+    } catch (err) {
+      console.error("[block-events] failed to fetch block events", err)
+      setError("ブロック記録を取得できませんでした")
+    }
+  }, [range])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const report = useMemo(() => (events ? summarizeBlockEvents(events) : null), [events])
+  const maxDomainCount = report?.topDomains[0]?.count ?? 0
+
+  return (
+    <Card className="rounded-2xl border border-border/60 bg-card/80 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm font-medium">
+          <ShieldAlert className="size-4 text-muted-foreground" />
+          気が散ったサイト
+        </CardTitle>
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Button variant="ghost" size="sm" aria-label="前の週" onClick={() => setWeekOffset((value) => value - 1)}>
+            <ChevronLeft className="size-4" />
+          </Button>
+          <span>{weekOffset === 0 ? `今週 (${range.label})` : range.label}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label="次の週"
+            disabled={weekOffset >= 0}
+            onClick={() => setWeekOffset((value) => Math.min(value + 1, 0))}
+          >
+            <ChevronRight className="size-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !report ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : report.total === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            この週にブロックされたアクセスはありません。Userscript の API トークンに「ブロック記録の送信」権限を付けると記録されます。
+          </p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">
+                よくアクセスしたサイト (合計 {report.total} 回)
+              </p>
+              <ul className="space-y-2 text-sm">
+                {report.topDomains.map((entry) => (
+                  <li key={entry.domain} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-foreground">{entry.domain}</span>
+                      <span className="text-muted-foreground">{entry.count} 回</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muted">
+                      <div
+                        className="h-1.5 rounded-full bg-primary/70"
+                        style={{ width: `${Math.round((entry.count / maxDomainCount) * 100)}%` }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">タスクの時間帯ごとのアクセス</p>
+              {report.byTask.length === 0 ? (
+                <p className="text-sm text-muted-foreground">タスクの時間帯中のアクセスはありません。</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {report.byTask.map((entry) => (
+                    <li key={entry.taskId} className="flex items-center justify-between gap-3">
+                      <div className="flex flex-col">
+                        <span className="font-medium text-foreground">{entry.title}</span>
+                        <span className="text-xs text-muted-foreground">最多: {entry.topDomain}</span>
+                      </div>
+                      <span className="text-muted-foreground">{entry.count} 回</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from "react"
+import { Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { Skeleton } from "@/components/ui/skeleton"
+import * as store from "@/lib/storage.supabase"
+import type { ExecutionLog } from "@/lib/storage.supabase"
+
+const HISTORY_DAYS = 14
+const HISTORY_LIMIT = 50
+
+const historyFormatter = new Intl.DateTimeFormat("ja-JP", {
+  month: "numeric",
+  day: "numeric",
+  weekday: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+})
+
+function formatCount(value: number) {
+  if (Number.isInteger(value)) return value.toString()
+  return value.toFixed(1)
+}
+
+type ExecutionHistorySheetProps = {
+  taskId: string | null
+  title: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export default function ExecutionHistorySheet({ taskId, title, open, onOpenChange }: ExecutionHistorySheetProps) {
+  const [logs, setLogs] = useState<ExecutionLog[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLogs = useCallback(async () => {
+    if (!taskId) return
+    setLoading(true)
+    try {
+      const from = new Date()
+      from.setDate(from.getDate() - HISTORY_DAYS)
+      from.setHours(0, 0, 0, 0)
+      const data = await store.listExecutions(taskId, { from: from.toISOString(), limit: HISTORY_LIMIT })
+      setLogs(data)
+      setDrafts({})
+      setError(null)
+    } catch (err) {
+      console.error("Failed to load executions", err)
+      setError("実行履歴の読み込みに失敗しました")
+    } finally {
+      setLoading(false)
+    }
+  }, [taskId])
+
+  useEffect(() => {
+    if (open) void loadLogs()
+  }, [open, loadLogs])
+
+  const handleSaveQty = async (log: ExecutionLog) => {
+    const draft = drafts[log.id]
+    if (draft === undefined) return
+    const amount = Number.parseFloat(draft)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError("回数は0より大きい数値で入力してください")
+      return
+    }
+
+    setBusyId(log.id)
+    setError(null)
+    try {
+      const updated = await store.updateExecution(log.id, { qty: amount })
+      if (updated) {
+        setLogs((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+      }
+      setDrafts((prev) => {
+        const { [log.id]: _removed, ...rest } = prev
+        return rest
+      })
+    } catch (err) {
+      console.error("Failed to update execution", err)
+      setError("回数の更新に失敗しました")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (log: ExecutionLog) => {
+    if (!window.confirm(`${historyFormatter.format(new Date(log.happenedAt))} の記録を削除しますか？`)) return
+
+    setBusyId(log.id)
+    setError(null)
+    try {
+      await store.deleteExecution(log.id)
+      setLogs((prev) => prev.filter((item) => item.id !== log.id))
+    } catch (err) {
+      console.error("Failed to delete execution", err)
+      setError("記録の削除に失敗しました")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full gap-0 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>実行履歴</SheetTitle>
+          <SheetDescription>
+            {title} の直近{HISTORY_DAYS}日間の記録です。回数の修正や誤った記録の削除ができます。
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 space-y-3 overflow-y-auto px-4 pb-6">
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 p-2.5 text-sm text-destructive">
+              {error}
+            </div>
+          ) : null}
+          {loading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-2/3" />
+            </div>
+          ) : logs.length ? (
+            <ul className="divide-y divide-border/60 rounded-lg border border-border/60">
+              {logs.map((log) => {
+                const draft = drafts[log.id]
+                const dirty = draft !== undefined && Number.parseFloat(draft) !== log.qty
+                const busy = busyId === log.id
+                return (
+                  <li key={log.id} className="space-y-2 px-3 py-2.5 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-foreground">
+                        {historyFormatter.format(new Date(log.happenedAt))}
+                      </span>
+                      <span className="text-xs text-muted-foreground">×{formatCount(log.qty)}</span>
+                    </div>
+                    {log.note ? <p className="whitespace-pre-wrap text-xs text-muted-foreground">{log.note}</p> : null}
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        aria-label="回数"
+                        className="h-8 w-24"
+                        value={draft ?? String(log.qty)}
+                        disabled={busy}
+                        onChange={(event) => {
+                          const value = event.target.value
+                          setDrafts((prev) => ({ ...prev, [log.id]: value }))
+                        }}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!dirty || busy}
+                        onClick={() => void handleSaveQty(log)}
+                      >
+                        {busy && dirty ? "保存中…" : "回数を保存"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="ml-auto text-destructive hover:text-destructive"
+                        disabled={busy}
+                        onClick={() => void handleDelete(log)}
+                      >
+                        <Trash2 className="size-4" />
+                        <span className="sr-only">削除</span>
+                      </Button>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">まだ実行記録がありません。</p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState, type FormEvent } from "react"
+import { Github, LogIn, Mail } from "lucide-react"
+
+import { AuthProvider, useSession } from "@/components/AuthProvider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+
+type LoginPanelProps = {
+  /** Same-origin path to return to after sign-in (already validated by the page). */
+  redirectPath: string
+}
+
+export default function LoginPanel({ redirectPath }: LoginPanelProps) {
+  return (
+    <AuthProvider initialUser={null}>
+      <LoginPanelContent redirectPath={redirectPath} />
+    </AuthProvider>
+  )
+}
+
+function LoginPanelContent({ redirectPath }: LoginPanelProps) {
+  const { user, error, signIn, sendMagicLink } = useSession()
+  const [email, setEmail] = useState("")
+  const [sending, setSending] = useState(false)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  // The server may not have seen the session yet (e.g. cookies written after the request).
+  useEffect(() => {
+    if (user) window.location.replace(redirectPath)
+  }, [redirectPath, user])
+
+  const handleMagicLink = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const address = email.trim()
+    if (!address || sending) return
+    setSending(true)
+    setSentTo(null)
+    const sent = await sendMagicLink(address, redirectPath)
+    setSending(false)
+    if (sent) setSentTo(address)
+  }
+
+  return (
+    <Card className="mx-auto w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <LogIn className="size-4" />
+          ログイン
+        </CardTitle>
+        <CardDescription>ログインすると、タスクが自動的に同期されます。</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {error ? <p className="text-destructive">{error}</p> : null}
+        <div className="space-y-2">
+          <Button className="w-full justify-center" onClick={() => void signIn(redirectPath, "google")}>
+            Googleでログイン
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full justify-center"
+            onClick={() => void signIn(redirectPath, "github")}
+          >
+            <Github className="mr-2 size-4" />
+            GitHubでログイン
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <Separator className="flex-1" />
+          または
+          <Separator className="flex-1" />
+        </div>
+
+        <form className="space-y-2" onSubmit={(event) => void handleMagicLink(event)}>
+          <Label htmlFor="login-email">メールアドレス</Label>
+          <Input
+            id="login-email"
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="you@example.com"
+          />
+          <Button type="submit" variant="outline" className="w-full justify-center" disabled={sending}>
+            <Mail className="mr-2 size-4" />
+            {sending ? "送信中…" : "ログインリンクを送信"}
+          </Button>
+        </form>
+        {sentTo ? (
+          <p className="text-muted-foreground">
+            {sentTo} にログインリンクを送信しました。メールのリンクを開くとログインが完了します。
+          </p>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react"
+import { TriangleAlert, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { OUTBOX_REJECTED_EVENT, type OutboxRejectedDetail } from "@/lib/storage.supabase"
+
+const KIND_LABELS: Record<OutboxRejectedDetail["kind"], string> = {
+  task: "タスクの変更",
+  execution: "実行記録",
+}
+
+/** Tells the user that an offline write was discarded because the server rejected it. */
+export default function OutboxRejectedNotice() {
+  const [rejected, setRejected] = useState<OutboxRejectedDetail[]>([])
+
+  useEffect(() => {
+    const handleRejected = (event: Event) => {
+      const { detail } = event as CustomEvent<OutboxRejectedDetail>
+      setRejected((current) => [...current, detail])
+    }
+    window.addEventListener(OUTBOX_REJECTED_EVENT, handleRejected)
+    return () => window.removeEventListener(OUTBOX_REJECTED_EVENT, handleRejected)
+  }, [])
+
+  if (!rejected.length) return null
+
+  return (
+    <div
+      role="alert"
+      className="flex items-start gap-3 rounded-lg border border-destructive/40 bg-destructive/5 px-4 py-3 text-sm"
+    >
+      <TriangleAlert className="mt-0.5 size-4 shrink-0 text-destructive" />
+      <div className="flex-1 space-y-1">
+        <p className="font-medium text-foreground">オフライン中の変更の一部を保存できませんでした。</p>
+        <ul className="list-disc pl-5 text-muted-foreground">
+          {rejected.map((entry, index) => (
+            <li key={index}>
+              {KIND_LABELS[entry.kind]}
+              {entry.taskId ? (
+                <>
+                  {" ("}
+                  <a className="underline" href={`/tasks/${encodeURIComponent(entry.taskId)}`}>
+                    タスクを開く
+                  </a>
+                  {")"}
+                </>
+              ) : null}
+              : {entry.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <Button variant="ghost" size="sm" aria-label="閉じる" onClick={() => setRejected([])}>
+        <X className="size-4" />
+      </Button>
+    </div>
+  )
+}
@@ -1,5 +1,9 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { User, UserIdentity } from "@supabase/supabase-js";
 
+import ApiTokensCard from "@/components/ApiTokensCard";
+import BlocklistCard from "@/components/BlocklistCard";
+import { AuthProvider, useSession } from "@/components/AuthProvider";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -9,8 +13,14 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { signOut } from "@/lib/auth";
-import { supabaseBrowser } from "@/lib/supabase";
+import {
+  OAUTH_PROVIDER_LABELS,
+  linkIdentity,
+  listIdentities,
+  signOut,
+  unlinkIdentity,
+  type OAuthProvider,
+} from "@/lib/auth";
 
 type ProfileState = {
   name: string;
@@ -33,66 +43,67 @@ const errorState: ProfileState = {
   canSignOut: false,
 };
 
-export default function SettingsAccountPanel() {
-  const [profile, setProfile] = useState<ProfileState>(loadingState);
-  const [signingOut, setSigningOut] = useState(false);
-  const [signOutError, setSignOutError] = useState<string | null>(null);
+const LINKABLE_PROVIDERS: OAuthProvider[] = ["google", "github"];
 
-  useEffect(() => {
-    let active = true;
-
-    async function fetchProfile() {
-      const supabase = supabaseBrowser();
-      try {
-        const {
-          data: { user },
-          error,
-        } = await supabase.auth.getUser();
-
-        if (!active) return;
-
-        if (error || !user) {
-          console.error("Failed to fetch user info", error);
-          setProfile(errorState);
-          return;
-        }
-
-        const fullName =
-          (user.user_metadata?.full_name as string | undefined) ||
-          (user.user_metadata?.name as string | undefined) ||
-          user.email ||
-          "名称未設定";
-        const email = user.email ?? "未登録";
-        const lastSignInDate = user.last_sign_in_at ? new Date(user.last_sign_in_at) : null;
-        const formattedLastSignIn = lastSignInDate
-          ? new Intl.DateTimeFormat("ja-JP", {
-              year: "numeric",
-              month: "short",
-              day: "numeric",
-              hour: "2-digit",
-              minute: "2-digit",
-            }).format(lastSignInDate)
-          : "不明";
-
-        setProfile({
-          name: fullName,
-          email,
-          lastSignIn: `最終ログイン: ${formattedLastSignIn}`,
-          canSignOut: true,
-        });
-      } catch (err) {
-        console.error("Unexpected error fetching profile", err);
-        if (!active) return;
-        setProfile(errorState);
-      }
-    }
+function identityLabel(provider: string): string {
+  if (provider === "email") return "メール";
+  return OAUTH_PROVIDER_LABELS[provider as OAuthProvider] ?? provider;
+}
 
-    fetchProfile();
+function identityDetail(identity: UserIdentity): string {
+  const email = identity.identity_data?.email as string | undefined;
+  const userName = identity.identity_data?.user_name as string | undefined;
+  return email ?? userName ?? "詳細不明";
+}
 
-    return () => {
-      active = false;
-    };
-  }, []);
+type SettingsAccountPanelProps = {
+  initialUser?: User | null;
+};
+
+function toProfileState(user: User): ProfileState {
+  const fullName =
+    (user.user_metadata?.full_name as string | undefined) ||
+    (user.user_metadata?.name as string | undefined) ||
+    user.email ||
+    "名称未設定";
+  const email = user.email ?? "未登録";
+  const lastSignInDate = user.last_sign_in_at ? new Date(user.last_sign_in_at) : null;
+  const formattedLastSignIn = lastSignInDate
+    ? new Intl.DateTimeFormat("ja-JP", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      }).format(lastSignInDate)
+    : "不明";
+
+  return {
+    name: fullName,
+    email,
+    lastSignIn: `最終ログイン: ${formattedLastSignIn}`,
+    canSignOut: true,
+  };
+}
+
+export default function SettingsAccountPanel({ initialUser }: SettingsAccountPanelProps = {}) {
+  return (
+    <AuthProvider initialUser={initialUser}>
+      <SettingsAccountPanelContent />
+    </AuthProvider>
+  );
+}
+
+function SettingsAccountPanelContent() {
+  const { user, ready, error } = useSession();
+  const [signingOut, setSigningOut] = useState(false);
+  const [signOutError, setSignOutError] = useState<string | null>(null);
+
+  const profile = useMemo(() => {
+    if (!ready) return loadingState;
+    if (error || !user) return errorState;
+    return toProfileState(user);
+  }, [error, ready, user]);
 
   const handleSignOut = async () => {
     if (signingOut || !profile.canSignOut) return;
@@ -128,7 +139,7 @@ export default function SettingsAccountPanel() {
             </div>
           </div>
           <p className="mt-4 text-xs text-muted-foreground">
-            表示名やメールアドレスを変更する場合は、Googleアカウント設定から更新してください。
+            表示名やメールアドレスを変更する場合は、連携中のアカウント設定から更新してください。
           </p>
         </CardContent>
       </Card>
@@ -158,6 +169,118 @@ export default function SettingsAccountPanel() {
           </div>
         </CardContent>
       </Card>
+
+      {user ? <LinkedIdentitiesCard userId={user.id} /> : null}
+      {user ? <ApiTokensCard /> : null}
+      {user ? <BlocklistCard /> : null}
     </div>
   );
 }
+
+function LinkedIdentitiesCard({ userId }: { userId: string }) {
+  const [identities, setIdentities] = useState<UserIdentity[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [identityError, setIdentityError] = useState<string | null>(null);
+
+  const refreshIdentities = useCallback(async () => {
+    try {
+      setIdentities(await listIdentities());
+      setIdentityError(null);
+    } catch (error) {
+      console.error("Failed to load identities", error);
+      setIdentityError("連携アカウントの取得に失敗しました。");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshIdentities();
+  }, [refreshIdentities, userId]);
+
+  const handleLink = async (provider: OAuthProvider) => {
+    if (busy) return;
+    setIdentityError(null);
+    setBusy(provider);
+    try {
+      await linkIdentity(provider, "/settings");
+    } catch (error) {
+      console.error("Failed to link identity", error);
+      setIdentityError(
+        "アカウントの連携を開始できませんでした。Supabase で手動リンクが有効か確認してください。",
+      );
+      setBusy(null);
+    }
+  };
+
+  const handleUnlink = async (identity: UserIdentity) => {
+    if (busy || !identities || identities.length < 2) return;
+    if (!window.confirm(`${identityLabel(identity.provider)} との連携を解除しますか？`)) return;
+    setIdentityError(null);
+    setBusy(identity.identity_id);
+    try {
+      await unlinkIdentity(identity);
+      await refreshIdentities();
+    } catch (error) {
+      console.error("Failed to unlink identity", error);
+      setIdentityError("連携の解除に失敗しました。時間をおいて再度お試しください。");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const linkedProviders = new Set((identities ?? []).map((identity) => identity.provider));
+  const canUnlink = (identities?.length ?? 0) > 1;
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>連携アカウント</CardTitle>
+        <CardDescription>
+          連携したどのアカウントからでも同じデータにログインできます。最後の 1 件は解除できません。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {identities === null && !identityError ? (
+          <p className="text-muted-foreground">読み込み中…</p>
+        ) : null}
+        {identities?.length ? (
+          <ul className="divide-y divide-border rounded-lg border border-border">
+            {identities.map((identity) => (
+              <li
+                key={identity.identity_id}
+                className="flex flex-col gap-2 px-4 py-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="space-y-0.5">
+                  <p className="font-medium text-foreground">{identityLabel(identity.provider)}</p>
+                  <p className="text-xs text-muted-foreground break-all">{identityDetail(identity)}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void handleUnlink(identity)}
+                  disabled={!canUnlink || busy !== null}
+                >
+                  {busy === identity.identity_id ? "解除中…" : "連携を解除"}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+        <Separator />
+        <div className="flex flex-wrap gap-2">
+          {LINKABLE_PROVIDERS.filter((provider) => !linkedProviders.has(provider)).map((provider) => (
+            <Button
+              key={provider}
+              variant="outline"
+              size="sm"
+              onClick={() => void handleLink(provider)}
+              disabled={identities === null || busy !== null}
+            >
+              {busy === provider ? "移動中…" : `${OAUTH_PROVIDER_LABELS[provider]} を連携`}
+            </Button>
+          ))}
+        </div>
+        {identityError ? <p className="text-xs text-destructive">{identityError}</p> : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,6 +10,7 @@ import {
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
+import OutboxRejectedNotice from "@/components/OutboxRejectedNotice";
 import TaskSearch from "@/components/TaskSearch";
 import {
   Sidebar,
@@ -215,6 +216,7 @@ export default function SidebarLayout({ title, pathname, children, noScroll = fa
         {/* メインコンテンツ - 公式ドキュメントに従った構造 */}
         <main className={noScroll ? "flex-1 overflow-hidden bg-background" : "flex-1 overflow-auto bg-background p-4 md:p-8"}>
           <div className="space-y-6">
+            <OutboxRejectedNotice />
             {children}
           </div>
         </main>
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { AlarmClockOff } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { MAX_STRICT_SNOOZES_PER_DAY, listSnoozes, type BlockSnooze } from "@/lib/snoozes"
+
+const HISTORY_DAYS = 7
+
+const dateTimeFormatter = new Intl.DateTimeFormat("ja-JP", {
+  month: "numeric",
+  day: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+})
+
+const timeFormatter = new Intl.DateTimeFormat("ja-JP", {
+  hour: "2-digit",
+  minute: "2-digit",
+})
+
+function startOfLocalDay(offsetDays = 0) {
+  const date = new Date()
+  date.setHours(0, 0, 0, 0)
+  date.setDate(date.getDate() + offsetDays)
+  return date
+}
+
+function severityBadge(severity: BlockSnooze["severity"]) {
+  if (severity === "strict") return <Badge variant="destructive">厳格</Badge>
+  if (severity === "lenient") return <Badge variant="secondary">ゆるめ</Badge>
+  return <Badge variant="outline">時間帯外</Badge>
+}
+
+/** Accountability log of temporary unblocks from the last week. */
+export default function SnoozeLogCard() {
+  const [snoozes, setSnoozes] = useState<BlockSnooze[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setSnoozes(await listSnoozes({ from: startOfLocalDay(1 - HISTORY_DAYS).toISOString() }))
+      setError(null)
+    } catch (err) {
+      console.error("[snoozes] failed to fetch snoozes", err)
+      setError("一時解除の履歴を取得できませんでした")
+    }
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const strictUsedToday = useMemo(() => {
+    const todayStart = startOfLocalDay().getTime()
+    return (snoozes ?? []).filter(
+      (snooze) => snooze.severity === "strict" && new Date(snooze.startsAt).getTime() >= todayStart
+    ).length
+  }, [snoozes])
+
+  return (
+    <Card className="rounded-2xl border border-border/60 bg-card/80 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">ブロックの一時解除</CardTitle>
+        <AlarmClockOff className="size-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          直近{HISTORY_DAYS}日間の記録です。厳格な時間帯の一時解除は今日 {strictUsedToday}/{MAX_STRICT_SNOOZES_PER_DAY} 回使用しました。
+        </p>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : snoozes === null ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : snoozes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">一時解除はまだありません。</p>
+        ) : (
+          <ul className="space-y-3 text-sm">
+            {snoozes.map((snooze) => (
+              <li key={snooze.id} className="flex items-start justify-between gap-3">
+                <div className="flex flex-col">
+                  <span className="font-medium text-foreground">{snooze.reason}</span>
+                  <span className="text-muted-foreground">
+                    {dateTimeFormatter.format(new Date(snooze.startsAt))} –{" "}
+                    {timeFormatter.format(new Date(snooze.endsAt))}
+                  </span>
+                </div>
+                {severityBadge(snooze.severity)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
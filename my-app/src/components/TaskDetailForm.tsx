@@ -1,9 +1,17 @@
 import TaskEditorForm from "@/components/TaskEditorForm"
+import TaskExecutionLog from "@/components/TaskExecutionLog"
 
 type TaskDetailFormProps = {
   taskId: string
 }
 
 export default function TaskDetailForm({ taskId }: TaskDetailFormProps) {
-  return <TaskEditorForm mode="edit" taskId={taskId} />
+  return (
+    <div className="space-y-6">
+      <TaskEditorForm mode="edit" taskId={taskId} />
+      <div className="px-3 sm:px-5">
+        <TaskExecutionLog taskId={taskId} />
+      </div>
+    </div>
+  )
 }
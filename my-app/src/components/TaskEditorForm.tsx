@@ -13,7 +13,18 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import TaskTitleDetailFields from "@/components/TaskTitleDetailFields"
+import BlockingPolicyFields, {
+  EMPTY_BLOCKING_POLICY_DRAFT,
+  blockingPolicyDraftsEqual,
+  blockingPolicyFromDraft,
+  draftFromBlockingPolicy,
+  validateBlockingPolicyDraft,
+  type BlockingPolicyDraft,
+} from "@/components/BlockingPolicyFields"
+import { isOvernightSlot } from "@/lib/recurrence"
+import { formatRRule, parseRRule } from "@/lib/rrule"
 import { supabaseBrowser } from "@/lib/supabase"
 import * as store from "@/lib/storage.supabase"
 import type { Task } from "@/lib/storage.supabase"
@@ -21,6 +32,7 @@ import type { Task } from "@/lib/storage.supabase"
 const DEFAULT_START_TIME = "09:00"
 const DEFAULT_END_TIME = ""
 const DEFAULT_TIMES_PER_PERIOD = "1"
+const DEFAULT_INTERVAL_COUNT = "2"
 
 const WEEKDAY_OPTIONS: { value: number; label: string }[] = [
   { value: 0, label: "日" },
@@ -46,6 +58,10 @@ function resolvedTimeZone(): string {
 
 type TaskFormMode = "create" | "edit"
 
+type CadenceOption = "daily" | "weekly" | "monthly" | "interval"
+
+type IntervalUnit = "day" | "week"
+
 type TaskEditorFormProps = {
   mode: TaskFormMode
   taskId?: string
@@ -58,15 +74,19 @@ type FormSnapshot = {
   active: boolean
   startDate: string
   endDate: string
-  cadence: "daily" | "weekly" | "monthly"
+  cadence: CadenceOption
   timesPerPeriod: string
   weekDays: number[]
   monthlyDays: string
+  intervalCount: string
+  intervalUnit: IntervalUnit
   anytime: boolean
   startTime: string
   endTime: string
   tags: string
   timezone: string
+  blockPolicy: BlockingPolicyDraft
+  tagBlockPolicies: Record<string, BlockingPolicyDraft>
 }
 
 function equalNumberArrays(a: number[], b: number[]) {
@@ -76,6 +96,17 @@ function equalNumberArrays(a: number[], b: number[]) {
   return sortedA.every((value, index) => value === sortedB[index])
 }
 
+function equalTagPolicies(a: Record<string, BlockingPolicyDraft>, b: Record<string, BlockingPolicyDraft>) {
+  const names = new Set([...Object.keys(a), ...Object.keys(b)])
+  return Array.from(names).every((name) =>
+    blockingPolicyDraftsEqual(a[name] ?? EMPTY_BLOCKING_POLICY_DRAFT, b[name] ?? EMPTY_BLOCKING_POLICY_DRAFT)
+  )
+}
+
+function tagPoliciesFromTask(task: Task): Record<string, BlockingPolicyDraft> {
+  return Object.fromEntries(task.tags.map((tag) => [tag.name, draftFromBlockingPolicy(tag.blockingPolicy)]))
+}
+
 function normalizeTags(value: string) {
   return value
     .split(/[,\n]/)
@@ -132,15 +163,19 @@ function createSnapshot(state: {
   active: boolean
   startDate: string
   endDate: string
-  cadence: "daily" | "weekly" | "monthly"
+  cadence: CadenceOption
   timesPerPeriod: string
   weekDays: number[]
   monthlyDays: string
+  intervalCount: string
+  intervalUnit: IntervalUnit
   anytime: boolean
   startTime: string
   endTime: string
   tags: string
   timezone: string
+  blockPolicy: BlockingPolicyDraft
+  tagBlockPolicies: Record<string, BlockingPolicyDraft>
 }): FormSnapshot {
   return {
     title: state.title.trim(),
@@ -153,11 +188,15 @@ function createSnapshot(state: {
     timesPerPeriod: state.timesPerPeriod.trim(),
     weekDays: [...state.weekDays],
     monthlyDays: state.monthlyDays.trim(),
+    intervalCount: state.intervalCount.trim(),
+    intervalUnit: state.intervalUnit,
     anytime: state.anytime,
     startTime: state.startTime,
     endTime: state.endTime,
     tags: state.tags.trim(),
     timezone: state.timezone.trim(),
+    blockPolicy: state.blockPolicy,
+    tagBlockPolicies: state.tagBlockPolicies,
   }
 }
 
@@ -175,11 +214,15 @@ function snapshotsEqual(a: FormSnapshot | null, b: FormSnapshot | null) {
     a.timesPerPeriod === b.timesPerPeriod &&
     equalNumberArrays(a.weekDays, b.weekDays) &&
     a.monthlyDays === b.monthlyDays &&
+    a.intervalCount === b.intervalCount &&
+    a.intervalUnit === b.intervalUnit &&
     a.anytime === b.anytime &&
     a.startTime === b.startTime &&
     a.endTime === b.endTime &&
     a.tags === b.tags &&
-    a.timezone === b.timezone
+    a.timezone === b.timezone &&
+    blockingPolicyDraftsEqual(a.blockPolicy, b.blockPolicy) &&
+    equalTagPolicies(a.tagBlockPolicies, b.tagBlockPolicies)
   )
 }
 
@@ -197,15 +240,23 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
   const [startDate, setStartDate] = useState("")
   const [endDate, setEndDate] = useState("")
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined)
-  const [cadence, setCadence] = useState<"daily" | "weekly" | "monthly">("daily")
+  const [cadence, setCadence] = useState<CadenceOption>("daily")
   const [timesPerPeriod, setTimesPerPeriod] = useState(DEFAULT_TIMES_PER_PERIOD)
   const [weekDays, setWeekDays] = useState<number[]>([])
   const [monthlyDays, setMonthlyDays] = useState("1")
+  const [intervalCount, setIntervalCount] = useState(DEFAULT_INTERVAL_COUNT)
+  const [intervalUnit, setIntervalUnit] = useState<IntervalUnit>("day")
+  const [weekStart, setWeekStart] = useState<number | null>(null)
   const [anytime, setAnytime] = useState(true)
   const [startTime, setStartTime] = useState(DEFAULT_START_TIME)
   const [endTime, setEndTime] = useState(DEFAULT_END_TIME)
   const [tagsInput, setTagsInput] = useState("")
+  const [blockPolicy, setBlockPolicy] = useState<BlockingPolicyDraft>(EMPTY_BLOCKING_POLICY_DRAFT)
+  // Only tags listed here are saved, so tags typed in later keep their existing policy.
+  const [tagBlockPolicies, setTagBlockPolicies] = useState<Record<string, BlockingPolicyDraft>>({})
   const [timezone, setTimezone] = useState(() => resolvedTimeZone())
+  const [rruleText, setRruleText] = useState("")
+  const [rruleError, setRruleError] = useState<string | null>(null)
 
   const [advancedOpen, setAdvancedOpen] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -281,7 +332,7 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
 
       const primaryPeriod = task.periodRules[0]
       if (primaryPeriod) {
-        setCadence(primaryPeriod.cadence === "interval" ? "daily" : primaryPeriod.cadence)
+        setCadence(primaryPeriod.cadence)
         setTimesPerPeriod(
           primaryPeriod.timesPerPeriod !== null && primaryPeriod.timesPerPeriod !== undefined
             ? String(primaryPeriod.timesPerPeriod)
@@ -291,12 +342,20 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
         if (primaryPeriod.cadence === "monthly" && primaryPeriod.daysOfWeek?.length) {
           setMonthlyDays(primaryPeriod.daysOfWeek.join(","))
         }
+        if (primaryPeriod.cadence === "interval") {
+          setIntervalCount(String(primaryPeriod.intervalCount ?? 1))
+          setIntervalUnit(primaryPeriod.period === "week" ? "week" : "day")
+        }
+        setWeekStart(primaryPeriod.weekStart ?? null)
         setTimezone(primaryPeriod.timezone ?? resolvedTimeZone())
       } else {
         setCadence("daily")
         setTimesPerPeriod(DEFAULT_TIMES_PER_PERIOD)
         setWeekDays([])
         setMonthlyDays("1")
+        setIntervalCount(DEFAULT_INTERVAL_COUNT)
+        setIntervalUnit("day")
+        setWeekStart(null)
       }
 
       const primaryTime = task.timeRules[0]
@@ -314,6 +373,8 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
       }
 
       setTagsInput(task.tags.map((tag) => tag.name).join(", "))
+      setBlockPolicy(draftFromBlockingPolicy(task.blockingPolicy))
+      setTagBlockPolicies(tagPoliciesFromTask(task))
 
       const nextSnapshot = createSnapshot({
         title: task.title,
@@ -322,7 +383,7 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
         active: task.active,
         startDate: startIso,
         endDate: endIso,
-        cadence: primaryPeriod?.cadence === "interval" ? "daily" : primaryPeriod?.cadence ?? "daily",
+        cadence: primaryPeriod?.cadence ?? "daily",
         timesPerPeriod:
           primaryPeriod?.timesPerPeriod !== null && primaryPeriod?.timesPerPeriod !== undefined
             ? String(primaryPeriod.timesPerPeriod)
@@ -331,6 +392,12 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
         monthlyDays: primaryPeriod?.cadence === "monthly" && primaryPeriod.daysOfWeek?.length
           ? primaryPeriod.daysOfWeek.join(",")
           : "1",
+        intervalCount:
+          primaryPeriod?.cadence === "interval"
+            ? String(primaryPeriod.intervalCount ?? 1)
+            : DEFAULT_INTERVAL_COUNT,
+        intervalUnit:
+          primaryPeriod?.cadence === "interval" && primaryPeriod.period === "week" ? "week" : "day",
         anytime: primaryTime?.anytime ?? true,
         startTime:
           primaryTime?.startTime
@@ -339,6 +406,8 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
         endTime: primaryTime?.endTime ? primaryTime.endTime.slice(0, 5) : DEFAULT_END_TIME,
         tags: task.tags.map((tag) => tag.name).join(", "),
         timezone: primaryPeriod?.timezone ?? resolvedTimeZone(),
+        blockPolicy: draftFromBlockingPolicy(task.blockingPolicy),
+        tagBlockPolicies: tagPoliciesFromTask(task),
       })
 
       setSnapshot(nextSnapshot)
@@ -382,11 +451,15 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
         timesPerPeriod,
         weekDays,
         monthlyDays,
+        intervalCount,
+        intervalUnit,
         anytime,
         startTime,
         endTime,
         tags: tagsInput,
         timezone,
+        blockPolicy,
+        tagBlockPolicies,
       }),
     [
       title,
@@ -399,16 +472,74 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
       timesPerPeriod,
       weekDays,
       monthlyDays,
+      intervalCount,
+      intervalUnit,
       anytime,
       startTime,
       endTime,
       tagsInput,
       timezone,
+      blockPolicy,
+      tagBlockPolicies,
     ]
   )
 
+  const currentTagNames = useMemo(() => Array.from(new Set(normalizeTags(tagsInput))), [tagsInput])
+
   const hasChanges = useMemo(() => !snapshotsEqual(snapshot, currentSnapshot), [snapshot, currentSnapshot])
 
+  const rrulePreview = useMemo(() => {
+    const parsedTimes = timesPerPeriod.trim() ? Number.parseInt(timesPerPeriod, 10) : null
+    const parsedInterval = Number.parseInt(intervalCount, 10)
+    return formatRRule(
+      {
+        cadence,
+        timesPerPeriod: parsedTimes !== null && !Number.isNaN(parsedTimes) ? parsedTimes : null,
+        period: cadence === "interval" ? intervalUnit : undefined,
+        daysOfWeek:
+          cadence === "monthly"
+            ? parseMonthlyDays(monthlyDays) ?? []
+            : cadence === "weekly" || (cadence === "interval" && intervalUnit === "week")
+            ? weekDays
+            : null,
+        weekStart,
+        intervalCount: Number.isNaN(parsedInterval) ? null : parsedInterval,
+      },
+      { until: endDate || undefined }
+    )
+  }, [cadence, endDate, intervalCount, intervalUnit, monthlyDays, timesPerPeriod, weekDays, weekStart])
+
+  const handleApplyRRule = () => {
+    const parsed = parseRRule(rruleText, { startDate: startDate || formatDateToISO(new Date()) })
+    if (!parsed.ok) {
+      setRruleError(parsed.error)
+      return
+    }
+
+    const { rule, startDate: nextStart, endDate: nextEnd } = parsed.value
+    setCadence(rule.cadence)
+    setTimesPerPeriod(String(rule.timesPerPeriod ?? 1))
+    setWeekStart(rule.weekStart ?? null)
+    if (rule.cadence === "monthly") {
+      setMonthlyDays((rule.daysOfWeek ?? []).join(","))
+    } else {
+      setWeekDays(rule.daysOfWeek ?? [])
+    }
+    if (rule.cadence === "interval") {
+      setIntervalCount(String(rule.intervalCount ?? 1))
+      setIntervalUnit(rule.period === "week" ? "week" : "day")
+    }
+    if (nextStart || nextEnd) {
+      const startIso = nextStart ?? startDate
+      const endIso = nextEnd ?? endDate
+      setStartDate(startIso)
+      setEndDate(endIso)
+      setDateRange(createRangeFromISO(startIso, endIso))
+    }
+    setRruleError(null)
+    setFeedback("RRULEを繰り返し設定に反映しました。保存すると確定します。")
+  }
+
   const handleWeekdayToggle = (value: number) => {
     setWeekDays((prev) =>
       prev.includes(value) ? prev.filter((day) => day !== value) : [...prev, value]
@@ -434,13 +565,22 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
         if (
           startMinutes !== null &&
           endMinutes !== null &&
-          endMinutes <= startMinutes
+          endMinutes === startMinutes
         ) {
-          setError("終了時刻は開始時刻より後に設定してください")
+          setError("終了時刻は開始時刻と異なる時刻を設定してください")
           return
         }
       }
 
+      const policyError = [blockPolicy, ...currentTagNames.map((name) => tagBlockPolicies[name])]
+        .filter((draft): draft is BlockingPolicyDraft => !!draft)
+        .map(validateBlockingPolicyDraft)
+        .find(Boolean)
+      if (policyError) {
+        setError(policyError)
+        return
+      }
+
       setBusy(true)
       setError(null)
       setFeedback(null)
@@ -460,16 +600,35 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
         }
       }
 
+      let intervalValue: number | null = null
+      if (cadence === "interval") {
+        intervalValue = Number.parseInt(intervalCount, 10)
+        if (Number.isNaN(intervalValue) || intervalValue < 1) {
+          setError("間隔は1以上の半角数字で入力してください")
+          setBusy(false)
+          return
+        }
+      }
+
       const periodRule = {
         cadence,
         timesPerPeriod: timesValue,
-        period: cadence === "daily" ? "day" : cadence === "weekly" ? "week" : "month",
+        period:
+          cadence === "daily"
+            ? "day"
+            : cadence === "weekly"
+            ? "week"
+            : cadence === "monthly"
+            ? "month"
+            : intervalUnit,
         daysOfWeek:
-          cadence === "weekly"
+          cadence === "weekly" || (cadence === "interval" && intervalUnit === "week")
             ? weekDays
             : cadence === "monthly"
             ? monthlyDayList ?? []
             : null,
+        intervalCount: intervalValue,
+        weekStart,
         timezone,
       }
 
@@ -481,6 +640,10 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
         : { anytime: false, startTime: startTimeValue || null, endTime: endTimeValue }
 
       const tags = normalizeTags(tagsInput)
+      const blockingPolicy = blockingPolicyFromDraft(blockPolicy)
+      const tagBlockingPolicies = currentTagNames
+        .filter((name) => tagBlockPolicies[name])
+        .map((name) => ({ name, policy: blockingPolicyFromDraft(tagBlockPolicies[name]) }))
 
       try {
         if (!isEdit) {
@@ -495,6 +658,8 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
             timeRules: [timeRule],
             tags,
             timezone,
+            blockingPolicy,
+            tagBlockingPolicies,
           })
           window.location.href = "/tasks"
           return
@@ -511,6 +676,8 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
           timeRules: [timeRule],
           tags,
           timezone,
+          blockingPolicy,
+          tagBlockingPolicies,
         })
 
         setFeedback("更新しました。")
@@ -527,23 +694,29 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
       active,
       anytime,
       authChecking,
+      blockPolicy,
       busy,
       cadence,
       currentSnapshot,
+      currentTagNames,
       detail,
       endDate,
+      intervalCount,
+      intervalUnit,
       isEdit,
       kind,
       monthlyDays,
       startDate,
       startTime,
       endTime,
+      tagBlockPolicies,
       tagsInput,
       taskId,
       timesPerPeriod,
       timezone,
       title,
       weekDays,
+      weekStart,
     ]
   )
 
@@ -678,12 +851,13 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                         className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-ring"
                         value={cadence}
                         onChange={(event) =>
-                          setCadence(event.target.value as "daily" | "weekly" | "monthly")
+                          setCadence(event.target.value as CadenceOption)
                         }
                       >
                         <option value="daily">毎日</option>
                         <option value="weekly">週次</option>
                         <option value="monthly">月次</option>
+                        <option value="interval">インターバル</option>
                       </select>
                     </div>
                     <div className="space-y-2">
@@ -700,7 +874,35 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                     </div>
                   </div>
 
-                  {cadence === "weekly" ? (
+                  {cadence === "interval" ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="task-interval-count">間隔</Label>
+                      <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-2">
+                        <Input
+                          id="task-interval-count"
+                          type="number"
+                          min={1}
+                          step={1}
+                          value={intervalCount}
+                          onChange={(event) => setIntervalCount(event.target.value)}
+                        />
+                        <select
+                          aria-label="間隔の単位"
+                          className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                          value={intervalUnit}
+                          onChange={(event) => setIntervalUnit(event.target.value as IntervalUnit)}
+                        >
+                          <option value="day">日ごと</option>
+                          <option value="week">週ごと</option>
+                        </select>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        開始日から数えます。開始日が未設定の場合は作成日が基準になります。
+                      </p>
+                    </div>
+                  ) : null}
+
+                  {cadence === "weekly" || (cadence === "interval" && intervalUnit === "week") ? (
                     <div className="space-y-2">
                       <Label>実施曜日</Label>
                       <div className="grid grid-cols-7 gap-2 text-sm">
@@ -720,7 +922,9 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                         ))}
                       </div>
                       <p className="text-xs text-muted-foreground">
-                        未選択の場合は全曜日が対象になります。
+                        {cadence === "interval"
+                          ? "未選択の場合は開始日と同じ曜日が対象になります。"
+                          : "未選択の場合は曜日を問わず、週あたりの目標回数を達成すれば完了になります。"}
                       </p>
                     </div>
                   ) : null}
@@ -734,7 +938,7 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                         onChange={(event) => setMonthlyDays(event.target.value)}
                       />
                       <p className="text-xs text-muted-foreground">
-                        カンマ区切りで1〜31の数字を入力。空欄なら毎月1日。
+                        カンマ区切りで1〜31の数字を入力。空欄なら日付を問わず、月あたりの目標回数を達成すれば完了になります。
                       </p>
                     </div>
                   ) : null}
@@ -798,7 +1002,9 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                             onChange={(event) => setEndTime(event.target.value)}
                           />
                           <p className="text-xs text-muted-foreground">
-                            未入力の場合は開始時刻のみ表示されます。
+                            {isOvernightSlot(startTime, endTime)
+                              ? `翌日 ${endTime} に終了します（日をまたぐ時間帯）。`
+                              : "未入力の場合は開始時刻のみ表示されます。開始より前の時刻は翌日として扱われます。"}
                           </p>
                         </div>
                       </div>
@@ -851,6 +1057,43 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                         <p className="text-xs text-muted-foreground">例: Asia/Tokyo</p>
                       </div>
 
+                      <div className="space-y-2">
+                        <Label htmlFor="task-rrule">RRULEを貼り付け (上級者向け)</Label>
+                        <Textarea
+                          id="task-rrule"
+                          value={rruleText}
+                          onChange={(event) => {
+                            setRruleText(event.target.value)
+                            setRruleError(null)
+                          }}
+                          placeholder="FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10"
+                          className="min-h-[72px] font-mono text-xs"
+                        />
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="text-xs text-muted-foreground">
+                            カレンダーアプリのRRULEを繰り返し設定と開始日・終了日に反映します。
+                          </p>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={!rruleText.trim()}
+                            onClick={handleApplyRRule}
+                          >
+                            反映
+                          </Button>
+                        </div>
+                        {rruleError ? <p className="text-xs text-destructive">{rruleError}</p> : null}
+                        <p className="break-all text-xs text-muted-foreground">
+                          現在の設定:{" "}
+                          {rrulePreview.ok ? (
+                            <code className="font-mono text-foreground">{rrulePreview.value}</code>
+                          ) : (
+                            rrulePreview.error
+                          )}
+                        </p>
+                      </div>
+
                       <div className="space-y-2 rounded-lg border border-border/60 bg-muted/20 p-3 text-xs text-muted-foreground">
                         <p>
                           開始日と終了日が空の場合、タスクは常に対象として扱われます。
@@ -867,6 +1110,36 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                   )}
                 </CardContent>
               </Card>
+
+              <Card className="border-border/60 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-semibold">ブロック設定</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-xs text-muted-foreground">
+                    このタスクの時間帯に拡張機能がサイトをブロックするときの動作です。「既定」はタグや拡張機能の設定に従います。
+                  </p>
+                  <BlockingPolicyFields idPrefix="task-block" value={blockPolicy} onChange={setBlockPolicy} />
+
+                  {currentTagNames.length ? (
+                    <div className="space-y-4 border-t border-border/60 pt-4">
+                      <p className="text-xs text-muted-foreground">
+                        タグごとの設定は、同じタグが付いたすべてのタスクに適用されます。
+                      </p>
+                      {currentTagNames.map((name, index) => (
+                        <div key={name} className="space-y-2">
+                          <p className="text-sm font-medium">#{name}</p>
+                          <BlockingPolicyFields
+                            idPrefix={`tag-block-${index}`}
+                            value={tagBlockPolicies[name] ?? EMPTY_BLOCKING_POLICY_DRAFT}
+                            onChange={(next) => setTagBlockPolicies((prev) => ({ ...prev, [name]: next }))}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+                </CardContent>
+              </Card>
             </div>
           </div>
 
@@ -892,10 +1165,16 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                     setTimesPerPeriod(snapshot.timesPerPeriod)
                     setWeekDays(snapshot.weekDays)
                     setMonthlyDays(snapshot.monthlyDays)
+                    setIntervalCount(snapshot.intervalCount)
+                    setIntervalUnit(snapshot.intervalUnit)
+                    setRruleText("")
+                    setRruleError(null)
                     setAnytime(snapshot.anytime)
                     setStartTime(snapshot.startTime)
                     setEndTime(snapshot.endTime)
                     setTagsInput(snapshot.tags)
+                    setBlockPolicy(snapshot.blockPolicy)
+                    setTagBlockPolicies(snapshot.tagBlockPolicies)
                     setTimezone(snapshot.timezone || resolvedTimeZone())
                     setAdvancedOpen(false)
                     setFeedback(null)
@@ -912,10 +1191,17 @@ export default function TaskEditorForm({ mode, taskId }: TaskEditorFormProps) {
                     setTimesPerPeriod(DEFAULT_TIMES_PER_PERIOD)
                     setWeekDays([])
                     setMonthlyDays("1")
+                    setIntervalCount(DEFAULT_INTERVAL_COUNT)
+                    setIntervalUnit("day")
+                    setWeekStart(null)
+                    setRruleText("")
+                    setRruleError(null)
                     setAnytime(true)
                     setStartTime(DEFAULT_START_TIME)
                     setEndTime(DEFAULT_END_TIME)
                     setTagsInput("")
+                    setBlockPolicy(EMPTY_BLOCKING_POLICY_DRAFT)
+                    setTagBlockPolicies({})
                     setTimezone(resolvedTimeZone())
                     setAdvancedOpen(false)
                     setFeedback(null)
@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useState, type FormEvent } from "react"
+import { History } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import * as store from "@/lib/storage.supabase"
+import type { ExecutionLog } from "@/lib/storage.supabase"
+
+const HISTORY_DAYS = 30
+const HISTORY_LIMIT = 50
+const BACKFILL_SOURCE = "backfill"
+
+const SOURCE_LABELS: Record<string, string> = {
+  web: "Today",
+  backfill: "後から記録",
+  api: "API",
+}
+
+const historyFormatter = new Intl.DateTimeFormat("ja-JP", {
+  month: "numeric",
+  day: "numeric",
+  weekday: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+})
+
+function formatLocalDate(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${year}-${month}-${day}`
+}
+
+function formatLocalTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`
+}
+
+function yesterday(): Date {
+  const date = new Date()
+  date.setDate(date.getDate() - 1)
+  return date
+}
+
+function formatCount(value: number) {
+  if (Number.isInteger(value)) return value.toString()
+  return value.toFixed(1)
+}
+
+type TaskExecutionLogProps = {
+  taskId: string
+}
+
+export default function TaskExecutionLog({ taskId }: TaskExecutionLogProps) {
+  const [logs, setLogs] = useState<ExecutionLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [feedback, setFeedback] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [date, setDate] = useState(() => formatLocalDate(yesterday()))
+  const [time, setTime] = useState(() => formatLocalTime(new Date()))
+  const [qty, setQty] = useState("1")
+  const [note, setNote] = useState("")
+
+  const loadLogs = useCallback(async () => {
+    setLoading(true)
+    try {
+      const from = new Date()
+      from.setDate(from.getDate() - HISTORY_DAYS)
+      from.setHours(0, 0, 0, 0)
+      const data = await store.listExecutions(taskId, { from: from.toISOString(), limit: HISTORY_LIMIT })
+      setLogs(data)
+      setError(null)
+    } catch (err) {
+      console.error("Failed to load executions", err)
+      setError("実行履歴の読み込みに失敗しました")
+    } finally {
+      setLoading(false)
+    }
+  }, [taskId])
+
+  useEffect(() => {
+    void loadLogs()
+  }, [loadLogs])
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (busy) return
+
+    const [year, month, day] = date.split("-").map((token) => Number.parseInt(token, 10))
+    const [hours, minutes] = (time || "00:00").split(":").map((token) => Number.parseInt(token, 10))
+    if ([year, month, day, hours, minutes].some((part) => Number.isNaN(part))) {
+      setError("日付と時刻を正しく入力してください")
+      return
+    }
+    const happenedAt = new Date(year, month - 1, day, hours, minutes)
+    if (happenedAt.getTime() > Date.now()) {
+      setError("未来の日時には記録できません")
+      return
+    }
+    const amount = Number.parseFloat(qty)
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError("回数は0より大きい数値で入力してください")
+      return
+    }
+
+    setBusy(true)
+    setError(null)
+    setFeedback(null)
+    try {
+      const log = await store.logExecution(taskId, amount, {
+        happenedAt,
+        note,
+        source: BACKFILL_SOURCE,
+      })
+      setLogs((prev) =>
+        [log, ...prev].sort((a, b) => (a.happenedAt < b.happenedAt ? 1 : a.happenedAt > b.happenedAt ? -1 : 0))
+      )
+      setNote("")
+      setFeedback(`${historyFormatter.format(happenedAt)} の実行を記録しました。`)
+    } catch (err) {
+      console.error("Failed to record execution", err)
+      const message = err instanceof Error ? err.message : String(err)
+      setError(`記録に失敗しました: ${message}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card className="border-border/60 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+          <History className="size-4" />
+          実行履歴
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <p className="text-xs text-muted-foreground">
+            記録し忘れた実行を、日時とメモ付きで後から追加できます。
+          </p>
+          <div className="grid gap-3 sm:grid-cols-[minmax(0,1fr)_minmax(0,1fr)_6rem]">
+            <div className="space-y-2">
+              <Label htmlFor="execution-date">日付</Label>
+              <Input
+                id="execution-date"
+                type="date"
+                value={date}
+                max={formatLocalDate(new Date())}
+                onChange={(event) => setDate(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="execution-time">時刻</Label>
+              <Input
+                id="execution-time"
+                type="time"
+                step={300}
+                value={time}
+                onChange={(event) => setTime(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="execution-qty">回数</Label>
+              <Input
+                id="execution-qty"
+                type="number"
+                min={0}
+                step="any"
+                value={qty}
+                onChange={(event) => setQty(event.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="execution-note">メモ (任意)</Label>
+            <Textarea
+              id="execution-note"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="例: 夜に15分だけ実施"
+              className="min-h-[64px]"
+              maxLength={1000}
+            />
+          </div>
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 p-2.5 text-sm text-destructive">
+              {error}
+            </div>
+          ) : null}
+          {feedback ? (
+            <div className="rounded-md border border-border/60 bg-muted/30 p-2.5 text-sm text-foreground">
+              {feedback}
+            </div>
+          ) : null}
+          <div className="flex justify-end">
+            <Button type="submit" disabled={busy}>
+              {busy ? "記録中…" : "実行を記録"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">直近{HISTORY_DAYS}日間</p>
+          {loading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : logs.length ? (
+            <ul className="divide-y divide-border/60 rounded-lg border border-border/60">
+              {logs.map((log) => (
+                <li key={log.id} className="flex flex-col gap-1 px-3 py-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">
+                      {historyFormatter.format(new Date(log.happenedAt))}
+                    </span>
+                    <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {log.source ? (
+                        <span className="rounded-full border border-border/60 px-2 py-0.5">
+                          {SOURCE_LABELS[log.source] ?? log.source}
+                        </span>
+                      ) : null}
+                      ×{formatCount(log.qty)}
+                    </span>
+                  </div>
+                  {log.note ? <p className="whitespace-pre-wrap text-xs text-muted-foreground">{log.note}</p> : null}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">まだ実行記録がありません。</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react"
 import type { User } from "@supabase/supabase-js"
 
 import {
@@ -10,6 +10,7 @@ import {
 import type { ColumnDef, SortingState } from "@tanstack/react-table"
 import { ArrowUpDown, RefreshCcw, Trash2 } from "lucide-react"
 
+import { AuthProvider, useSession } from "@/components/AuthProvider"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import {
@@ -20,10 +21,15 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
-import { AUTH_RESULT_STORAGE_KEY, signInWithGoogle } from "@/lib/auth"
-import { supabaseBrowser } from "@/lib/supabase"
+import { useTaskSync } from "@/hooks/use-task-sync"
 import * as store from "@/lib/storage.supabase"
-import type { TaskListRow } from "@/lib/storage.supabase"
+import type { ProgressScope, TaskListRow, TaskOverview } from "@/lib/storage.supabase"
+
+const SCOPE_LABELS: Record<ProgressScope, string> = {
+  day: "今日",
+  week: "今週",
+  month: "今月",
+}
 
 const dateTimeFormatter = new Intl.DateTimeFormat("ja-JP", {
   dateStyle: "medium",
@@ -44,87 +50,39 @@ type OverviewMeta = {
   timeZone: string
 }
 
-export default function TaskList() {
-  const [user, setUser] = useState<User | null>(null)
-  const [authReady, setAuthReady] = useState(false)
-  const [authError, setAuthError] = useState<string | null>(null)
-  const [overviewMeta, setOverviewMeta] = useState<OverviewMeta | null>(null)
-  const [tasks, setTasks] = useState<TaskListRow[]>([])
+type TaskListProps = {
+  initialUser?: User | null
+  initialOverview?: TaskOverview | null
+}
+
+export default function TaskList({ initialUser, initialOverview = null }: TaskListProps = {}) {
+  return (
+    <AuthProvider initialUser={initialUser}>
+      <TaskListContent initialOverview={initialOverview} />
+    </AuthProvider>
+  )
+}
+
+function TaskListContent({ initialOverview }: { initialOverview: TaskOverview | null }) {
+  const { user, ready: authReady, error: authError, signIn } = useSession()
+  const [overviewMeta, setOverviewMeta] = useState<OverviewMeta | null>(
+    initialOverview ? { dateIso: initialOverview.dateIso, timeZone: initialOverview.timeZone } : null
+  )
+  const [tasks, setTasks] = useState<TaskListRow[]>(initialOverview?.list ?? [])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [busy, setBusy] = useState(false)
+  const skipInitialFetch = useRef(Boolean(initialOverview))
+  const userId = user?.id ?? null
 
-  useEffect(() => {
-    if (typeof window === "undefined") return
-
-    const url = new URL(window.location.href)
-    const authErrorParam = url.searchParams.get("auth_error")
-    if (authErrorParam) {
-      setAuthError(authErrorParam)
-      url.searchParams.delete("auth_error")
-      window.history.replaceState({}, "", `${url.pathname}${url.search}${url.hash}`)
-    }
-
-    try {
-      const result = window.sessionStorage.getItem(AUTH_RESULT_STORAGE_KEY)
-      window.sessionStorage.removeItem(AUTH_RESULT_STORAGE_KEY)
-
-      if (!authErrorParam && result === "session_missing") {
-        setAuthError("ブラウザがログイン情報を保存できませんでした。別のブラウザやストレージ設定をお確かめください。")
-      }
-
-      if (result) {
-        console.info("TaskList detected auth result state", { result })
-      }
-    } catch (err) {
-      console.warn("Failed to read auth result state.", err)
-    }
-  }, [])
-
-  useEffect(() => {
-    let ignore = false
-    const supabase = supabaseBrowser()
-
-    const loadUser = async () => {
-      try {
-        const { data } = await supabase.auth.getSession()
-        if (ignore) return
-        setUser(data.session?.user ?? null)
-        setAuthReady(true)
-      } catch (err) {
-        console.error("Failed to fetch auth state", err)
-        if (!ignore) {
-          setAuthError("認証状態の取得に失敗しました")
-          setAuthReady(true)
-        }
-      }
-    }
-
-    void loadUser()
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (ignore) return
-      setUser(session?.user ?? null)
-      setAuthError(null)
-      setAuthReady(true)
-    })
-
-    return () => {
-      ignore = true
-      subscription.unsubscribe()
-    }
-  }, [])
-
-  const refreshTasks = useCallback(async () => {
-    if (!user) {
+  const refreshTasks = useCallback(async (options?: { background?: boolean }) => {
+    if (!userId) {
       setTasks([])
       setOverviewMeta(null)
       setLoading(false)
       return
     }
-    setLoading(true)
+    if (!options?.background) setLoading(true)
     try {
       const overview = await store.fetchTaskOverview()
       setTasks(overview.list)
@@ -136,12 +94,24 @@ export default function TaskList() {
     } finally {
       setLoading(false)
     }
-  }, [user])
+  }, [userId])
 
   useEffect(() => {
+    // Server-rendered data is fresh for the first paint; refetch only when the user changes.
+    if (skipInitialFetch.current) {
+      skipInitialFetch.current = false
+      return
+    }
     void refreshTasks()
   }, [refreshTasks])
 
+  useTaskSync(
+    useCallback(() => {
+      void refreshTasks({ background: true })
+    }, [refreshTasks]),
+    { enabled: !!user }
+  )
+
   const handleDelete = useCallback(
     async (taskId: string) => {
       setBusy(true)
@@ -239,7 +209,10 @@ export default function TaskList() {
           }
           return (
             <div className="space-y-1 text-sm">
-              <span>{`${formatCount(task.completedToday)} / ${formatCount(task.targetToday)}`}</span>
+              <span>
+                {`${formatCount(task.completedToday)} / ${formatCount(task.targetToday)}`}
+                {task.progressScope !== "day" ? ` ${SCOPE_LABELS[task.progressScope]}` : null}
+              </span>
               <span className="text-xs text-muted-foreground">残り {formatCount(task.remainingToday)}</span>
             </div>
           )
@@ -335,16 +308,7 @@ export default function TaskList() {
           <p className="text-muted-foreground">Google アカウントでログインすると、タスクが自動的に同期されます。</p>
         </div>
         {authError ? <p className="text-destructive">{authError}</p> : null}
-        <Button
-          className="w-full justify-center"
-          onClick={() => {
-            setAuthError(null)
-            void signInWithGoogle().catch((err) => {
-              console.error("Failed to initiate sign-in", err)
-              setAuthError("ログインの開始に失敗しました。時間をおいて再試行してください。")
-            })
-          }}
-        >
+        <Button className="w-full justify-center" onClick={() => void signIn()}>
           Googleでログイン
         </Button>
       </div>
@@ -1,6 +1,7 @@
 import { Calendar, type DateRange } from "@/components/ui/calendar"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { isOvernightSlot } from "@/lib/recurrence"
 
 type TaskScheduleFieldsProps = {
   plannedRange: DateRange | undefined
@@ -9,6 +10,7 @@ type TaskScheduleFieldsProps = {
   endTime: string
   onStartTimeChange: (value: string) => void
   onEndTimeChange: (value: string) => void
+  /** Set when the end equals the start; an earlier end is an overnight slot and is valid. */
   timeInvalid?: boolean
 }
 
@@ -60,8 +62,10 @@ export default function TaskScheduleFields({
       </div>
       {timeInvalid ? (
         <p className="text-xs text-destructive sm:text-sm">
-          終了時刻は開始時刻より後に設定してください。
+          終了時刻は開始時刻と異なる時刻を設定してください。
         </p>
+      ) : isOvernightSlot(startTime, endTime) ? (
+        <p className="text-xs text-muted-foreground sm:text-sm">翌日 {endTime} に終了します（日をまたぐ時間帯）。</p>
       ) : null}
     </div>
   )
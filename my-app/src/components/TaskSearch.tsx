@@ -6,9 +6,9 @@ import {
   useState,
   type KeyboardEvent as ReactKeyboardEvent,
 } from "react";
-import type { User } from "@supabase/supabase-js";
 import { Loader2, Search } from "lucide-react";
 
+import { AuthProvider, useSession } from "@/components/AuthProvider";
 import { Button } from "@/components/ui/button";
 import {
   Command,
@@ -17,22 +17,26 @@ import {
   CommandItem,
   CommandList,
 } from "@/components/ui/command";
-import { signInWithGoogle } from "@/lib/auth";
 import type { Task } from "@/lib/storage.supabase";
 import * as store from "@/lib/storage.supabase";
-import { supabaseBrowser } from "@/lib/supabase";
 
 const SEARCH_LIMIT = 8;
 const DEBOUNCE_MS = 200;
 
 export default function TaskSearch() {
+  return (
+    <AuthProvider>
+      <TaskSearchContent />
+    </AuthProvider>
+  );
+}
+
+function TaskSearchContent() {
   const inputRef = useRef<HTMLInputElement | null>(null);
   const latestQueryRef = useRef<string>("");
   const [query, setQuery] = useState("");
   const [selected, setSelected] = useState<string | null>(null);
-  const [user, setUser] = useState<User | null>(null);
-  const [authReady, setAuthReady] = useState(false);
-  const [authError, setAuthError] = useState<string | null>(null);
+  const { user, ready: authReady, error: authError, signIn } = useSession();
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -40,42 +44,6 @@ export default function TaskSearch() {
 
   const trimmedQuery = useMemo(() => query.trim(), [query]);
 
-  useEffect(() => {
-    let ignore = false;
-    const supabase = supabaseBrowser();
-
-    const fetchSession = async () => {
-      try {
-        const { data } = await supabase.auth.getSession();
-        if (ignore) return;
-        setUser(data.session?.user ?? null);
-        setAuthReady(true);
-        setAuthError(null);
-      } catch (err) {
-        console.error("Failed to load auth session", err);
-        if (ignore) return;
-        setAuthError("認証状態の取得に失敗しました");
-        setAuthReady(true);
-      }
-    };
-
-    void fetchSession();
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (ignore) return;
-      setUser(session?.user ?? null);
-      setAuthError(null);
-      setAuthReady(true);
-    });
-
-    return () => {
-      ignore = true;
-      subscription.unsubscribe();
-    };
-  }, []);
-
   useEffect(() => {
     if (!authReady || !user) {
       latestQueryRef.current = "";
@@ -198,9 +166,7 @@ export default function TaskSearch() {
             className="w-full justify-center"
             onClick={() => {
               setOpen(false);
-              void signInWithGoogle().catch((err) => {
-                console.error("Failed to start sign in", err);
-              });
+              void signIn();
             }}
           >
             Googleでログイン
@@ -1,14 +1,23 @@
-import { useCallback, useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import type { User } from "@supabase/supabase-js"
-import { CalendarClock, RefreshCcw } from "lucide-react"
+import { CalendarClock, History, RefreshCcw, Undo2 } from "lucide-react"
 
+import { AuthProvider, useSession } from "@/components/AuthProvider"
 import { Button } from "@/components/ui/button"
+import ExecutionHistorySheet from "@/components/ExecutionHistorySheet"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Skeleton } from "@/components/ui/skeleton"
-import { AUTH_RESULT_STORAGE_KEY, signInWithGoogle } from "@/lib/auth"
-import { supabaseBrowser } from "@/lib/supabase"
+import { useTaskSync } from "@/hooks/use-task-sync"
 import * as store from "@/lib/storage.supabase"
-import type { TodayTaskRow } from "@/lib/storage.supabase"
+import type { ExecutionLog, ProgressScope, TaskOverview, TodayTaskRow } from "@/lib/storage.supabase"
+
+const SCOPE_LABELS: Record<ProgressScope, string> = {
+  day: "今日",
+  week: "今週",
+  month: "今月",
+}
+
+const UNDO_TIMEOUT_MS = 6000
 
 function formatCount(value: number) {
   if (Number.isInteger(value)) return value.toString()
@@ -20,6 +29,16 @@ type OverviewState = {
   timeZone: string
 }
 
+type UndoState = {
+  log: ExecutionLog
+  title: string
+}
+
+type HistoryTarget = {
+  taskId: string
+  title: string
+}
+
 type GroupedToday = {
   timed: TodayTaskRow[]
   anytime: TodayTaskRow[]
@@ -39,82 +58,44 @@ function groupRows(rows: TodayTaskRow[]): GroupedToday {
   )
 }
 
-export default function TodayTaskList() {
-  const [user, setUser] = useState<User | null>(null)
-  const [authReady, setAuthReady] = useState(false)
-  const [authError, setAuthError] = useState<string | null>(null)
+type TodayTaskListProps = {
+  initialUser?: User | null
+  initialOverview?: TaskOverview | null
+}
+
+export default function TodayTaskList({ initialUser, initialOverview = null }: TodayTaskListProps = {}) {
+  return (
+    <AuthProvider initialUser={initialUser}>
+      <TodayTaskListContent initialOverview={initialOverview} />
+    </AuthProvider>
+  )
+}
+
+function TodayTaskListContent({ initialOverview }: { initialOverview: TaskOverview | null }) {
+  const { user, ready: authReady, error: authError, signIn } = useSession()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [rows, setRows] = useState<TodayTaskRow[]>([])
-  const [overview, setOverview] = useState<OverviewState | null>(null)
+  const [rows, setRows] = useState<TodayTaskRow[]>(initialOverview?.today ?? [])
+  const [overview, setOverview] = useState<OverviewState | null>(
+    initialOverview ? { dateIso: initialOverview.dateIso, timeZone: initialOverview.timeZone } : null
+  )
   const [busyTaskId, setBusyTaskId] = useState<string | null>(null)
+  const [undo, setUndo] = useState<UndoState | null>(null)
+  const [undoing, setUndoing] = useState(false)
+  const [historyTarget, setHistoryTarget] = useState<HistoryTarget | null>(null)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const undoTimerRef = useRef<number | null>(null)
+  const skipInitialFetch = useRef(Boolean(initialOverview))
+  const userId = user?.id ?? null
 
-  useEffect(() => {
-    if (typeof window === "undefined") return
-
-    const url = new URL(window.location.href)
-    const authErrorParam = url.searchParams.get("auth_error")
-    if (authErrorParam) {
-      setAuthError(authErrorParam)
-      url.searchParams.delete("auth_error")
-      window.history.replaceState({}, "", `${url.pathname}${url.search}${url.hash}`)
-    }
-
-    try {
-      const result = window.sessionStorage.getItem(AUTH_RESULT_STORAGE_KEY)
-      window.sessionStorage.removeItem(AUTH_RESULT_STORAGE_KEY)
-      if (!authErrorParam && result === "session_missing") {
-        setAuthError("ブラウザがログイン情報を保存できませんでした。別のブラウザやストレージ設定をお確かめください。")
-      }
-    } catch (err) {
-      console.warn("Failed to read auth result state.", err)
-    }
-  }, [])
-
-  useEffect(() => {
-    let ignore = false
-    const supabase = supabaseBrowser()
-
-    const loadUser = async () => {
-      try {
-        const { data } = await supabase.auth.getSession()
-        if (ignore) return
-        setUser(data.session?.user ?? null)
-        setAuthReady(true)
-      } catch (err) {
-        console.error("Failed to load auth session", err)
-        if (!ignore) {
-          setAuthError("認証状態の取得に失敗しました")
-          setAuthReady(true)
-        }
-      }
-    }
-
-    void loadUser()
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (ignore) return
-      setUser(session?.user ?? null)
-      setAuthError(null)
-      setAuthReady(true)
-    })
-
-    return () => {
-      ignore = true
-      subscription.unsubscribe()
-    }
-  }, [])
-
-  const refreshRows = useCallback(async () => {
-    if (!user) {
+  const refreshRows = useCallback(async (options?: { background?: boolean }) => {
+    if (!userId) {
       setRows([])
       setOverview(null)
       setLoading(false)
       return
     }
-    setLoading(true)
+    if (!options?.background) setLoading(true)
     try {
       const data = await store.fetchTaskOverview()
       setRows(data.today)
@@ -126,21 +107,76 @@ export default function TodayTaskList() {
     } finally {
       setLoading(false)
     }
-  }, [user])
+  }, [userId])
 
   useEffect(() => {
+    // Server-rendered data is fresh for the first paint; refetch only when the user changes.
+    if (skipInitialFetch.current) {
+      skipInitialFetch.current = false
+      return
+    }
     void refreshRows()
   }, [refreshRows])
 
+  // Completions, undos and history edits from this tab, other tabs and other devices.
+  useTaskSync(
+    useCallback(() => {
+      void refreshRows({ background: true })
+    }, [refreshRows]),
+    { enabled: !!user }
+  )
+
+  const clearUndoTimer = useCallback(() => {
+    if (undoTimerRef.current !== null) {
+      window.clearTimeout(undoTimerRef.current)
+      undoTimerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => clearUndoTimer, [clearUndoTimer])
+
+  const showUndo = useCallback(
+    (next: UndoState) => {
+      clearUndoTimer()
+      setUndo(next)
+      undoTimerRef.current = window.setTimeout(() => {
+        undoTimerRef.current = null
+        setUndo(null)
+      }, UNDO_TIMEOUT_MS)
+    },
+    [clearUndoTimer]
+  )
+
+  const handleUndo = useCallback(async () => {
+    if (!undo || undoing) return
+    clearUndoTimer()
+    setUndoing(true)
+    try {
+      await store.deleteExecution(undo.log.id)
+      setError(null)
+    } catch (err) {
+      console.error("Failed to undo execution", err)
+      setError("記録の取り消しに失敗しました")
+    } finally {
+      setUndoing(false)
+      setUndo(null)
+    }
+  }, [undo, undoing, clearUndoTimer])
+
+  const handleOpenHistory = useCallback((row: TodayTaskRow) => {
+    setHistoryTarget({ taskId: row.taskId, title: row.title })
+    setHistoryOpen(true)
+  }, [])
+
   const handleComplete = useCallback(
     async (row: TodayTaskRow) => {
       if (row.status === "done") return
       setBusyTaskId(row.taskId)
       try {
         const qty = row.remaining > 1 ? 1 : row.remaining > 0 ? row.remaining : 1
-        await store.logExecution(row.taskId, qty)
+        const log = await store.logExecution(row.taskId, qty)
         setError(null)
-        await refreshRows()
+        showUndo({ log, title: row.title })
       } catch (err) {
         console.error("Failed to log execution", err)
         setError("タスクの進捗更新に失敗しました")
@@ -148,7 +184,7 @@ export default function TodayTaskList() {
         setBusyTaskId(null)
       }
     },
-    [refreshRows]
+    [showUndo]
   )
 
   const grouped = useMemo(() => groupRows(rows), [rows])
@@ -171,16 +207,7 @@ export default function TodayTaskList() {
           <p className="text-muted-foreground">Google アカウントでログインすると、タスクが自動的に同期されます。</p>
         </div>
         {authError ? <p className="text-destructive">{authError}</p> : null}
-        <Button
-          className="w-full justify-center"
-          onClick={() => {
-            setAuthError(null)
-            void signInWithGoogle().catch((err) => {
-              console.error("Failed to initiate sign-in", err)
-              setAuthError("ログインの開始に失敗しました。時間をおいて再試行してください。")
-            })
-          }}
-        >
+        <Button className="w-full justify-center" onClick={() => void signIn()}>
           Googleでログイン
         </Button>
       </div>
@@ -233,6 +260,7 @@ export default function TodayTaskList() {
                     row={task}
                     busy={busyTaskId === task.taskId}
                     onComplete={handleComplete}
+                    onOpenHistory={handleOpenHistory}
                   />
                 ))}
               </div>
@@ -249,6 +277,7 @@ export default function TodayTaskList() {
                     row={task}
                     busy={busyTaskId === task.taskId}
                     onComplete={handleComplete}
+                    onOpenHistory={handleOpenHistory}
                   />
                 ))}
               </div>
@@ -256,6 +285,26 @@ export default function TodayTaskList() {
           ) : null}
         </div>
       )}
+
+      <ExecutionHistorySheet
+        taskId={historyTarget?.taskId ?? null}
+        title={historyTarget?.title ?? ""}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+      />
+
+      {undo ? (
+        <div
+          role="status"
+          className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md items-center justify-between gap-3 rounded-lg border border-border bg-popover px-4 py-3 text-sm text-popover-foreground shadow-lg"
+        >
+          <span className="truncate">「{undo.title}」を記録しました (×{formatCount(undo.log.qty)})</span>
+          <Button size="sm" variant="outline" disabled={undoing} onClick={() => void handleUndo()}>
+            <Undo2 className="mr-1 size-4" />
+            {undoing ? "取り消し中…" : "元に戻す"}
+          </Button>
+        </div>
+      ) : null}
     </div>
   )
 }
@@ -263,9 +312,10 @@ type TodayTaskCardProps = {
   row: TodayTaskRow
   busy: boolean
   onComplete: (row: TodayTaskRow) => void
+  onOpenHistory: (row: TodayTaskRow) => void
 }
 
-function TodayTaskCard({ row, busy, onComplete }: TodayTaskCardProps) {
+function TodayTaskCard({ row, busy, onComplete, onOpenHistory }: TodayTaskCardProps) {
   const isDone = row.status === "done"
   const timeBadgeClass = row.anytime
     ? "rounded-md bg-slate-200/60 px-2 py-0.5 text-xs text-slate-600 dark:bg-slate-700/60 dark:text-slate-200"
@@ -291,20 +341,28 @@ function TodayTaskCard({ row, busy, onComplete }: TodayTaskCardProps) {
           </span>
           {row.startTime && !row.anytime ? (
             <span className="rounded-full bg-muted/60 px-2 py-0.5 text-[11px] text-muted-foreground">
-              {row.endTime ? `${row.startTime.slice(0, 5)} – ${row.endTime.slice(0, 5)}` : `${row.startTime.slice(0, 5)} 予定`}
+              {row.endTime
+                ? `${row.startTime.slice(0, 5)} – ${row.overnight ? "翌" : ""}${row.endTime.slice(0, 5)}`
+                : `${row.startTime.slice(0, 5)} 予定`}
             </span>
           ) : null}
           <span className={statusBadgeClass}>{isDone ? "完了" : "未完了"}</span>
         </div>
-        <Button
-          size="sm"
-          variant={isDone ? "outline" : "default"}
-          disabled={isDone || busy}
-          onClick={handleComplete}
-          className="min-w-[96px]"
-        >
-          {isDone ? "完了済" : busy ? "記録中..." : row.remaining <= 1 ? "完了" : `残り ${formatCount(row.remaining)}`}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={() => onOpenHistory(row)}>
+            <History className="mr-1 size-4" />
+            履歴
+          </Button>
+          <Button
+            size="sm"
+            variant={isDone ? "outline" : "default"}
+            disabled={isDone || busy}
+            onClick={handleComplete}
+            className="min-w-[96px]"
+          >
+            {isDone ? "完了済" : busy ? "記録中..." : row.remaining <= 1 ? "完了" : `残り ${formatCount(row.remaining)}`}
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="space-y-3 text-sm">
         {row.tags.length ? (
@@ -316,10 +374,17 @@ function TodayTaskCard({ row, busy, onComplete }: TodayTaskCardProps) {
             ))}
           </div>
         ) : null}
-        <div className="flex items-center justify-between text-xs text-muted-foreground">
-          <span>目標 {formatCount(row.target)}</span>
-          <span>実績 {formatCount(row.completed)}</span>
-        </div>
+        {row.progressScope === "day" ? (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>目標 {formatCount(row.target)}</span>
+            <span>実績 {formatCount(row.completed)}</span>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{SCOPE_LABELS[row.progressScope]}の目標 {formatCount(row.target)}</span>
+            <span>{`${formatCount(row.completed)}/${formatCount(row.target)} ${SCOPE_LABELS[row.progressScope]}`}</span>
+          </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -1,20 +1,27 @@
 import { useMemo, useState } from "react";
 
+import {
+  ApiHttpError,
+  buildAuthorizationHeader,
+  buildWindowsEndpoint,
+  createApiClient,
+  type BlockingWindowPayload,
+  type WindowsQuery,
+} from "@/lib/api-client";
+
 export type UrlBlockApiTesterProps = {
   defaultBaseUrl?: string;
   defaultFocusOnly?: boolean;
 };
 
-type BlockingWindowPayload = {
-  start_at: string;
-  end_at: string;
-  reason?: string | null;
-  policy?: {
-    mode?: string;
-    redirect_url?: string | null;
-    severity?: string | null;
-  } | null;
-};
+type BlocklistItem = string | { pattern: string; match_type?: string };
+
+function formatBlocklist(items: BlocklistItem[] | null | undefined): string {
+  if (!items?.length) return "—";
+  return items
+    .map((item) => (typeof item === "string" ? item : `${item.pattern} (${item.match_type ?? "substring"})`))
+    .join(", ");
+}
 
 type LogEntry = {
   id: number;
@@ -36,22 +43,6 @@ function formatIso(iso?: string | null) {
   return `${date.toLocaleString()} (${iso})`;
 }
 
-function ensureBearer(token: string) {
-  const trimmed = token.trim();
-  if (!trimmed) return "";
-  if (/^bearer\s+/i.test(trimmed)) return trimmed;
-  return `Bearer ${trimmed}`;
-}
-
-function buildWindowsEndpoint(baseUrl: string) {
-  const normalized = baseUrl.replace(/\s+/g, "").replace(/\/+$/, "");
-  if (!normalized) return "";
-  if (/\/v1\/blocks\/windows$/i.test(normalized)) return normalized;
-  if (/\/api\/v1$/i.test(normalized)) return `${normalized}/blocks/windows`;
-  if (/\/api$/i.test(normalized)) return `${normalized}/v1/blocks/windows`;
-  return `${normalized}/api/v1/blocks/windows`;
-}
-
 function formatDateInput(date: Date) {
   return DATE_FORMATTER.format(date);
 }
@@ -74,6 +65,7 @@ export default function UrlBlockApiTester({
   const [baseUrl, setBaseUrl] = useState<string>(() => defaultBaseUrl?.trim() || "");
   const [token, setToken] = useState<string>("");
   const [dateIso, setDateIso] = useState<string>(initialDate);
+  const [days, setDays] = useState<string>("1");
   const [timeZone, setTimeZone] = useState<string>(initialTz);
   const [focusOnly, setFocusOnly] = useState<boolean>(defaultFocusOnly);
   const [loading, setLoading] = useState<boolean>(false);
@@ -108,15 +100,21 @@ export default function UrlBlockApiTester({
       return;
     }
 
-    const params = new URLSearchParams();
-    params.set("date", dateIso);
-    params.set("tz", timeZone);
-    params.set("focus_only", String(focusOnly));
-    if (debugMode) {
-      params.set("debug", "true");
-    }
-    params.set("merge", String(mergeOverlaps));
-    const finalUrl = `${endpointUrl}?${params.toString()}`;
+    const query: WindowsQuery = {
+      from: dateIso,
+      days: days.trim() && days.trim() !== "1" ? Number(days.trim()) : undefined,
+      timeZone,
+      focusOnly,
+      merge: mergeOverlaps,
+    };
+    const client = createApiClient({
+      baseUrl: trimmedBase,
+      token,
+      onRetry: ({ attempt, delayMs, error }) =>
+        appendLog("info", `${error.message} — ${delayMs}ms 後に再試行します (${attempt} 回目)。`),
+    });
+    const windowsUrl = client.windowsUrl(query);
+    const finalUrl = debugMode ? `${windowsUrl}${windowsUrl.includes("?") ? "&" : "?"}debug=true` : windowsUrl;
 
     setEndpoint(endpointUrl);
     setRequestUrl(finalUrl);
@@ -126,56 +124,30 @@ export default function UrlBlockApiTester({
     appendLog("info", `GET ${finalUrl}`);
 
     try {
-      const headers: Record<string, string> = { Accept: "application/json" };
-      const bearer = ensureBearer(token);
-      if (bearer) {
-        headers.Authorization = bearer;
-      }
-
-      const response = await fetch(finalUrl, {
-        method: "GET",
-        headers,
-        credentials: "include",
-      });
-
-      const bodyText = await response.text();
-      setRawBody(bodyText);
-
-      if (!response.ok) {
-        appendLog("error", `HTTP ${response.status} ${response.statusText}: ${bodyText}`);
-        setResult(null);
-        setStatusText(`HTTP ${response.status}`);
-        return;
-      }
-
-      let payload: unknown;
-      try {
-        payload = bodyText ? JSON.parse(bodyText) : [];
-      } catch (error) {
-        appendLog("error", `JSON 解析エラー: ${(error as Error).message}`);
-        setResult(null);
-        setStatusText("JSON 解析エラー");
-        return;
-      }
-
-      if (Array.isArray(payload)) {
-        setResult(payload as BlockingWindowPayload[]);
-        appendLog("info", `ウィンドウを ${payload.length} 件取得しました。`);
-        setStatusText(`${payload.length} 件`);
-      } else if (payload && typeof payload === "object" && Array.isArray((payload as any).windows)) {
-        const windows = (payload as any).windows as BlockingWindowPayload[];
-        setResult(windows);
-        appendLog("info", `ウィンドウを ${windows.length} 件取得しました (meta 付き)。`);
-        setStatusText(`${windows.length} 件`);
+      if (debugMode) {
+        const payload = await client.getWindowsDebug(query);
+        setRawBody(JSON.stringify(payload, null, 2));
+        setResult(payload.windows);
+        appendLog("info", `ウィンドウを ${payload.windows.length} 件取得しました (meta 付き)。`);
+        setStatusText(`${payload.windows.length} 件`);
       } else {
-        appendLog("error", "期待した配列形式ではありませんでした。レスポンス形式を確認してください。");
-        setResult(null);
-        setStatusText("形式エラー");
+        const { windows } = await client.getWindows(query);
+        const list = windows ?? [];
+        setRawBody(JSON.stringify(list, null, 2));
+        setResult(list);
+        appendLog("info", `ウィンドウを ${list.length} 件取得しました。`);
+        setStatusText(`${list.length} 件`);
       }
     } catch (error) {
-      appendLog("error", `フェッチ失敗: ${(error as Error).message}`);
-      setStatusText("通信エラー");
       setResult(null);
+      if (error instanceof ApiHttpError) {
+        setRawBody(error.responseText);
+        appendLog("error", `HTTP ${error.status}: ${error.message}`);
+        setStatusText(`HTTP ${error.status}`);
+      } else {
+        appendLog("error", `フェッチ失敗: ${(error as Error).message}`);
+        setStatusText("通信エラー");
+      }
     } finally {
       setLoading(false);
     }
@@ -183,7 +155,7 @@ export default function UrlBlockApiTester({
 
   const curlSnippet = useMemo(() => {
     if (!requestUrl) return "";
-    const header = ensureBearer(token);
+    const header = buildAuthorizationHeader(token);
     const pieces = ["curl", "-H", "Accept: application/json"];
     if (header) {
       pieces.push("-H", `Authorization: ${header}`);
@@ -233,6 +205,19 @@ export default function UrlBlockApiTester({
           />
         </label>
 
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-foreground">日数 (days)</span>
+          <input
+            type="number"
+            min={1}
+            max={14}
+            className="rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground"
+            value={days}
+            onChange={(event) => setDays(event.target.value)}
+          />
+          <span className="text-xs text-muted-foreground">対象日から最大14日分をまとめて取得します。</span>
+        </label>
+
         <label className="flex flex-col gap-1 text-sm">
           <span className="font-medium text-foreground">タイムゾーン</span>
           <input
@@ -309,16 +294,19 @@ export default function UrlBlockApiTester({
             <table className="w-full text-sm">
               <thead className="bg-muted/60 text-left text-xs uppercase text-muted-foreground">
                 <tr>
+                  <th className="px-4 py-2 font-medium">日付</th>
                   <th className="px-4 py-2 font-medium">開始</th>
                   <th className="px-4 py-2 font-medium">終了</th>
                   <th className="px-4 py-2 font-medium">リダイレクト先</th>
                   <th className="px-4 py-2 font-medium">理由</th>
                   <th className="px-4 py-2 font-medium">モード/厳格度</th>
+                  <th className="px-4 py-2 font-medium">ブロック/許可パターン</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-border bg-card">
                 {result.map((window, index) => (
                   <tr key={`${window.start_at}-${index}`}>
+                    <td className="px-4 py-3 text-muted-foreground">{window.date || "—"}</td>
                     <td className="px-4 py-3 text-muted-foreground">{formatIso(window.start_at)}</td>
                     <td className="px-4 py-3 text-muted-foreground">{formatIso(window.end_at)}</td>
                     <td className="px-4 py-3 text-muted-foreground">{window.policy?.redirect_url || "—"}</td>
@@ -327,6 +315,11 @@ export default function UrlBlockApiTester({
                       {window.policy?.mode || "blocklist"}
                       {window.policy?.severity ? ` (${window.policy.severity})` : ""}
                     </td>
+                    <td className="px-4 py-3 text-muted-foreground">
+                      {window.policy?.mode === "allowlist"
+                        ? `許可: ${formatBlocklist(window.policy.allowlist)}`
+                        : formatBlocklist(window.policy?.blocklist)}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -1,10 +1,11 @@
 "use client"
 
-import { useCallback, useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import type { User } from "@supabase/supabase-js"
 import { motion } from "framer-motion"
 import { CalendarDays, ChevronLeft, ChevronRight, RefreshCcw } from "lucide-react"
 
+import { AuthProvider, useSession } from "@/components/AuthProvider"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
@@ -12,19 +13,26 @@ import CatRingProgress from "@/components/cat-ring-progress"
 import HabitCalendar from "@/components/habit-calendar"
 import RewardCard from "@/components/reward-card"
 import StreakBoard from "@/components/streak-board"
+import { useTaskSync } from "@/hooks/use-task-sync"
 import { getAdjacentMonth, getMonthLabel, isSameMonth, toDateKey } from "@/lib/date"
 import { fetchHabitDashboardMonth, type HabitDashboardResult } from "@/lib/habit-dashboard"
 import { getCelebrated, setCelebrated } from "@/lib/storage"
-import { supabaseBrowser } from "@/lib/supabase"
 import { cn } from "@/lib/utils"
-import { signInWithGoogle } from "@/lib/auth"
 
 type DashboardShellProps = {
   initialData?: HabitDashboardResult | null
   initialUser?: User | null
 }
 
-export default function DashboardShell({ initialData = null, initialUser = null }: DashboardShellProps = {}) {
+export default function DashboardShell({ initialData = null, initialUser }: DashboardShellProps = {}) {
+  return (
+    <AuthProvider initialUser={initialUser}>
+      <DashboardShellContent initialData={initialData} />
+    </AuthProvider>
+  )
+}
+
+function DashboardShellContent({ initialData }: { initialData: HabitDashboardResult | null }) {
   const today = useMemo(() => {
     const base = new Date()
     return new Date(base.getFullYear(), base.getMonth(), base.getDate())
@@ -38,67 +46,26 @@ export default function DashboardShell({ initialData = null, initialUser = null
   const [view, setView] = useState(initialView)
   const { year, month } = view
 
-  const [user, setUser] = useState<User | null>(initialUser)
-  const [authReady, setAuthReady] = useState(Boolean(initialUser))
-  const [authError, setAuthError] = useState<string | null>(null)
+  const { user, ready: authReady, error: authError, signIn } = useSession()
 
   const [data, setData] = useState<HabitDashboardResult | null>(initialData)
-  const [loading, setLoading] = useState(!initialData && Boolean(initialUser))
+  const [loading, setLoading] = useState(!initialData && Boolean(user))
   const [error, setError] = useState<string | null>(null)
   const [celebrated, setCelebratedState] = useState(() => getCelebrated(initialView.year, initialView.month))
+  const skipInitialFetch = useRef(Boolean(initialData))
+  const userId = user?.id ?? null
 
   const monthLabel = useMemo(() => getMonthLabel(year, month), [year, month])
   const isCurrentMonth = useMemo(() => isSameMonth(today, year, month), [month, today, year])
 
-  useEffect(() => {
-    let cancelled = false
-    const supabase = supabaseBrowser()
-
-    const loadSession = async () => {
-      try {
-        const { data: sessionData, error: sessionError } = await supabase.auth.getSession()
-        if (cancelled) return
-        if (sessionError) throw sessionError
-        setUser(sessionData.session?.user ?? null)
-        setAuthError(null)
-      } catch (err) {
-        console.error("[habit-dashboard] failed to load session", err)
-        if (cancelled) return
-        setAuthError("認証状態の取得に失敗しました")
-        setUser(null)
-      } finally {
-        if (!cancelled) setAuthReady(true)
-      }
-    }
-
-    if (!initialUser) {
-      void loadSession()
-    } else {
-      setAuthReady(true)
-    }
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      if (cancelled) return
-      setUser(session?.user ?? null)
-      setAuthError(null)
-    })
-
-    return () => {
-      cancelled = true
-      subscription.unsubscribe()
-    }
-  }, [initialUser])
-
-  const refreshData = useCallback(async () => {
-    if (!user) {
+  const refreshData = useCallback(async (options?: { background?: boolean }) => {
+    if (!userId) {
       setData(null)
       setError(null)
       setLoading(false)
       return
     }
-    setLoading(true)
+    if (!options?.background) setLoading(true)
     try {
       const result = await fetchHabitDashboardMonth(year, month, { today })
       setData(result)
@@ -110,12 +77,23 @@ export default function DashboardShell({ initialData = null, initialUser = null
     } finally {
       setLoading(false)
     }
-  }, [month, today, user, year])
+  }, [month, today, userId, year])
 
   useEffect(() => {
-    if (!authReady || !user) return
+    if (!authReady || !userId) return
+    if (skipInitialFetch.current) {
+      skipInitialFetch.current = false
+      return
+    }
     void refreshData()
-  }, [authReady, refreshData, user])
+  }, [authReady, refreshData, userId])
+
+  useTaskSync(
+    useCallback(() => {
+      void refreshData({ background: true })
+    }, [refreshData]),
+    { enabled: !!user }
+  )
 
   useEffect(() => {
     if (!user) {
@@ -181,7 +159,7 @@ export default function DashboardShell({ initialData = null, initialUser = null
       return (
         <Card className="rounded-2xl border border-dashed border-border/60 bg-muted/20 p-8 text-center text-sm text-muted-foreground">
           <p className="mb-4">猫のダッシュボードを見るにはログインが必要です。</p>
-          <Button onClick={() => void signInWithGoogle()}>Googleでログイン</Button>
+          <Button onClick={() => void signIn()}>Googleでログイン</Button>
         </Card>
       )
     }
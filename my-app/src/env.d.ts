@@ -0,0 +1,10 @@
+/// <reference types="astro/client" />
+
+declare namespace App {
+  interface Locals {
+    /** The signed-in user resolved from the session cookies by the middleware. */
+    user: import('@supabase/supabase-js').User | null
+    /** Cookie-bound Supabase client for the current request (null on API and asset routes). */
+    supabase: import('@supabase/supabase-js').SupabaseClient<import('./lib/database.types').Database> | null
+  }
+}
@@ -0,0 +1,46 @@
+import * as React from "react"
+
+import { subscribeToTaskChanges, type TaskChange } from "@/lib/realtime-sync"
+
+const DEFAULT_DEBOUNCE_MS = 300
+
+/**
+ * Calls `onChange` with the changes collected since the last call whenever tasks
+ * or executions change in this tab, another tab or another device. Bursts are
+ * coalesced so a view refetches once per batch.
+ */
+export function useTaskSync(
+  onChange: (changes: TaskChange[]) => void,
+  options: { enabled?: boolean; debounceMs?: number } = {}
+) {
+  const { enabled = true, debounceMs = DEFAULT_DEBOUNCE_MS } = options
+  const callbackRef = React.useRef(onChange)
+
+  React.useEffect(() => {
+    callbackRef.current = onChange
+  }, [onChange])
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let pending: TaskChange[] = []
+    let timer: number | null = null
+
+    const flush = () => {
+      timer = null
+      const batch = pending
+      pending = []
+      if (batch.length) callbackRef.current(batch)
+    }
+
+    const unsubscribe = subscribeToTaskChanges((change) => {
+      pending.push(change)
+      if (timer === null) timer = window.setTimeout(flush, debounceMs)
+    })
+
+    return () => {
+      if (timer !== null) window.clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [enabled, debounceMs])
+}
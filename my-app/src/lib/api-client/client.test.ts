@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createApiClient, type ApiClient, type ApiClientOptions, type RetryInfo } from './client'
+import { ApiError, ApiHttpError, ApiNetworkError, ApiTimeoutError } from './errors'
+
+type Reply = Response | Error | 'hang'
+
+const TASK = { id: 'task-1', title: 'Run' }
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+}
+
+/** A fetch that answers with `replies` in order and records each request. */
+function fakeFetch(replies: Reply[]) {
+  const calls: { url: string; init: RequestInit }[] = []
+  const fetch = vi.fn((input: RequestInfo | URL, init: RequestInit = {}) => {
+    calls.push({ url: String(input), init })
+    const reply = replies.shift()
+    if (!reply) throw new Error('unexpected request')
+    if (reply === 'hang') {
+      return new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      })
+    }
+    return reply instanceof Error ? Promise.reject(reply) : Promise.resolve(reply)
+  })
+  return { fetch: fetch as unknown as typeof globalThis.fetch, calls }
+}
+
+function setup(replies: Reply[], options: Partial<ApiClientOptions> = {}) {
+  const { fetch, calls } = fakeFetch(replies)
+  const retries: RetryInfo[] = []
+  const client = createApiClient({
+    baseUrl: 'https://taskworks.test',
+    token: 'tw_pat_secret',
+    retryDelayMs: 100,
+    fetch,
+    onRetry: (info) => retries.push(info),
+    ...options,
+  })
+  return { client, calls, retries }
+}
+
+/** Runs the request to completion, letting timers (backoff, timeouts) fire instantly. */
+async function settle<T>(promise: Promise<T>): Promise<PromiseSettledResult<T>> {
+  const result = Promise.allSettled([promise]).then(([settled]) => settled)
+  await vi.runAllTimersAsync()
+  return result
+}
+
+function rejection(result: PromiseSettledResult<unknown>): unknown {
+  if (result.status !== 'rejected') throw new Error('expected the request to fail')
+  return result.reason
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createApiClient retries', () => {
+  it('retries GET on 5xx and network errors with exponential backoff', async () => {
+    const { client, calls, retries } = setup([
+      json({ error: 'Unavailable' }, 503),
+      new TypeError('Failed to fetch'),
+      json({ task: TASK }),
+    ])
+
+    const result = await settle(client.getTask('task-1'))
+
+    expect(result).toEqual({ status: 'fulfilled', value: TASK })
+    expect(calls).toHaveLength(3)
+    expect(retries.map((info) => [info.method, info.attempt, info.delayMs])).toEqual([
+      ['GET', 1, 100],
+      ['GET', 2, 200],
+    ])
+  })
+
+  it('retries DELETE', async () => {
+    const { client, calls } = setup([json({ error: 'Bad gateway' }, 502), new Response(null, { status: 204 })])
+
+    expect((await settle(client.deleteTask('task-1'))).status).toBe('fulfilled')
+    expect(calls.map((call) => call.init.method)).toEqual(['DELETE', 'DELETE'])
+  })
+
+  it('gives up after the configured number of retries', async () => {
+    const { client, calls } = setup(
+      [json({ error: 'Unavailable' }, 503), json({ error: 'Unavailable' }, 503)],
+      { retries: 1 },
+    )
+
+    const error = rejection(await settle(client.getTask('task-1')))
+
+    expect(error).toBeInstanceOf(ApiHttpError)
+    expect(calls).toHaveLength(2)
+  })
+
+  it.each<[string, (client: ApiClient) => Promise<unknown>]>([
+    ['POST', (client) => client.recordExecution('task-1', { qty: 1 })],
+    ['PATCH', (client) => client.updateExecution('exec-1', { qty: 2 })],
+    ['PATCH', (client) => client.updateTask('task-1', { title: 'Walk' })],
+  ])('does not retry %s', async (method, send) => {
+    const { client, calls, retries } = setup([json({ error: 'Unavailable' }, 503)])
+
+    const error = rejection(await settle(send(client)))
+
+    expect(error).toBeInstanceOf(ApiHttpError)
+    expect(calls.map((call) => call.init.method)).toEqual([method])
+    expect(retries).toEqual([])
+  })
+
+  it('does not retry client errors', async () => {
+    const { client, calls } = setup([json({ error: 'Task not found' }, 404)])
+
+    expect(rejection(await settle(client.getTask('task-1')))).toMatchObject({ status: 404 })
+    expect(calls).toHaveLength(1)
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    const { client, retries } = setup([
+      json({ error: 'Too many requests' }, 429, { 'Retry-After': '2' }),
+      json({ task: TASK }),
+    ])
+
+    await settle(client.getTask('task-1'))
+
+    expect(retries.map((info) => info.delayMs)).toEqual([2000])
+  })
+
+  it('accepts Retry-After as an HTTP date', async () => {
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    const { client, retries } = setup([
+      json({ error: 'Too many requests' }, 429, { 'Retry-After': 'Wed, 01 Jan 2025 00:00:05 GMT' }),
+      json({ task: TASK }),
+    ])
+
+    await settle(client.getTask('task-1'))
+
+    expect(retries.map((info) => info.delayMs)).toEqual([5000])
+  })
+
+  it('caps the delay at 30 seconds', async () => {
+    const { client, retries } = setup(
+      [
+        json({ error: 'Too many requests' }, 429, { 'Retry-After': '3600' }),
+        json({ error: 'Unavailable' }, 503),
+        json({ task: TASK }),
+      ],
+      { retryDelayMs: 20_000 },
+    )
+
+    const started = Date.now()
+    await settle(client.getTask('task-1'))
+
+    expect(retries.map((info) => info.delayMs)).toEqual([30_000, 30_000])
+    expect(Date.now() - started).toBe(60_000)
+  })
+})
+
+describe('createApiClient errors', () => {
+  it('maps an error body to ApiHttpError', async () => {
+    const { client } = setup([json({ error: 'Invalid task input', details: ['title is required'] }, 400)])
+
+    const error = rejection(await settle(client.createTask({ title: '' })))
+
+    expect(error).toBeInstanceOf(ApiHttpError)
+    expect(error).toMatchObject({
+      status: 400,
+      message: 'Invalid task input',
+      details: ['title is required'],
+      retryAfterMs: null,
+    })
+  })
+
+  it('keeps the status as the message when the body is not JSON', async () => {
+    const { client } = setup([new Response('<html>Bad gateway</html>', { status: 502 })], { retries: 0 })
+
+    const error = rejection(await settle(client.getTask('task-1')))
+
+    expect(error).toMatchObject({ status: 502, message: 'HTTP 502', responseText: '<html>Bad gateway</html>' })
+  })
+
+  it('maps a failed fetch to ApiNetworkError', async () => {
+    const { client } = setup([new TypeError('Failed to fetch')], { retries: 0 })
+
+    const error = rejection(await settle(client.getTask('task-1')))
+
+    expect(error).toBeInstanceOf(ApiNetworkError)
+    expect(error).not.toBeInstanceOf(ApiTimeoutError)
+  })
+
+  it('maps a request without a response in time to ApiTimeoutError', async () => {
+    const { client } = setup(['hang'], { retries: 0, timeoutMs: 1000 })
+
+    const error = rejection(await settle(client.getTask('task-1')))
+
+    expect(error).toBeInstanceOf(ApiTimeoutError)
+    expect(error).toMatchObject({ timeoutMs: 1000 })
+  })
+
+  it('rejects a success response that is not JSON with ApiError', async () => {
+    const { client } = setup([new Response('ok', { status: 200 })])
+
+    const error = rejection(await settle(client.getTask('task-1')))
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).not.toBeInstanceOf(ApiHttpError)
+  })
+})
+
+describe('createApiClient requests', () => {
+  it('sends the token and revalidates windows with an ETag', async () => {
+    const { client, calls } = setup([new Response(null, { status: 304 })])
+
+    const result = await settle(client.getWindows({ from: '2025-01-01', days: 2, timeZone: 'Asia/Tokyo' }, '"abc"'))
+
+    expect(result).toEqual({ status: 'fulfilled', value: { notModified: true, windows: null, etag: '"abc"' } })
+    expect(calls[0].url).toBe('https://taskworks.test/api/v1/blocks/windows?from=2025-01-01&days=2&tz=Asia%2FTokyo')
+    expect(calls[0].init.headers).toMatchObject({ Authorization: 'Bearer tw_pat_secret', 'If-None-Match': '"abc"' })
+  })
+})
@@ -0,0 +1,315 @@
+// Typed client for the /api/v1 routes. Authenticates with an API token, or
+// with the session cookie when no token is given (pages on the same origin).
+// GET and DELETE requests are retried with exponential backoff on network
+// errors, timeouts, 429 and 5xx responses.
+import type { BlockingWindowPayload } from '../block-windows'
+import type { ExecutionResource, TaskCreateBody, TaskResource, TaskUpdateBody } from '../task-api'
+import { buildApiEndpoint, buildAuthorizationHeader } from './endpoints.js'
+import { ApiError, ApiHttpError, ApiNetworkError, ApiTimeoutError, isRetryableError } from './errors'
+
+const DEFAULT_RETRIES = 2
+const DEFAULT_RETRY_DELAY_MS = 500
+const MAX_RETRY_DELAY_MS = 30_000
+const DEFAULT_TIMEOUT_MS = 10_000
+/**
+ * Repeating these is harmless. A POST or PATCH may have been applied before the
+ * connection failed, and sending it again would e.g. record an execution twice.
+ */
+const RETRYABLE_METHODS = new Set(['GET', 'DELETE'])
+
+export type ApiClientOptions = {
+  /** Site origin, ".../api", ".../api/v1" or the windows endpoint itself. */
+  baseUrl: string
+  /** API token, with or without the "Bearer " prefix. */
+  token?: string | null
+  /** Extra attempts after the first one; 0 disables retries. */
+  retries?: number
+  /** Delay before the first retry; doubles on every further attempt. */
+  retryDelayMs?: number
+  timeoutMs?: number
+  fetch?: typeof fetch
+  onRetry?: (info: RetryInfo) => void
+}
+
+export type RetryInfo = {
+  method: string
+  url: string
+  /** 1 for the first retry. */
+  attempt: number
+  delayMs: number
+  error: ApiError
+}
+
+export type WindowsQuery = {
+  /** First day (YYYY-MM-DD in `timeZone`); the server defaults to today. */
+  from?: string
+  /** Last day, inclusive; alternative to `days`. */
+  to?: string
+  days?: number
+  timeZone?: string
+  focusOnly?: boolean
+  /** Merge overlapping windows into one. */
+  merge?: boolean
+}
+
+export type WindowsResult =
+  | { notModified: false; windows: BlockingWindowPayload[]; etag: string | null }
+  | { notModified: true; windows: null; etag: string }
+
+export type BlockingWindowsDebugMeta = {
+  dateIso: string
+  endDateIso: string
+  timeZone: string
+  focusOnly: boolean
+  mergeOverlaps: boolean
+  taskCount: number
+  completedTaskCount: number
+  completedCounts: Record<string, number>
+  completedCountsByDate: Record<string, Record<string, number>>
+  windowCount: number
+}
+
+export type ExecutionsQuery = {
+  /** YYYY-MM-DD (inclusive, in `timeZone`) or an ISO timestamp. */
+  from?: string
+  to?: string
+  timeZone?: string
+  limit?: number
+}
+
+/** Body of POST /tasks/:id/executions and PATCH /executions/:id. */
+export type ExecutionBody = {
+  happened_at?: string
+  qty?: number
+  note?: string | null
+  source?: string
+}
+
+type RequestOptions = {
+  method?: string
+  query?: URLSearchParams
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
+
+export function buildWindowsQuery(query: WindowsQuery = {}): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.from) params.set('from', query.from)
+  if (query.to) params.set('to', query.to)
+  if (query.days !== undefined) params.set('days', String(query.days))
+  if (query.timeZone) params.set('tz', query.timeZone)
+  if (query.focusOnly !== undefined) params.set('focus_only', String(query.focusOnly))
+  if (query.merge !== undefined) params.set('merge', String(query.merge))
+  return params
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0)
+}
+
+async function toHttpError(response: Response): Promise<ApiHttpError> {
+  const responseText = await response.text().catch(() => '')
+  let message = `HTTP ${response.status}`
+  let details: string[] = []
+  try {
+    const body = JSON.parse(responseText) as { error?: unknown; details?: unknown }
+    if (typeof body.error === 'string') message = body.error
+    if (Array.isArray(body.details)) details = body.details.filter((item): item is string => typeof item === 'string')
+  } catch {
+    // Not JSON (e.g. a proxy error page); keep the status as the message.
+  }
+  return new ApiHttpError({
+    status: response.status,
+    message,
+    details,
+    responseText,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  })
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  try {
+    return (await response.json()) as T
+  } catch (error) {
+    throw new ApiError('Response body is not valid JSON', { cause: error })
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export function createApiClient(options: ApiClientOptions) {
+  const retries = Math.max(options.retries ?? DEFAULT_RETRIES, 0)
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const authorization = buildAuthorizationHeader(options.token)
+
+  function url(path: string, query?: URLSearchParams): string {
+    const endpoint = buildApiEndpoint(options.baseUrl, path)
+    if (!endpoint) throw new ApiError('API base URL is empty')
+    const search = query?.toString()
+    return search ? `${endpoint}?${search}` : endpoint
+  }
+
+  async function fetchOnce(target: string, init: RequestInit): Promise<Response> {
+    const fetchImpl = options.fetch ?? globalThis.fetch
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+    try {
+      return await fetchImpl(target, { ...init, signal: controller.signal })
+    } catch (error) {
+      if (timedOut) throw new ApiTimeoutError(timeoutMs)
+      throw new ApiNetworkError(error instanceof Error ? error.message : 'Network request failed', { cause: error })
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /** Resolves with 2xx and 304 responses; everything else becomes an ApiError. */
+  async function send(path: string, { method = 'GET', query, body, headers = {} }: RequestOptions = {}) {
+    const target = url(path, query)
+    const init: RequestInit = {
+      method,
+      credentials: 'include',
+      headers: {
+        Accept: 'application/json',
+        ...(authorization ? { Authorization: authorization } : {}),
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    }
+
+    for (let attempt = 0; ; attempt += 1) {
+      let error: ApiError
+      try {
+        const response = await fetchOnce(target, init)
+        if (response.ok || response.status === 304) return response
+        error = await toHttpError(response)
+      } catch (caught) {
+        if (!(caught instanceof ApiError)) throw caught
+        error = caught
+      }
+      if (attempt >= retries || !RETRYABLE_METHODS.has(method) || !isRetryableError(error)) throw error
+
+      const backoff = retryDelayMs * 2 ** attempt
+      const retryAfter = error instanceof ApiHttpError ? error.retryAfterMs : null
+      const delayMs = Math.min(retryAfter ?? backoff, MAX_RETRY_DELAY_MS)
+      options.onRetry?.({ method, url: target, attempt: attempt + 1, delayMs, error })
+      await sleep(delayMs)
+    }
+  }
+
+  async function requestJson<T>(path: string, requestOptions?: RequestOptions): Promise<T> {
+    return readJson<T>(await send(path, requestOptions))
+  }
+
+  const taskPath = (id: string) => `/tasks/${encodeURIComponent(id)}`
+
+  return {
+    /** Full URL of a windows request, e.g. for showing it next to a cURL command. */
+    windowsUrl(query?: WindowsQuery): string {
+      return url('/blocks/windows', buildWindowsQuery(query))
+    },
+
+    /**
+     * Blocking windows. Pass the ETag of a previous result to revalidate; an
+     * unchanged schedule comes back as `notModified` without a body.
+     */
+    async getWindows(query?: WindowsQuery, etag?: string | null): Promise<WindowsResult> {
+      const response = await send('/blocks/windows', {
+        query: buildWindowsQuery(query),
+        headers: etag ? { 'If-None-Match': etag } : {},
+      })
+      if (response.status === 304 && etag) {
+        return { notModified: true, windows: null, etag }
+      }
+      const payload = await readJson<unknown>(response)
+      if (!Array.isArray(payload)) throw new ApiError('Expected an array of blocking windows')
+      return { notModified: false, windows: payload as BlockingWindowPayload[], etag: response.headers.get('ETag') }
+    },
+
+    /** Windows with the server's debug metadata (task and completion counts); never cached. */
+    async getWindowsDebug(query?: WindowsQuery) {
+      const params = buildWindowsQuery(query)
+      params.set('debug', 'true')
+      const payload = await requestJson<{ windows?: unknown; meta?: BlockingWindowsDebugMeta }>('/blocks/windows', {
+        query: params,
+      })
+      if (!Array.isArray(payload.windows) || !payload.meta) {
+        throw new ApiError('Expected blocking windows with debug metadata')
+      }
+      return { windows: payload.windows as BlockingWindowPayload[], meta: payload.meta }
+    },
+
+    async listTasks(query: { active?: boolean } = {}): Promise<TaskResource[]> {
+      const params = new URLSearchParams()
+      if (query.active !== undefined) params.set('active', String(query.active))
+      const { tasks } = await requestJson<{ tasks: TaskResource[] }>('/tasks', { query: params })
+      return tasks
+    },
+
+    async getTask(id: string): Promise<TaskResource> {
+      const { task } = await requestJson<{ task: TaskResource }>(taskPath(id))
+      return task
+    },
+
+    async createTask(input: TaskCreateBody): Promise<TaskResource> {
+      const { task } = await requestJson<{ task: TaskResource }>('/tasks', { method: 'POST', body: input })
+      return task
+    },
+
+    async updateTask(id: string, input: TaskUpdateBody): Promise<TaskResource> {
+      const { task } = await requestJson<{ task: TaskResource }>(taskPath(id), { method: 'PATCH', body: input })
+      return task
+    },
+
+    async deleteTask(id: string): Promise<void> {
+      await send(taskPath(id), { method: 'DELETE' })
+    },
+
+    /** Executions of a task, newest first. */
+    async listExecutions(taskId: string, query: ExecutionsQuery = {}): Promise<ExecutionResource[]> {
+      const params = new URLSearchParams()
+      if (query.from) params.set('from', query.from)
+      if (query.to) params.set('to', query.to)
+      if (query.timeZone) params.set('tz', query.timeZone)
+      if (query.limit !== undefined) params.set('limit', String(query.limit))
+      const { executions } = await requestJson<{ executions: ExecutionResource[] }>(
+        `${taskPath(taskId)}/executions`,
+        { query: params },
+      )
+      return executions
+    },
+
+    /** Not retried: a POST that reached the server before failing would log the execution twice. */
+    async recordExecution(taskId: string, body: ExecutionBody = {}): Promise<ExecutionResource> {
+      const { execution } = await requestJson<{ execution: ExecutionResource }>(`${taskPath(taskId)}/executions`, {
+        method: 'POST',
+        body,
+      })
+      return execution
+    },
+
+    async updateExecution(id: string, body: Omit<ExecutionBody, 'source'>): Promise<ExecutionResource> {
+      const { execution } = await requestJson<{ execution: ExecutionResource }>(
+        `/executions/${encodeURIComponent(id)}`,
+        { method: 'PATCH', body },
+      )
+      return execution
+    },
+
+    async deleteExecution(id: string): Promise<void> {
+      await send(`/executions/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    },
+  }
+}
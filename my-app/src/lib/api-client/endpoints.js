@@ -0,0 +1,47 @@
+// URL and auth helpers shared by the TypeScript client and the userscript.
+// Plain JavaScript without imports: userscript.server.ts inlines this file into
+// url-block.js, so keep it to standalone function declarations.
+
+/**
+ * Resolves `path` (e.g. "/blocks/windows") against a base URL that may be the
+ * site origin, ".../api", ".../api/v1" or the full windows endpoint.
+ * @param {string} base
+ * @param {string} path
+ * @returns {string} an empty string when the base is blank
+ */
+export function buildApiEndpoint(base, path) {
+  const normalized = base.replace(/\s+/g, '').replace(/\/+$/, '')
+  if (!normalized) return ''
+  let root
+  if (/\/v1\/blocks\/windows$/i.test(normalized)) {
+    root = normalized.replace(/\/blocks\/windows$/i, '')
+  } else if (/\/api\/v1$/i.test(normalized)) {
+    root = normalized
+  } else if (/\/api$/i.test(normalized)) {
+    root = `${normalized}/v1`
+  } else {
+    root = `${normalized}/api/v1`
+  }
+  return `${root}/${path.replace(/^\/+/, '')}`
+}
+
+/**
+ * @param {string} base
+ * @returns {string}
+ */
+export function buildWindowsEndpoint(base) {
+  return buildApiEndpoint(base, '/blocks/windows')
+}
+
+/**
+ * Accepts a bare token or one already prefixed with "Bearer".
+ * @param {unknown} token
+ * @returns {string} an empty string when there is no token
+ */
+export function buildAuthorizationHeader(token) {
+  if (typeof token !== 'string') return ''
+  const trimmed = token.trim()
+  if (!trimmed) return ''
+  if (/^bearer\s+/i.test(trimmed)) return trimmed
+  return `Bearer ${trimmed}`
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildApiEndpoint, buildAuthorizationHeader, buildWindowsEndpoint } from './endpoints.js'
+
+describe('buildApiEndpoint', () => {
+  it.each([
+    ['https://taskworks.test', 'https://taskworks.test/api/v1/tasks'],
+    ['https://taskworks.test/', 'https://taskworks.test/api/v1/tasks'],
+    ['https://taskworks.test/api', 'https://taskworks.test/api/v1/tasks'],
+    ['https://taskworks.test/api/', 'https://taskworks.test/api/v1/tasks'],
+    ['https://taskworks.test/api/v1', 'https://taskworks.test/api/v1/tasks'],
+    ['https://taskworks.test/api/v1/blocks/windows', 'https://taskworks.test/api/v1/tasks'],
+    ['https://taskworks.test/app/api/v1/blocks/windows/', 'https://taskworks.test/app/api/v1/tasks'],
+    [' https://taskworks.test ', 'https://taskworks.test/api/v1/tasks'],
+  ])('resolves %j', (base, expected) => {
+    expect(buildApiEndpoint(base, '/tasks')).toBe(expected)
+  })
+
+  it('accepts a path without a leading slash', () => {
+    expect(buildApiEndpoint('https://taskworks.test/api', 'blocks/status')).toBe(
+      'https://taskworks.test/api/v1/blocks/status',
+    )
+  })
+
+  it('returns an empty string for a blank base', () => {
+    expect(buildApiEndpoint('  ', '/tasks')).toBe('')
+  })
+})
+
+describe('buildWindowsEndpoint', () => {
+  it.each([
+    'https://taskworks.test',
+    'https://taskworks.test/api',
+    'https://taskworks.test/api/v1',
+    'https://taskworks.test/api/v1/blocks/windows',
+  ])('resolves %j to the windows endpoint', (base) => {
+    expect(buildWindowsEndpoint(base)).toBe('https://taskworks.test/api/v1/blocks/windows')
+  })
+})
+
+describe('buildAuthorizationHeader', () => {
+  it('adds the Bearer prefix once', () => {
+    expect(buildAuthorizationHeader(' tw_pat_secret ')).toBe('Bearer tw_pat_secret')
+    expect(buildAuthorizationHeader('bearer tw_pat_secret')).toBe('bearer tw_pat_secret')
+  })
+
+  it('returns an empty string without a token', () => {
+    expect(buildAuthorizationHeader('')).toBe('')
+    expect(buildAuthorizationHeader(null)).toBe('')
+  })
+})
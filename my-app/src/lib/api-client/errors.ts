@@ -0,0 +1,57 @@
+// Errors thrown by the API client. Everything extends ApiError, so callers can
+// catch one class and narrow with instanceof when they care about the cause.
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504])
+
+export class ApiError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'ApiError'
+  }
+}
+
+/** The server answered with a non-2xx status. */
+export class ApiHttpError extends ApiError {
+  readonly status: number
+  /** Validation messages from a 400 response (`details` in the error body). */
+  readonly details: string[]
+  /** Raw response body, kept for logging. */
+  readonly responseText: string
+  /** Parsed Retry-After header, if the server sent one. */
+  readonly retryAfterMs: number | null
+
+  constructor(init: { status: number; message: string; details?: string[]; responseText?: string; retryAfterMs?: number | null }) {
+    super(init.message)
+    this.name = 'ApiHttpError'
+    this.status = init.status
+    this.details = init.details ?? []
+    this.responseText = init.responseText ?? ''
+    this.retryAfterMs = init.retryAfterMs ?? null
+  }
+}
+
+/** The request never got a response (offline, DNS, CORS, aborted). */
+export class ApiNetworkError extends ApiError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'ApiNetworkError'
+  }
+}
+
+/** No response within the client's timeout. */
+export class ApiTimeoutError extends ApiNetworkError {
+  readonly timeoutMs: number
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`)
+    this.name = 'ApiTimeoutError'
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/** Whether sending the same request again may succeed. */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ApiNetworkError) return true
+  if (error instanceof ApiHttpError) return RETRYABLE_STATUSES.has(error.status)
+  return false
+}
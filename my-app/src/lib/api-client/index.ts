@@ -0,0 +1,18 @@
+// Client SDK for the TaskWorks /api/v1 routes, shared by the API tester, the
+// userscript build (endpoints.js) and external integrations.
+export { buildApiEndpoint, buildAuthorizationHeader, buildWindowsEndpoint } from './endpoints.js'
+export {
+  buildWindowsQuery,
+  createApiClient,
+  type ApiClient,
+  type ApiClientOptions,
+  type BlockingWindowsDebugMeta,
+  type ExecutionBody,
+  type ExecutionsQuery,
+  type RetryInfo,
+  type WindowsQuery,
+  type WindowsResult,
+} from './client'
+export { ApiError, ApiHttpError, ApiNetworkError, ApiTimeoutError, isRetryableError } from './errors'
+export type { BlockingWindowPayload } from '../block-windows'
+export type { ExecutionResource, TaskCreateBody, TaskResource, TaskUpdateBody } from '../task-api'
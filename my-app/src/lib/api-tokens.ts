@@ -0,0 +1,156 @@
+// src/lib/api-tokens.ts
+// Personal access tokens for the userscript and calendar feeds. Tokens are
+// generated in the browser and only their SHA-256 hash is stored.
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import type { Database } from "./database.types"
+import { supabaseBrowser } from "./supabase"
+
+/** Every personal access token starts with this, so the API can tell them from Supabase JWTs. */
+export const API_TOKEN_PREFIX = "tw_pat_"
+
+const TOKEN_BYTES = 32
+/** Characters kept in clear text so users can recognise a token in the list. */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6
+
+export const API_TOKEN_SCOPES = [
+  "blocks:read",
+  "blocks:snooze",
+  "blocks:events",
+  "calendar:read",
+  "tasks:read",
+  "tasks:write",
+] as const
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number]
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  "blocks:read": "ブロック時間帯の取得",
+  "blocks:snooze": "ブロックの一時解除",
+  "blocks:events": "ブロック記録の送信",
+  "calendar:read": "カレンダーフィードの購読",
+  "tasks:read": "タスクと実行記録の取得",
+  "tasks:write": "タスクと実行記録の編集",
+}
+
+export type ApiToken = {
+  id: string
+  label: string
+  tokenPrefix: string
+  scopes: ApiTokenScope[]
+  createdAt: string
+  lastUsedAt: string | null
+  expiresAt: string | null
+  revokedAt: string | null
+}
+
+export type CreatedApiToken = {
+  token: ApiToken
+  /** The plaintext token. It cannot be retrieved again after creation. */
+  secret: string
+}
+
+type ApiTokenRow = Omit<Database["public"]["Tables"]["api_tokens"]["Row"], "token_hash" | "user_id">
+
+const API_TOKEN_COLUMNS = "id, label, token_prefix, scopes, created_at, last_used_at, expires_at, revoked_at"
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === "string" && (API_TOKEN_SCOPES as readonly string[]).includes(value)
+}
+
+/**
+ * Subscription URL of the iCalendar feed. Calendar apps cannot send headers,
+ * so the token (with `calendar:read`) travels in the query string.
+ */
+export function calendarFeedUrl(siteUrl: string, apiToken: string, timeZone: string): string {
+  const params = new URLSearchParams({ token: apiToken, tz: timeZone })
+  return `${siteUrl.replace(/\/+$/, "")}/api/v1/calendar.ics?${params}`
+}
+
+export function isPersonalAccessToken(value: string | null | undefined): value is string {
+  return typeof value === "string" && value.startsWith(API_TOKEN_PREFIX)
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+/** Hex SHA-256 of the token, as stored in `api_tokens.token_hash`. Works in browsers and Workers. */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+function generateSecret(): string {
+  const bytes = new Uint8Array(TOKEN_BYTES)
+  crypto.getRandomValues(bytes)
+  return `${API_TOKEN_PREFIX}${toBase64Url(bytes)}`
+}
+
+function mapApiTokenRow(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    label: row.label,
+    tokenPrefix: row.token_prefix,
+    scopes: row.scopes.filter(isApiTokenScope),
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+  }
+}
+
+export async function listApiTokens(client?: SupabaseClient<Database>): Promise<ApiToken[]> {
+  const supabase = client ?? supabaseBrowser()
+  const { data, error } = await supabase
+    .from("api_tokens")
+    .select(API_TOKEN_COLUMNS)
+    .order("created_at", { ascending: false })
+  if (error) throw error
+  return ((data ?? []) as ApiTokenRow[]).map(mapApiTokenRow)
+}
+
+export async function createApiToken(
+  input: { label: string; scopes: ApiTokenScope[]; expiresAt?: string | null },
+  client?: SupabaseClient<Database>
+): Promise<CreatedApiToken> {
+  const label = input.label.trim()
+  if (!label) throw new Error("label is required")
+  if (!input.scopes.length) throw new Error("at least one scope is required")
+
+  const supabase = client ?? supabaseBrowser()
+  const secret = generateSecret()
+  const { data, error } = await supabase
+    .from("api_tokens")
+    .insert({
+      label,
+      scopes: input.scopes,
+      token_prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+      token_hash: await hashApiToken(secret),
+      expires_at: input.expiresAt ?? null,
+    })
+    .select(API_TOKEN_COLUMNS)
+    .single()
+  if (error) throw error
+  return { token: mapApiTokenRow(data as ApiTokenRow), secret }
+}
+
+export async function renameApiToken(id: string, label: string, client?: SupabaseClient<Database>) {
+  const trimmed = label.trim()
+  if (!trimmed) throw new Error("label is required")
+  const supabase = client ?? supabaseBrowser()
+  const { error } = await supabase.from("api_tokens").update({ label: trimmed }).eq("id", id)
+  if (error) throw error
+}
+
+/**
+ * Revoked tokens stay listed (with their last use) but are rejected by the API.
+ * Revocation goes through an RPC because revoked_at cannot be updated directly.
+ */
+export async function revokeApiToken(id: string, client?: SupabaseClient<Database>) {
+  const supabase = client ?? supabaseBrowser()
+  const { error } = await supabase.rpc("revoke_api_token", { p_token_id: id })
+  if (error) throw error
+}
@@ -0,0 +1,117 @@
+// Browser-wide auth session store. Astro islands are separate React roots, so the
+// session lives at module level and every AuthProvider reads the same snapshot.
+import type { User } from "@supabase/supabase-js"
+
+import { AUTH_RESULT_STORAGE_KEY, signInWithEmail, signInWithOAuth, type OAuthProvider } from "./auth"
+import { supabaseBrowser } from "./supabase"
+
+export type SessionSnapshot = {
+  user: User | null
+  ready: boolean
+  error: string | null
+}
+
+const SESSION_ERROR_MESSAGE = "認証状態の取得に失敗しました"
+const SESSION_MISSING_MESSAGE =
+  "ブラウザがログイン情報を保存できませんでした。別のブラウザやストレージ設定をお確かめください。"
+const SIGN_IN_ERROR_MESSAGE = "ログインの開始に失敗しました。時間をおいて再試行してください。"
+const MAGIC_LINK_ERROR_MESSAGE = "ログインリンクの送信に失敗しました。メールアドレスを確認して再試行してください。"
+
+let snapshot: SessionSnapshot = { user: null, ready: false, error: null }
+let started = false
+const listeners = new Set<() => void>()
+
+function update(next: Partial<SessionSnapshot>) {
+  const user = next.user === undefined ? snapshot.user : next.user
+  // Token refreshes hand out a new User object; keep the old one so effects keyed on it stay put.
+  const stableUser =
+    user && snapshot.user && user.id === snapshot.user.id && user.updated_at === snapshot.user.updated_at
+      ? snapshot.user
+      : user
+  snapshot = { ...snapshot, ...next, user: stableUser }
+  for (const listener of listeners) listener()
+}
+
+/** Picks up errors reported by the OAuth callback (query parameter or sessionStorage flag). */
+function consumeAuthResult(): string | null {
+  const url = new URL(window.location.href)
+  const authErrorParam = url.searchParams.get("auth_error")
+  if (authErrorParam) {
+    url.searchParams.delete("auth_error")
+    window.history.replaceState({}, "", `${url.pathname}${url.search}${url.hash}`)
+  }
+
+  try {
+    const result = window.sessionStorage.getItem(AUTH_RESULT_STORAGE_KEY)
+    window.sessionStorage.removeItem(AUTH_RESULT_STORAGE_KEY)
+    if (!authErrorParam && result === "session_missing") return SESSION_MISSING_MESSAGE
+  } catch (err) {
+    console.warn("Failed to read auth result state.", err)
+  }
+  return authErrorParam
+}
+
+function start() {
+  if (started || typeof window === "undefined") return
+  started = true
+
+  const authResultError = consumeAuthResult()
+  if (authResultError) update({ error: authResultError })
+
+  const supabase = supabaseBrowser()
+  supabase.auth
+    .getSession()
+    .then(({ data, error }) => {
+      if (error) throw error
+      update({ user: data.session?.user ?? null, ready: true })
+    })
+    .catch((err) => {
+      console.error("Failed to load auth session", err)
+      update({ ready: true, error: SESSION_ERROR_MESSAGE })
+    })
+
+  supabase.auth.onAuthStateChange((_event, session) => {
+    update({ user: session?.user ?? null, ready: true, error: null })
+  })
+}
+
+export function getSessionSnapshot(): SessionSnapshot {
+  return snapshot
+}
+
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener)
+  start()
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** Adopts the user resolved on the server so the first client render matches it. */
+export function seedSession(user: User | null) {
+  if (typeof window === "undefined" || snapshot.ready) return
+  snapshot = { ...snapshot, user, ready: true }
+}
+
+export async function signIn(redirectPath?: string, provider: OAuthProvider = "google") {
+  update({ error: null })
+  try {
+    await signInWithOAuth(provider, redirectPath)
+  } catch (err) {
+    console.error("Failed to initiate sign-in", err)
+    update({ error: SIGN_IN_ERROR_MESSAGE })
+  }
+}
+
+/** Sends an email magic link; resolves to false (and sets `error`) when sending failed. */
+export async function sendMagicLink(email: string, redirectPath?: string): Promise<boolean> {
+  update({ error: null })
+  try {
+    await signInWithEmail(email, redirectPath)
+    return true
+  } catch (err) {
+    console.error("Failed to send magic link", err)
+    update({ error: MAGIC_LINK_ERROR_MESSAGE })
+    return false
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+
+import { resolveRedirectPath } from "./auth"
+
+const ORIGIN = "https://taskworks.example"
+
+describe("resolveRedirectPath", () => {
+  it("keeps same-origin paths with their query and hash", () => {
+    expect(resolveRedirectPath("/tasks/1?tab=log#today", ORIGIN)).toBe("/tasks/1?tab=log#today")
+  })
+
+  it.each([
+    ["a missing target", null],
+    ["another origin", "https://evil.example/"],
+    ["a protocol-relative URL", "//evil.example"],
+    ["a backslash that browsers read as //", "/\\evil.example"],
+    ["a javascript: URL", "javascript:alert(1)"],
+    ["the login page", "/login?redirect=/"],
+  ])("falls back to the dashboard for %s", (_label, requested) => {
+    expect(resolveRedirectPath(requested, ORIGIN)).toBe("/")
+  })
+})
@@ -1,8 +1,37 @@
 // src/lib/auth.ts
+import type { UserIdentity } from "@supabase/supabase-js";
+
+import { clearOfflineCache } from "./offline-cache";
 import { supabaseBrowser } from "./supabase";
 
 export const REDIRECT_URL_STORAGE_KEY = "auth:redirect_url";
 export const AUTH_RESULT_STORAGE_KEY = "auth:result";
+/** Query parameter carrying the return path on magic links, which may open in another tab. */
+export const REDIRECT_QUERY_PARAM = "next";
+
+export type OAuthProvider = "google" | "github";
+
+export const OAUTH_PROVIDER_LABELS: Record<OAuthProvider, string> = {
+  google: "Google",
+  github: "GitHub",
+};
+
+/**
+ * Returns the path to continue to after signing in, or "/" unless `requested`
+ * resolves to a page on `origin` other than the login page. Resolving it as a
+ * URL catches targets browsers treat as protocol-relative, such as `/\evil.com`.
+ */
+export function resolveRedirectPath(requested: string | null | undefined, origin: string): string {
+  if (!requested) return "/";
+
+  try {
+    const target = new URL(requested, origin);
+    if (target.origin !== origin || target.pathname.startsWith("/login")) return "/";
+    return `${target.pathname}${target.search}${target.hash}`;
+  } catch {
+    return "/";
+  }
+}
 
 function persistRedirectPath(pathname: string) {
   if (typeof window === "undefined") return;
@@ -14,25 +43,87 @@ function persistRedirectPath(pathname: string) {
   }
 }
 
-export async function signInWithGoogle() {
+function callbackUrl(): string {
+  const origin = typeof window !== "undefined" ? window.location.origin : "";
+  return `${origin}/auth/callback`;
+}
+
+/** Starts OAuth sign-in; the callback returns to `redirectPath` (default: the current page). */
+export async function signInWithOAuth(provider: OAuthProvider, redirectPath?: string) {
   if (typeof window !== "undefined") {
-    persistRedirectPath(window.location.pathname);
+    persistRedirectPath(redirectPath ?? window.location.pathname);
   }
 
   const supabase = supabaseBrowser();
-  const origin = typeof window !== "undefined" ? window.location.origin : "";
-  const redirectTo = `${origin}/auth/callback`;
   const { error } = await supabase.auth.signInWithOAuth({
-    provider: "google",
-    options: { redirectTo },
+    provider,
+    options: { redirectTo: callbackUrl() },
   });
   if (error) throw error;
-  // The browser will be redirected to Google. Nothing to do here.
+  // The browser will be redirected to the provider. Nothing to do here.
+}
+
+export async function signInWithGoogle(redirectPath?: string) {
+  await signInWithOAuth("google", redirectPath);
+}
+
+export async function signInWithGitHub(redirectPath?: string) {
+  await signInWithOAuth("github", redirectPath);
+}
+
+/**
+ * Sends a magic link to `email`. The link is usually opened in a new tab, so the
+ * return path travels in the callback URL as well as in sessionStorage.
+ */
+export async function signInWithEmail(email: string, redirectPath?: string) {
+  const target = redirectPath ?? (typeof window !== "undefined" ? window.location.pathname : "/");
+  persistRedirectPath(target);
+
+  const supabase = supabaseBrowser();
+  const emailRedirectTo = `${callbackUrl()}?${REDIRECT_QUERY_PARAM}=${encodeURIComponent(target)}`;
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo, shouldCreateUser: true },
+  });
+  if (error) throw error;
+}
+
+export async function listIdentities(): Promise<UserIdentity[]> {
+  const supabase = supabaseBrowser();
+  const { data, error } = await supabase.auth.getUserIdentities();
+  if (error) throw error;
+  return data.identities;
+}
+
+/** Links another OAuth account to the signed-in user; the callback returns to `redirectPath`. */
+export async function linkIdentity(provider: OAuthProvider, redirectPath?: string) {
+  if (typeof window !== "undefined") {
+    persistRedirectPath(redirectPath ?? window.location.pathname);
+  }
+
+  const supabase = supabaseBrowser();
+  const { error } = await supabase.auth.linkIdentity({
+    provider,
+    options: { redirectTo: callbackUrl() },
+  });
+  if (error) throw error;
+}
+
+/** Supabase refuses to unlink the last identity, so callers should keep at least one. */
+export async function unlinkIdentity(identity: UserIdentity) {
+  const supabase = supabaseBrowser();
+  const { error } = await supabase.auth.unlinkIdentity(identity);
+  if (error) throw error;
+  // Refresh so the session's user (and its identities) reflect the change.
+  await supabase.auth.refreshSession();
 }
 
 export async function signOut() {
   const supabase = supabaseBrowser();
   await supabase.auth.signOut();
+  await clearOfflineCache().catch((error) => {
+    console.warn("Failed to clear offline cache", error);
+  });
   if (typeof window !== "undefined") {
     window.location.href = "/";
   }
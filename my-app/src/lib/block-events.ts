@@ -0,0 +1,238 @@
+// src/lib/block-events.ts
+// Blocked-visit telemetry. Blocking clients report every redirect (domain,
+// matched pattern, active window); the dashboard aggregates them into a
+// distraction report.
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import type { BlockMode } from "./block-windows"
+import { isBlocklistMatchType, type BlocklistMatchType } from "./blocklist"
+import type { Database } from "./database.types"
+import { isUuid, type ValidationResult } from "./http"
+import { supabaseBrowser } from "./supabase"
+
+/** Most events accepted in one request; clients queue redirects while offline. */
+export const MAX_BLOCK_EVENT_BATCH = 50
+/** Older queued events are rejected rather than back-filled. */
+const MAX_EVENT_AGE_MS = 30 * 24 * 60 * 60 * 1000
+/** Allowed clock skew for events reported "in the future". */
+const MAX_EVENT_SKEW_MS = 5 * 60 * 1000
+const MAX_TEXT_LENGTH = 500
+const EVENT_KEYS = new Set(["occurredAt", "domain", "pattern", "matchType", "mode", "reason", "taskId"])
+
+export type BlockEvent = {
+  id: string
+  occurredAt: string
+  domain: string
+  /** The blocklist pattern that matched; null in allowlist mode. */
+  pattern: string | null
+  matchType: BlocklistMatchType | null
+  mode: BlockMode
+  /** Reason of the window that was active, e.g. "タスク: 英語 #focus". */
+  reason: string | null
+  taskId: string | null
+  taskTitle: string | null
+}
+
+export type BlockEventInput = {
+  occurredAt: string
+  domain: string
+  pattern?: string | null
+  matchType?: BlocklistMatchType | null
+  mode?: BlockMode
+  reason?: string | null
+  taskId?: string | null
+}
+
+export type DistractionReport = {
+  total: number
+  topDomains: { domain: string; count: number }[]
+  /** Attempts per task window, most attempts first; events without a task are left out. */
+  byTask: { taskId: string; title: string; count: number; topDomain: string }[]
+}
+
+type BlockEventRow = Omit<Database["public"]["Tables"]["block_events"]["Row"], "user_id" | "created_at"> & {
+  task_defs?: { title: string } | null
+}
+
+const BLOCK_EVENT_COLUMNS = "id, occurred_at, domain, pattern, match_type, mode, reason, task_id, task_defs ( title )"
+
+/** Lower-cased host without scheme, port, path or a leading "www.", so visits group by site. */
+export function normalizeEventDomain(value: string): string | null {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .replace(/[/?#].*$/, "")
+    .replace(/:\d+$/, "")
+    .replace(/^www\./, "")
+    .replace(/\.$/, "")
+  return host && host.length <= 253 && /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host) ? host : null
+}
+
+function mapBlockEventRow(row: BlockEventRow): BlockEvent {
+  return {
+    id: row.id,
+    occurredAt: row.occurred_at,
+    domain: row.domain,
+    pattern: row.pattern,
+    matchType: row.match_type,
+    mode: row.mode,
+    reason: row.reason,
+    taskId: row.task_id,
+    taskTitle: row.task_defs?.title ?? null,
+  }
+}
+
+/** Events that happened in [from, to), newest first. */
+export async function listBlockEvents(
+  range: { from: string; to: string },
+  client?: SupabaseClient<Database>
+): Promise<BlockEvent[]> {
+  const supabase = client ?? supabaseBrowser()
+  const { data, error } = await supabase
+    .from("block_events")
+    .select(BLOCK_EVENT_COLUMNS)
+    .gte("occurred_at", range.from)
+    .lt("occurred_at", range.to)
+    .order("occurred_at", { ascending: false })
+  if (error) throw error
+  return ((data ?? []) as unknown as BlockEventRow[]).map(mapBlockEventRow)
+}
+
+/** Returns the number of stored events. */
+export async function insertBlockEvents(
+  events: BlockEventInput[],
+  client?: SupabaseClient<Database>
+): Promise<number> {
+  if (!events.length) return 0
+  const supabase = client ?? supabaseBrowser()
+  const { data, error } = await supabase
+    .from("block_events")
+    .insert(
+      events.map((event) => ({
+        occurred_at: event.occurredAt,
+        domain: event.domain,
+        pattern: event.pattern ?? null,
+        match_type: event.matchType ?? null,
+        mode: event.mode ?? "blocklist",
+        reason: event.reason ?? null,
+        task_id: event.taskId ?? null,
+      }))
+    )
+    .select("id")
+  if (error) throw error
+  return (data ?? []).length
+}
+
+export function summarizeBlockEvents(events: BlockEvent[], limit = 5): DistractionReport {
+  const domainCounts = new Map<string, number>()
+  const tasks = new Map<string, { title: string; count: number; domains: Map<string, number> }>()
+
+  for (const event of events) {
+    domainCounts.set(event.domain, (domainCounts.get(event.domain) ?? 0) + 1)
+    if (!event.taskId) continue
+    const task = tasks.get(event.taskId) ?? {
+      title: event.taskTitle ?? event.reason ?? "削除されたタスク",
+      count: 0,
+      domains: new Map<string, number>(),
+    }
+    task.count += 1
+    task.domains.set(event.domain, (task.domains.get(event.domain) ?? 0) + 1)
+    tasks.set(event.taskId, task)
+  }
+
+  const byCount = <T extends { count: number }>(a: T, b: T) => b.count - a.count
+  const topOf = (counts: Map<string, number>) =>
+    Array.from(counts, ([domain, count]) => ({ domain, count })).sort(byCount)
+
+  return {
+    total: events.length,
+    topDomains: topOf(domainCounts).slice(0, limit),
+    byTask: Array.from(tasks, ([taskId, task]) => ({
+      taskId,
+      title: task.title,
+      count: task.count,
+      topDomain: topOf(task.domains)[0]?.domain ?? "",
+    }))
+      .sort(byCount)
+      .slice(0, limit),
+  }
+}
+
+function optionalText(value: unknown, key: string, errors: string[]): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== "string") {
+    errors.push(`${key} must be a string or null`)
+    return null
+  }
+  const trimmed = value.trim()
+  if (trimmed.length > MAX_TEXT_LENGTH) errors.push(`${key} must be at most ${MAX_TEXT_LENGTH} characters`)
+  return trimmed || null
+}
+
+function validateEvent(value: unknown, index: number, now: number, errors: string[]): BlockEventInput | null {
+  const prefix = `events[${index}]`
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${prefix} must be an object`)
+    return null
+  }
+  const record = value as Record<string, unknown>
+  const before = errors.length
+  for (const key of Object.keys(record)) {
+    if (!EVENT_KEYS.has(key)) errors.push(`${prefix}.${key} is not a recognised field`)
+  }
+
+  const occurredAt = typeof record.occurredAt === "string" ? Date.parse(record.occurredAt) : Number.NaN
+  if (!Number.isFinite(occurredAt)) {
+    errors.push(`${prefix}.occurredAt must be an ISO timestamp`)
+  } else if (occurredAt > now + MAX_EVENT_SKEW_MS || occurredAt < now - MAX_EVENT_AGE_MS) {
+    errors.push(`${prefix}.occurredAt must be within the last 30 days`)
+  }
+
+  const domain = typeof record.domain === "string" ? normalizeEventDomain(record.domain) : null
+  if (!domain) errors.push(`${prefix}.domain must be a host name`)
+
+  if (record.matchType !== undefined && record.matchType !== null && !isBlocklistMatchType(record.matchType)) {
+    errors.push(`${prefix}.matchType must be substring, domain, regex or null`)
+  }
+  if (record.mode !== undefined && record.mode !== "blocklist" && record.mode !== "allowlist") {
+    errors.push(`${prefix}.mode must be blocklist or allowlist`)
+  }
+  if (record.taskId !== undefined && record.taskId !== null) {
+    if (!isUuid(record.taskId)) {
+      errors.push(`${prefix}.taskId must be a UUID or null`)
+    }
+  }
+  const pattern = optionalText(record.pattern, `${prefix}.pattern`, errors)
+  const reason = optionalText(record.reason, `${prefix}.reason`, errors)
+
+  if (errors.length > before || !domain) return null
+  return {
+    occurredAt: new Date(occurredAt).toISOString(),
+    domain,
+    pattern,
+    matchType: (record.matchType as BlocklistMatchType | null | undefined) ?? null,
+    mode: (record.mode as BlockMode | undefined) ?? "blocklist",
+    reason,
+    taskId: (record.taskId as string | null | undefined) ?? null,
+  }
+}
+
+/** Accepts `{ events: [...] }` or a single event object. */
+export function validateBlockEventsInput(value: unknown): ValidationResult<BlockEventInput[]> {
+  const rawEvents =
+    typeof value === "object" && value !== null && !Array.isArray(value) && "events" in value
+      ? (value as { events: unknown }).events
+      : [value]
+  if (!Array.isArray(rawEvents) || !rawEvents.length) {
+    return { ok: false, errors: ["events must be a non-empty array"] }
+  }
+  if (rawEvents.length > MAX_BLOCK_EVENT_BATCH) {
+    return { ok: false, errors: [`at most ${MAX_BLOCK_EVENT_BATCH} events can be sent at once`] }
+  }
+
+  const now = Date.now()
+  const errors: string[] = []
+  const events = rawEvents.map((event, index) => validateEvent(event, index, now, errors))
+  return errors.length ? { ok: false, errors } : { ok: true, value: events as BlockEventInput[] }
+}
@@ -0,0 +1,135 @@
+// Loads everything the blocking windows depend on (tasks, execution logs,
+// blocklist entries, snoozes) for the /api/v1/blocks routes.
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  buildBlockingWindowsFromRows,
+  type BlockingWindowPayload,
+  type BuildWindowOptions,
+  type TaskRow,
+} from './block-windows'
+import { listBlocklistEntries, type BlocklistEntry } from './blocklist'
+import type { Database } from './database.types'
+import {
+  addDaysIso,
+  buildDailyTotals,
+  getDayBounds,
+  progressLookbackStart,
+  type DailyTotals,
+} from './recurrence'
+import { listSnoozes, type BlockSnooze } from './snoozes'
+
+export const DEFAULT_BLOCK_REDIRECT_URL = (() => {
+  const siteUrl = import.meta.env.PUBLIC_SITE_URL
+  if (typeof siteUrl === 'string' && siteUrl.length > 0) {
+    return `${siteUrl.replace(/\/?$/, '')}/`
+  }
+  return 'https://taskworks.example/'
+})()
+
+export type LoadBlockingWindowsOptions = Omit<
+  BuildWindowOptions,
+  'completedCounts' | 'dailyTotals' | 'blocklistEntries' | 'snoozes' | 'redirectUrlDefault'
+> & {
+  /** Cut snoozed periods out of the windows (default). Off when deciding what a new snooze interrupts. */
+  applySnoozes?: boolean
+}
+
+export type LoadedBlockingWindows = {
+  windows: BlockingWindowPayload[]
+  taskCount: number
+  /** Per day, per task completions within the requested range. */
+  completedCountsByDate: Record<string, Record<string, number>>
+}
+
+function loadError(message: string, cause: unknown) {
+  return new Error(message, { cause })
+}
+
+export async function loadBlockingWindows(
+  supabase: SupabaseClient<Database>,
+  options: LoadBlockingWindowsOptions,
+): Promise<LoadedBlockingWindows> {
+  const { applySnoozes = true, ...buildOptions } = options
+  const { dateIso, timeZone } = buildOptions
+  const endDateIso = buildOptions.endDateIso ?? dateIso
+
+  const { data: taskRows, error: taskError } = await supabase
+    .from('task_defs')
+    .select(
+      `id, title, description, kind, active, start_date, end_date, created_at,
+        period_rules (*), time_rules (*),
+        block_redirect_url, block_severity, block_patterns, block_mode,
+        task_tags ( tag_id, tags ( id, name, block_redirect_url, block_severity, block_patterns, block_mode ) )`
+    )
+    .eq('active', true)
+
+  if (taskError) throw loadError('Failed to fetch tasks', taskError)
+
+  let blocklistEntries: BlocklistEntry[]
+  try {
+    blocklistEntries = await listBlocklistEntries(supabase)
+  } catch (blocklistError) {
+    throw loadError('Failed to fetch blocklist entries', blocklistError)
+  }
+
+  const taskList: TaskRow[] = taskRows ?? []
+  const taskIds = taskList.map((row) => row.id)
+
+  const completedCountsByDate: Record<string, Record<string, number>> = {}
+  let dailyTotals: Map<string, DailyTotals> | undefined
+
+  // Overnight slots from the day before the range still produce windows.
+  const rangeBounds = {
+    start: getDayBounds(addDaysIso(dateIso, -1), timeZone)?.start,
+    end: getDayBounds(endDateIso, timeZone)?.end,
+  }
+
+  if (taskIds.length) {
+    // Quota rules need the whole week/month so far, not just the requested days.
+    const lookbackBounds = getDayBounds(progressLookbackStart(addDaysIso(dateIso, -1)), timeZone)
+    if (lookbackBounds && rangeBounds.end) {
+      const { data: execLogs, error: execError } = await supabase
+        .from('exec_logs')
+        .select('task_id, happened_at, qty')
+        .in('task_id', taskIds)
+        .gte('happened_at', lookbackBounds.start.toISOString())
+        .lt('happened_at', rangeBounds.end.toISOString())
+
+      if (execError) {
+        console.warn('[TaskWorks] Failed to fetch exec logs', execError)
+      } else {
+        dailyTotals = buildDailyTotals(execLogs ?? [], timeZone)
+        for (const [taskId, totals] of dailyTotals) {
+          for (const [dayIso, count] of totals) {
+            if (!count || dayIso < dateIso || dayIso > endDateIso) continue
+            completedCountsByDate[dayIso] = { ...completedCountsByDate[dayIso], [taskId]: count }
+          }
+        }
+      }
+    }
+  }
+
+  let snoozes: BlockSnooze[] = []
+  if (applySnoozes && rangeBounds.start && rangeBounds.end) {
+    try {
+      snoozes = await listSnoozes(
+        { from: rangeBounds.start.toISOString(), to: rangeBounds.end.toISOString() },
+        supabase,
+      )
+    } catch (snoozeError) {
+      // Without the snoozes the windows block as scheduled, which is the safe side.
+      console.warn('[TaskWorks] Failed to fetch snoozes', snoozeError)
+    }
+  }
+
+  const windows = buildBlockingWindowsFromRows(taskList, {
+    ...buildOptions,
+    redirectUrlDefault: DEFAULT_BLOCK_REDIRECT_URL,
+    completedCounts: completedCountsByDate[dateIso] ?? {},
+    dailyTotals,
+    blocklistEntries,
+    snoozes,
+  })
+
+  return { windows, taskCount: taskList.length, completedCountsByDate }
+}
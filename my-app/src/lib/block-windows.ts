@@ -1,34 +1,125 @@
+import type { BlocklistEntry, BlocklistMatchType } from './blocklist'
 import type { Database } from './database.types'
+import type { BlockSnooze } from './snoozes'
+import {
+  addDaysIso,
+  convertMinutesToDate,
+  determineProgressForDate,
+  formatZonedIso,
+  isIsoDate,
+  isOvernightSlot,
+  MINUTES_IN_DAY,
+  taskActiveOnDate,
+  type DailyTotals,
+  type RecurrenceRule,
+} from './recurrence'
 
 type TaskDefsRow = Database['public']['Tables']['task_defs']['Row']
 type PeriodRulesRow = Database['public']['Tables']['period_rules']['Row']
 type TimeRulesRow = Database['public']['Tables']['time_rules']['Row']
-type TaskTagsRow = Database['public']['Tables']['task_tags']['Row'] & {
-  tags?: Database['public']['Tables']['tags']['Row'] | null
+type TagsRow = Database['public']['Tables']['tags']['Row']
+type BlockingPolicyColumnName = 'block_redirect_url' | 'block_severity' | 'block_mode' | 'block_patterns'
+type TaskTagsRow = Pick<Database['public']['Tables']['task_tags']['Row'], 'tag_id'> & {
+  tags?: (Pick<TagsRow, 'id' | 'name'> & Partial<Pick<TagsRow, BlockingPolicyColumnName>>) | null
 }
 
-const MINUTES_IN_DAY = 24 * 60
 const DEFAULT_FOCUS_TAGS = ['focus']
+const MAX_BLOCK_PATTERNS = 100
+const MAX_BLOCK_PATTERN_LENGTH = 200
+/** Latest end of a timed slot: the end of the following day. */
+const MAX_SLOT_END_MINUTES = 2 * MINUTES_IN_DAY
+/** Longest date range a single windows request may cover. */
+export const MAX_WINDOW_RANGE_DAYS = 14
+
+/** `redirectUrl` value that sends the user to the page of the task that produced the window. */
+export const TASK_PAGE_REDIRECT = 'task'
+
+export type BlockSeverity = 'strict' | 'lenient'
+
+/** blocklist: block the listed patterns. allowlist: block everything except the listed patterns. */
+export type BlockMode = 'blocklist' | 'allowlist'
+
+/** Optional blocking settings on a task or tag; null/empty means "not set here". */
+export type BlockingPolicy = {
+  /** Absolute http(s) URL, or TASK_PAGE_REDIRECT. */
+  redirectUrl: string | null
+  severity: BlockSeverity | null
+  mode: BlockMode | null
+  /**
+   * URL substrings blocked during the window in addition to the client's own
+   * list, or the only ones reachable when the window is in allowlist mode.
+   */
+  patterns: string[]
+}
+
+export const EMPTY_BLOCKING_POLICY: BlockingPolicy = { redirectUrl: null, severity: null, mode: null, patterns: [] }
+
+/**
+ * A task_defs row with its rules and tags, as the blocks routes and the
+ * calendar feed select it. The feed leaves the block_* columns out.
+ */
+export type TaskRow = Pick<
+  TaskDefsRow,
+  'id' | 'title' | 'description' | 'kind' | 'active' | 'start_date' | 'end_date' | 'created_at'
+> &
+  Partial<Pick<TaskDefsRow, BlockingPolicyColumnName>> & {
+    period_rules?: PeriodRulesRow[] | null
+    time_rules?: TimeRulesRow[] | null
+    task_tags?: (TaskTagsRow | null)[] | null
+  }
 
-type TaskRow = TaskDefsRow & {
-  period_rules?: PeriodRulesRow[] | null
-  time_rules?: TimeRulesRow[] | null
-  task_tags?: (TaskTagsRow | null)[] | null
+export type BlocklistPatternPayload = {
+  pattern: string
+  match_type: BlocklistMatchType
 }
 
+/** A server-managed blocklist entry; without taskId/tagId it applies to every window. */
+export type BlocklistRule = Pick<BlocklistEntry, 'pattern' | 'matchType' | 'taskId' | 'tagId'>
+
+/** A temporary unblock; windows are cut for its duration. */
+export type SnoozeInterval = Pick<BlockSnooze, 'startsAt' | 'endsAt'>
+
 export type BlockingWindowPayload = {
   start_at: string
   end_at: string
   reason: string
+  /** Task that produced the window; null when merged windows come from several tasks. */
+  task_id: string | null
+  /** Every task that contributed to the window. */
+  task_ids: string[]
+  /** Day (YYYY-MM-DD) the time slot belongs to; an overnight slot keeps the day it starts on. */
+  date: string
   policy: {
-    mode: 'blocklist'
+    mode: BlockMode
     redirect_url: string
-    severity: 'strict' | 'lenient'
+    severity: BlockSeverity
+    /**
+     * blocklist mode: server-managed entries that apply to the window plus the
+     * task's and its tags' own patterns (as substrings). Clients block these on
+     * top of their local list. Empty in allowlist mode.
+     */
+    blocklist: BlocklistPatternPayload[]
+    /**
+     * allowlist mode: the only patterns reachable during the window (the task's
+     * and its tags' patterns and the entries linked to them). The redirect
+     * target stays reachable as well. Empty in blocklist mode.
+     */
+    allowlist: BlocklistPatternPayload[]
   }
 }
 
+type WindowPolicy = {
+  redirectUrl: string
+  severity: BlockSeverity
+  mode: BlockMode
+  blocklist: BlocklistPatternPayload[]
+  allowlist: BlocklistPatternPayload[]
+}
+
 export type BuildWindowOptions = {
   dateIso: string
+  /** Last day (inclusive) of a multi-day range starting at dateIso; defaults to dateIso. */
+  endDateIso?: string
   timeZone: string
   preGraceMinutes?: number
   postGraceMinutes?: number
@@ -38,9 +129,13 @@ export type BuildWindowOptions = {
   redirectUrlDefault: string
   mergeOverlaps?: boolean
   completedCounts?: Record<string, number>
+  /** Per-task, per-date totals; needed for weekly/monthly quota progress. Takes precedence over completedCounts. */
+  dailyTotals?: Map<string, DailyTotals>
+  blocklistEntries?: BlocklistRule[]
+  snoozes?: SnoozeInterval[]
 }
 
-type TaskEntity = {
+export type TaskEntity = {
   id: string
   title: string
   description?: string
@@ -48,38 +143,38 @@ type TaskEntity = {
   active: boolean
   startDate?: string
   endDate?: string
+  createdAt?: string
   periodRules: PeriodRuleEntity[]
   timeRules: TimeRuleEntity[]
   tags: string[]
+  /** Tag ids in the same order as `tags`; used to match tag-scoped blocklist entries. */
+  tagIds?: string[]
+  blockingPolicy?: BlockingPolicy
+  /** Policies of the task's tags, in the same order as `tags`. */
+  tagBlockingPolicies?: BlockingPolicy[]
 }
 
-type PeriodRuleEntity = {
+type PeriodRuleEntity = RecurrenceRule & {
   id: string
-  cadence: 'daily' | 'weekly' | 'monthly' | 'interval'
-  timesPerPeriod: number | null
-  period: string
-  daysOfWeek: number[] | null
-  weekStart: number | null
-  timezone: string
 }
 
-type TimeRuleEntity = {
+export type TimeRuleEntity = {
   id: string
   startTime: string | null
   endTime: string | null
   anytime: boolean
 }
 
-type IntermediateWindow = {
+type IntermediateWindow = WindowPolicy & {
   startUtc: number
   endUtc: number
   startIso: string
   endIso: string
   startDate: Date
   endDate: Date
-  redirectUrl: string
-  severity: 'strict' | 'lenient'
   reasons: Set<string>
+  taskIds: Set<string>
+  dayIso: string
   timeZone: string
 }
 
@@ -91,6 +186,7 @@ export function buildBlockingWindowsFromRows(rows: TaskRow[], options: BuildWind
 export function buildBlockingWindows(tasks: TaskEntity[], options: BuildWindowOptions): BlockingWindowPayload[] {
   const {
     dateIso,
+    endDateIso = dateIso,
     timeZone,
     preGraceMinutes = 3,
     postGraceMinutes = 3,
@@ -100,37 +196,44 @@ export function buildBlockingWindows(tasks: TaskEntity[], options: BuildWindowOp
     redirectUrlDefault,
     mergeOverlaps = false,
     completedCounts = {},
+    dailyTotals,
+    blocklistEntries = [],
+    snoozes = [],
   } = options
 
-  if (!/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/.test(dateIso)) {
+  if (!isIsoDate(dateIso) || !isIsoDate(endDateIso)) {
     throw new Error('Invalid date format. Expected YYYY-MM-DD')
   }
+  if (endDateIso < dateIso) {
+    throw new Error('endDateIso must not be before dateIso')
+  }
 
-  const dayOfWeek = isoDayOfWeek(dateIso)
   const focusNames = focusTagNames.length ? focusTagNames.map((tag) => sanitizeTag(tag)) : DEFAULT_FOCUS_TAGS
 
   const windows: IntermediateWindow[] = []
 
-  for (const task of tasks) {
-    if (!taskActiveOnDate(task, dateIso)) continue
-
-    const targetCount = determineTargetForDate(task, dateIso, dayOfWeek)
-    if (targetCount <= 0) continue
-
-    const completedCount = completedCounts[task.id] ?? 0
-    const remainingCount = Math.max(targetCount - completedCount, 0)
-    if (remainingCount <= 0) {
-      continue
+  // Overnight slots that started the day before still block the early hours of `dateIso`.
+  const days = [{ dayIso: addDaysIso(dateIso, -1), carryOverOnly: true }]
+  for (let dayIso = dateIso; dayIso <= endDateIso; dayIso = addDaysIso(dayIso, 1)) {
+    days.push({ dayIso, carryOverOnly: false })
+    if (days.length > MAX_WINDOW_RANGE_DAYS + 1) {
+      throw new Error(`Date range must not exceed ${MAX_WINDOW_RANGE_DAYS} days`)
     }
+  }
 
+  for (const task of tasks) {
     const normalizedTags = task.tags.map((tag) => sanitizeTag(tag))
     const hasFocusTag = normalizedTags.some((tag) => focusNames.includes(tag))
     if (focusOnly && !hasFocusTag) continue
 
     const taskTimeZone = resolveTaskTimeZone(task, timeZone)
-    const severity: 'strict' | 'lenient' = hasFocusTag ? 'strict' : 'lenient'
+    const policy = resolveWindowPolicy(task, {
+      hasFocusTag,
+      redirectUrlDefault,
+      blocklistEntries,
+    })
     const reasonBase = buildReason(task)
-    const redirectUrl = redirectUrlDefault
+    const totals = dailyTotals?.get(task.id) ?? new Map([[dateIso, completedCounts[task.id] ?? 0]])
 
     const rules = task.timeRules.length
       ? task.timeRules
@@ -143,58 +246,79 @@ export function buildBlockingWindows(tasks: TaskEntity[], options: BuildWindowOp
           },
         ]
 
-    for (const rule of rules) {
-      const { startMinutes, endMinutes } = resolveMinutesForRule(rule, {
-        durationDefaultMinutes,
-        preGraceMinutes,
-        postGraceMinutes,
-      })
+    for (const { dayIso, carryOverOnly } of days) {
+      if (!taskActiveOnDate(task, dayIso)) continue
 
-      if (startMinutes === null || endMinutes === null) continue
-      if (endMinutes <= startMinutes) continue
-
-      const startDate = convertMinutesToDate(dateIso, startMinutes, taskTimeZone)
-      const endDate = convertMinutesToDate(dateIso, endMinutes, taskTimeZone)
-
-      if (!startDate || !endDate) continue
-
-      const windowReason = reasonBase
-      const startUtc = startDate.date.getTime()
-      const endUtc = endDate.date.getTime()
-      if (endUtc <= startUtc) continue
-
-      windows.push({
-        startUtc,
-        endUtc,
-        startIso: startDate.iso,
-        endIso: endDate.iso,
-        startDate: startDate.date,
-        endDate: endDate.date,
-        redirectUrl,
-        severity,
-        reasons: new Set([windowReason]),
-        timeZone: taskTimeZone,
-      })
-    }
-  }
+      const progress = determineProgressForDate(task, dayIso, totals)
+      if (progress.target <= 0) continue
 
-  if (!windows.length) return []
+      const remainingCount = Math.max(progress.target - progress.completed, 0)
+      if (remainingCount <= 0) {
+        continue
+      }
 
-  const processed = mergeOverlaps ? mergeWindows(windows) : windows
+      for (const rule of rules) {
+        const { startMinutes, endMinutes } = resolveMinutesForRule(rule, {
+          durationDefaultMinutes,
+          preGraceMinutes,
+          postGraceMinutes,
+        })
+
+        if (startMinutes === null || endMinutes === null) continue
+        if (endMinutes <= startMinutes) continue
+        if (carryOverOnly && endMinutes <= MINUTES_IN_DAY) continue
+
+        const startDate = convertMinutesToDate(dayIso, startMinutes, taskTimeZone)
+        const endDate = convertMinutesToDate(dayIso, endMinutes, taskTimeZone)
+
+        if (!startDate || !endDate) continue
+
+        const windowReason = reasonBase
+        const startUtc = startDate.date.getTime()
+        const endUtc = endDate.date.getTime()
+        if (endUtc <= startUtc) continue
+
+        windows.push({
+          startUtc,
+          endUtc,
+          startIso: startDate.iso,
+          endIso: endDate.iso,
+          startDate: startDate.date,
+          endDate: endDate.date,
+          ...policy,
+          reasons: new Set([windowReason]),
+          taskIds: new Set([task.id]),
+          dayIso,
+          timeZone: taskTimeZone,
+        })
+      }
+    }
+  }
 
-  return processed.map((window) => ({
-    start_at: window.startIso,
-    end_at: window.endIso,
-    reason: Array.from(window.reasons).join(' / '),
-    policy: {
-      mode: 'blocklist',
-      redirect_url: window.redirectUrl,
-      severity: window.severity,
-    },
-  }))
+  const processed = trimSnoozedWindows(mergeOverlaps ? mergeWindows(windows) : windows, snoozes)
+  if (!processed.length) return []
+
+  return processed.map((window) => {
+    const taskIds = Array.from(window.taskIds)
+    return {
+      start_at: window.startIso,
+      end_at: window.endIso,
+      reason: Array.from(window.reasons).join(' / '),
+      task_id: taskIds.length === 1 ? taskIds[0] : null,
+      task_ids: taskIds,
+      date: window.dayIso,
+      policy: {
+        mode: window.mode,
+        redirect_url: window.redirectUrl,
+        severity: window.severity,
+        blocklist: window.blocklist,
+        allowlist: window.allowlist,
+      },
+    }
+  })
 }
 
-function mapTaskRow(row: TaskRow): TaskEntity {
+export function mapTaskRow(row: TaskRow): TaskEntity {
   const periodRules: PeriodRuleEntity[] = (row.period_rules ?? []).map((rule) => ({
     id: rule.id,
     cadence: rule.cadence,
@@ -202,6 +326,7 @@ function mapTaskRow(row: TaskRow): TaskEntity {
     period: rule.period,
     daysOfWeek: rule.days_of_week ?? null,
     weekStart: rule.week_start ?? null,
+    intervalCount: rule.interval_count ?? null,
     timezone: rule.timezone,
   }))
 
@@ -212,9 +337,9 @@ function mapTaskRow(row: TaskRow): TaskEntity {
     anytime: rule.anytime,
   }))
 
-  const tags: string[] = (row.task_tags ?? [])
-    .map((record) => record?.tags?.name)
-    .filter((name): name is string => typeof name === 'string' && name.length > 0)
+  const tagRecords = (row.task_tags ?? [])
+    .map((record) => record?.tags)
+    .filter((tag): tag is NonNullable<TaskTagsRow['tags']> => !!tag && typeof tag.name === 'string' && tag.name.length > 0)
 
   return {
     id: row.id,
@@ -224,34 +349,131 @@ function mapTaskRow(row: TaskRow): TaskEntity {
     active: row.active,
     startDate: row.start_date ?? undefined,
     endDate: row.end_date ?? undefined,
+    createdAt: row.created_at ?? undefined,
     periodRules,
     timeRules,
-    tags,
+    tags: tagRecords.map((tag) => tag.name),
+    tagIds: tagRecords.map((tag) => tag.id),
+    blockingPolicy: blockingPolicyFromRow(row),
+    tagBlockingPolicies: tagRecords.map(blockingPolicyFromRow),
+  }
+}
+
+type BlockingPolicyColumns = {
+  block_redirect_url?: string | null
+  block_severity?: string | null
+  block_mode?: string | null
+  block_patterns?: string[] | null
+}
+
+export function blockingPolicyFromRow(row: BlockingPolicyColumns): BlockingPolicy {
+  return normalizeBlockingPolicy({
+    redirectUrl: row.block_redirect_url ?? null,
+    severity: row.block_severity === 'strict' || row.block_severity === 'lenient' ? row.block_severity : null,
+    mode: row.block_mode === 'blocklist' || row.block_mode === 'allowlist' ? row.block_mode : null,
+    patterns: row.block_patterns ?? [],
+  })
+}
+
+export function isValidBlockRedirect(value: string): boolean {
+  if (value === TASK_PAGE_REDIRECT) return true
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch (_error) {
+    return false
+  }
+}
+
+/** Trims the redirect, drops invalid ones and de-duplicates patterns. */
+export function normalizeBlockingPolicy(policy: Partial<BlockingPolicy>): BlockingPolicy {
+  const redirect = policy.redirectUrl?.trim() ?? ''
+  const patterns = new Set<string>()
+  for (const raw of policy.patterns ?? []) {
+    const pattern = raw.trim()
+    if (!pattern || pattern.length > MAX_BLOCK_PATTERN_LENGTH) continue
+    patterns.add(pattern)
+    if (patterns.size >= MAX_BLOCK_PATTERNS) break
+  }
+  return {
+    redirectUrl: redirect && isValidBlockRedirect(redirect) ? redirect : null,
+    severity: policy.severity ?? null,
+    mode: policy.mode ?? null,
+    patterns: Array.from(patterns),
+  }
+}
+
+/**
+ * Effective policy for a task's windows: the task's own settings win, then the
+ * first tag that sets a value (any strict tag makes the window strict, any
+ * allowlist tag puts it in allowlist mode), then the defaults. Patterns from
+ * the task, its tags and the entries linked to them are combined; entries for
+ * every window only apply in blocklist mode.
+ */
+function resolveWindowPolicy(
+  task: TaskEntity,
+  options: { hasFocusTag: boolean; redirectUrlDefault: string; blocklistEntries: BlocklistRule[] }
+): WindowPolicy {
+  const own = task.blockingPolicy ?? EMPTY_BLOCKING_POLICY
+  const tagPolicies = task.tagBlockingPolicies ?? []
+
+  const redirect = own.redirectUrl ?? tagPolicies.find((policy) => policy.redirectUrl)?.redirectUrl ?? null
+  const redirectUrl =
+    redirect === TASK_PAGE_REDIRECT
+      ? new URL(`/tasks/${task.id}`, options.redirectUrlDefault).toString()
+      : redirect ?? options.redirectUrlDefault
+
+  const tagSeverities = tagPolicies.map((policy) => policy.severity)
+  const tagSeverity = tagSeverities.includes('strict') ? 'strict' : tagSeverities.includes('lenient') ? 'lenient' : null
+  const severity = own.severity ?? tagSeverity ?? (options.hasFocusTag ? 'strict' : 'lenient')
+
+  const tagModes = tagPolicies.map((policy) => policy.mode)
+  const tagMode = tagModes.includes('allowlist') ? 'allowlist' : tagModes.includes('blocklist') ? 'blocklist' : null
+  const mode = own.mode ?? tagMode ?? 'blocklist'
+
+  const tagIds = new Set(task.tagIds ?? [])
+  const linkedEntries = options.blocklistEntries.filter((entry) =>
+    entry.taskId ? entry.taskId === task.id : entry.tagId ? tagIds.has(entry.tagId) : mode === 'blocklist'
+  )
+  const patterns = uniquePatterns([
+    ...[...own.patterns, ...tagPolicies.flatMap((policy) => policy.patterns)].map((pattern) => ({
+      pattern,
+      match_type: 'substring' as const,
+    })),
+    ...linkedEntries.map((entry) => ({ pattern: entry.pattern, match_type: entry.matchType })),
+  ])
+
+  return {
+    redirectUrl,
+    severity,
+    mode,
+    blocklist: mode === 'blocklist' ? patterns : [],
+    allowlist: mode === 'allowlist' ? patterns : [],
   }
 }
 
+/** De-duplicated and sorted, so equal lists compare equal when merging windows. */
+function uniquePatterns(entries: BlocklistPatternPayload[]): BlocklistPatternPayload[] {
+  const unique = new Map(entries.map((entry) => [blocklistKey(entry), entry]))
+  return Array.from(unique.keys())
+    .sort()
+    .map((key) => unique.get(key) as BlocklistPatternPayload)
+}
+
+function blocklistKey(entry: BlocklistPatternPayload): string {
+  return `${entry.match_type}:${entry.pattern}`
+}
+
 function buildReason(task: TaskEntity): string {
   const tagSuffix = task.tags.length ? ` ${task.tags.map((tag) => `#${tag}`).join(' ')}` : ''
   return `タスク: ${task.title}${tagSuffix}`.trim()
 }
 
-function resolveTaskTimeZone(task: TaskEntity, fallback: string): string {
+export function resolveTaskTimeZone(task: TaskEntity, fallback: string): string {
   const explicit = task.periodRules.find((rule) => rule.timezone)?.timezone
   return explicit || fallback
 }
 
-function createDefaultDailyRule(task: TaskEntity): PeriodRuleEntity {
-  return {
-    id: `${task.id}-default-period`,
-    cadence: 'daily',
-    timesPerPeriod: 1,
-    period: 'day',
-    daysOfWeek: null,
-    weekStart: null,
-    timezone: resolveTaskTimeZone(task, 'UTC'),
-  }
-}
-
 function sanitizeTag(tag: string): string {
   const lowered = tag.toLowerCase()
   return lowered.startsWith('#') ? lowered.slice(1) : lowered
@@ -267,24 +489,30 @@ function resolveMinutesForRule(
     return { startMinutes: start, endMinutes: end }
   }
 
+  // Timed slots may run past midnight (e.g. 23:00-01:00), so the end can reach into the next day.
   const startMinutes = clampMinute(toMinutes(rule.startTime) - options.preGraceMinutes)
   let endMinutes: number
   if (rule.endTime) {
-    endMinutes = clampMinute(toMinutes(rule.endTime) + options.postGraceMinutes)
+    const overnight = isOvernightSlot(rule.startTime, rule.endTime)
+    const end = toMinutes(rule.endTime) + (overnight ? MINUTES_IN_DAY : 0)
+    endMinutes = clampMinute(end + options.postGraceMinutes, MAX_SLOT_END_MINUTES)
   } else {
-    endMinutes = clampMinute(toMinutes(rule.startTime) + options.durationDefaultMinutes + options.postGraceMinutes)
+    endMinutes = clampMinute(
+      toMinutes(rule.startTime) + options.durationDefaultMinutes + options.postGraceMinutes,
+      MAX_SLOT_END_MINUTES
+    )
   }
 
   return { startMinutes, endMinutes }
 }
 
-function clampMinute(value: number): number {
+function clampMinute(value: number, max = MINUTES_IN_DAY): number {
   if (value < 0) return 0
-  if (value > MINUTES_IN_DAY) return MINUTES_IN_DAY
+  if (value > max) return max
   return value
 }
 
-function toMinutes(value: string): number {
+export function toMinutes(value: string): number {
   if (!value) return 0
   const [hourPart, minutePart] = value.split(':')
   const hours = Number.parseInt(hourPart ?? '0', 10)
@@ -293,179 +521,52 @@ function toMinutes(value: string): number {
   return hours * 60 + minutes
 }
 
-function determineTargetForDate(task: TaskEntity, isoDate: string, dayOfWeek: number): number {
-  if (!taskActiveOnDate(task, isoDate)) return 0
-  const rules: PeriodRuleEntity[] = task.periodRules.length
-    ? task.periodRules
-    : [createDefaultDailyRule(task)]
-
-  let total = 0
-  for (const rule of rules) {
-    if (ruleMatchesDate(rule, isoDate, dayOfWeek)) {
-      const count = rule.timesPerPeriod ?? 1
-      total += Number.isFinite(count) ? count : 1
-    }
-  }
-  return total
-}
-
-function ruleMatchesDate(rule: PeriodRuleEntity, isoDate: string, dayOfWeek: number): boolean {
-  switch (rule.cadence) {
-    case 'daily':
-      return true
-    case 'weekly': {
-      const days = rule.daysOfWeek ?? []
-      if (!days.length) return true
-      return days.includes(dayOfWeek)
-    }
-    case 'monthly': {
-      const { day } = parseIsoDateParts(isoDate)
-      const days = rule.daysOfWeek ?? []
-      if (!days.length) return day === 1
-      return days.includes(day)
+/** Removes snoozed periods from the windows, splitting a window when a snooze falls inside it. */
+function trimSnoozedWindows(windows: IntermediateWindow[], snoozes: SnoozeInterval[]): IntermediateWindow[] {
+  const intervals = snoozes
+    .map((snooze) => ({ start: Date.parse(snooze.startsAt), end: Date.parse(snooze.endsAt) }))
+    .filter((interval) => Number.isFinite(interval.start) && Number.isFinite(interval.end) && interval.end > interval.start)
+  if (!intervals.length) return windows
+
+  const trimmed: IntermediateWindow[] = []
+  for (const window of windows) {
+    let pieces = [{ start: window.startUtc, end: window.endUtc }]
+    for (const interval of intervals) {
+      pieces = pieces.flatMap((piece) => {
+        if (interval.end <= piece.start || interval.start >= piece.end) return [piece]
+        const rest = []
+        if (interval.start > piece.start) rest.push({ start: piece.start, end: interval.start })
+        if (interval.end < piece.end) rest.push({ start: interval.end, end: piece.end })
+        return rest
+      })
     }
-    default:
-      return true
-  }
-}
-
-function taskActiveOnDate(task: TaskEntity, isoDate: string): boolean {
-  if (!task.active) return false
-  if (task.startDate && task.startDate > isoDate) return false
-  if (task.endDate && task.endDate < isoDate) return false
-  return true
-}
-
-function parseIsoDateParts(iso: string) {
-  const [yearStr, monthStr, dayStr] = iso.split('-')
-  return {
-    year: Number.parseInt(yearStr, 10),
-    month: Number.parseInt(monthStr, 10),
-    day: Number.parseInt(dayStr, 10),
-  }
-}
-
-function isoDayOfWeek(iso: string): number {
-  const { year, month, day } = parseIsoDateParts(iso)
-  const d = new Date(Date.UTC(year, month - 1, day))
-  return d.getUTCDay()
-}
-
-type ZonedDate = {
-  date: Date
-  iso: string
-  offsetMinutes: number
-}
-
-const formatterCache = new Map<string, Intl.DateTimeFormat>()
-
-function getFormatter(timeZone: string) {
-  if (!formatterCache.has(timeZone)) {
-    formatterCache.set(
-      timeZone,
-      new Intl.DateTimeFormat('en-US', {
-        timeZone,
-        hour12: false,
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        timeZoneName: 'shortOffset',
+    for (const piece of pieces) {
+      const startDate = new Date(piece.start)
+      const endDate = new Date(piece.end)
+      trimmed.push({
+        ...window,
+        startUtc: piece.start,
+        endUtc: piece.end,
+        startDate,
+        endDate,
+        startIso: piece.start === window.startUtc ? window.startIso : formatZonedIso(startDate, window.timeZone),
+        endIso: piece.end === window.endUtc ? window.endIso : formatZonedIso(endDate, window.timeZone),
       })
-    )
-  }
-  return formatterCache.get(timeZone)!
-}
-
-type FormatterParts = {
-  year: string
-  month: string
-  day: string
-  hour: string
-  minute: string
-  second: string
-  offsetMinutes: number
-}
-
-function extractParts(date: Date, timeZone: string): FormatterParts {
-  const formatter = getFormatter(timeZone)
-  const parts = formatter.formatToParts(date)
-  const result: Partial<FormatterParts> = {}
-  let offset = 'GMT+00'
-  for (const part of parts) {
-    if (part.type === 'literal') continue
-    if (part.type === 'timeZoneName') {
-      offset = part.value
-      continue
     }
-    ;(result as Record<string, string>)[part.type] = part.value
-  }
-  if (!result.second) {
-    result.second = '00'
   }
-  return {
-    year: result.year!,
-    month: result.month!,
-    day: result.day!,
-    hour: result.hour!,
-    minute: result.minute!,
-    second: result.second!,
-    offsetMinutes: parseOffsetMinutes(offset),
-  }
-}
-
-function parseOffsetMinutes(value: string): number {
-  const match = value.match(/([+-])(\d{1,2})(?::?(\d{2}))?$/)
-  if (!match) return 0
-  const sign = match[1] === '-' ? -1 : 1
-  const hours = Number.parseInt(match[2], 10)
-  const minutes = match[3] ? Number.parseInt(match[3], 10) : 0
-  return sign * (hours * 60 + minutes)
-}
-
-function formatOffset(offsetMinutes: number): string {
-  const sign = offsetMinutes >= 0 ? '+' : '-'
-  const absolute = Math.abs(offsetMinutes)
-  const hours = Math.floor(absolute / 60)
-  const minutes = absolute % 60
-  return `${sign}${pad(hours)}:${pad(minutes)}`
+  return trimmed
 }
 
-function pad(value: number): string {
-  return value.toString().padStart(2, '0')
-}
-
-function convertMinutesToDate(dateIso: string, minutes: number, timeZone: string): ZonedDate | null {
-  const { year, month, day } = parseIsoDateParts(dateIso)
-  const base = Date.UTC(year, month - 1, day, 0, 0, 0, 0)
-  const guess = new Date(base + minutes * 60_000)
-
-  let initialParts = extractParts(guess, timeZone)
-  let adjustedUtc = guess.getTime() - initialParts.offsetMinutes * 60_000
-  let adjustedDate = new Date(adjustedUtc)
-  let finalParts = extractParts(adjustedDate, timeZone)
-
-  if (finalParts.offsetMinutes !== initialParts.offsetMinutes) {
-    adjustedUtc = guess.getTime() - finalParts.offsetMinutes * 60_000
-    adjustedDate = new Date(adjustedUtc)
-    finalParts = extractParts(adjustedDate, timeZone)
-  }
-
-  if (!finalParts.year || !finalParts.month || !finalParts.day) {
-    return null
-  }
-
-  const iso = `${finalParts.year}-${finalParts.month}-${finalParts.day}T${finalParts.hour}:${finalParts.minute}:${finalParts.second}${formatOffset(finalParts.offsetMinutes)}`
-
-  return {
-    date: adjustedDate,
-    iso,
-    offsetMinutes: finalParts.offsetMinutes,
-  }
+function samePatterns(a: BlocklistPatternPayload[], b: BlocklistPatternPayload[]): boolean {
+  return a.map(blocklistKey).join('\n') === b.map(blocklistKey).join('\n')
 }
 
+/**
+ * Joins overlapping windows whose policies are identical. Windows with a
+ * different mode (or list) are kept apart even when they overlap: clients check
+ * every active window and block when any of them does, so during the overlap
+ * the allowlist wins and the blocklist window can only add blocks.
+ */
 function mergeWindows(windows: IntermediateWindow[]): IntermediateWindow[] {
   const sorted = [...windows].sort((a, b) => a.startUtc - b.startUtc)
   const merged: IntermediateWindow[] = []
@@ -477,28 +578,24 @@ function mergeWindows(windows: IntermediateWindow[]): IntermediateWindow[] {
       last.timeZone === window.timeZone &&
       last.redirectUrl === window.redirectUrl &&
       last.severity === window.severity &&
+      last.mode === window.mode &&
+      samePatterns(last.blocklist, window.blocklist) &&
+      samePatterns(last.allowlist, window.allowlist) &&
       window.startUtc <= last.endUtc
     ) {
       last.endUtc = Math.max(last.endUtc, window.endUtc)
       last.endDate = new Date(last.endUtc)
-      const parts = extractParts(last.endDate, last.timeZone)
-      last.endIso = `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${formatOffset(parts.offsetMinutes)}`
+      last.endIso = formatZonedIso(last.endDate, last.timeZone)
       for (const reason of window.reasons) {
         last.reasons.add(reason)
       }
+      for (const taskId of window.taskIds) {
+        last.taskIds.add(taskId)
+      }
     } else {
-      merged.push({ ...window })
+      merged.push({ ...window, reasons: new Set(window.reasons), taskIds: new Set(window.taskIds) })
     }
   }
 
   return merged
 }
-
-export function getDayBounds(dateIso: string, timeZone: string): { start: Date; end: Date } | null {
-  const start = convertMinutesToDate(dateIso, 0, timeZone)
-  const end = convertMinutesToDate(dateIso, MINUTES_IN_DAY, timeZone)
-  if (!start || !end) {
-    return null
-  }
-  return { start: start.date, end: end.date }
-}
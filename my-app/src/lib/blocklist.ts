@@ -0,0 +1,251 @@
+// src/lib/blocklist.ts
+// Server-managed URL blocklists. Entries belong to the user and optionally to
+// one task or tag; the windows API attaches the matching entries to each
+// window so every client enforces the same list.
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import type { Database } from "./database.types"
+import { isUuid, type ValidationResult } from "./http"
+import { supabaseBrowser } from "./supabase"
+
+export const BLOCKLIST_MATCH_TYPES = ["substring", "domain", "regex"] as const
+
+/**
+ * - substring: the URL contains the pattern
+ * - domain: the host is the pattern or one of its subdomains
+ * - regex: the pattern (JavaScript syntax, case-insensitive) matches the URL
+ */
+export type BlocklistMatchType = (typeof BLOCKLIST_MATCH_TYPES)[number]
+
+export const BLOCKLIST_MATCH_TYPE_LABELS: Record<BlocklistMatchType, string> = {
+  substring: "URLに含む",
+  domain: "ドメイン",
+  regex: "正規表現",
+}
+
+export type BlocklistEntry = {
+  id: string
+  pattern: string
+  matchType: BlocklistMatchType
+  /** Set when the entry only applies to this task's windows. */
+  taskId: string | null
+  /** Set when the entry only applies to windows of tasks with this tag. */
+  tagId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type BlocklistEntryInput = {
+  pattern: string
+  matchType: BlocklistMatchType
+  taskId?: string | null
+  tagId?: string | null
+}
+
+type BlocklistEntryRow = Omit<Database["public"]["Tables"]["blocklist_entries"]["Row"], "user_id">
+
+const BLOCKLIST_COLUMNS = "id, pattern, match_type, task_id, tag_id, created_at, updated_at"
+const MAX_PATTERN_LENGTH = 500
+const ENTRY_KEYS = new Set(["pattern", "matchType", "taskId", "tagId"])
+
+export function isBlocklistMatchType(value: unknown): value is BlocklistMatchType {
+  return typeof value === "string" && (BLOCKLIST_MATCH_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Canonical form of a pattern: domains are lower-cased host names without
+ * scheme, path or a leading "*.", regexes must compile.
+ */
+export function normalizeBlocklistPattern(
+  pattern: string,
+  matchType: BlocklistMatchType
+): { ok: true; value: string } | { ok: false; error: string } {
+  const trimmed = pattern.trim()
+  if (!trimmed) return { ok: false, error: "pattern must not be empty" }
+  if (trimmed.length > MAX_PATTERN_LENGTH) {
+    return { ok: false, error: `pattern must be at most ${MAX_PATTERN_LENGTH} characters` }
+  }
+
+  if (matchType === "domain") {
+    const host = trimmed
+      .toLowerCase()
+      .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+      .replace(/[/?#].*$/, "")
+      .replace(/:\d+$/, "")
+      .replace(/^\*\./, "")
+      .replace(/\.$/, "")
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host)) return { ok: false, error: "pattern must be a domain name" }
+    return { ok: true, value: host }
+  }
+
+  if (matchType === "regex") {
+    try {
+      new RegExp(trimmed, "i")
+    } catch (_error) {
+      return { ok: false, error: "pattern must be a valid regular expression" }
+    }
+  }
+  return { ok: true, value: trimmed }
+}
+
+/** Uses Postgres' invalid_parameter_value code so callers handle it like a database rejection. */
+function invalidInput(message: string) {
+  return Object.assign(new Error(message), { code: "22023" })
+}
+
+function mapBlocklistRow(row: BlocklistEntryRow): BlocklistEntry {
+  return {
+    id: row.id,
+    pattern: row.pattern,
+    matchType: row.match_type,
+    taskId: row.task_id,
+    tagId: row.tag_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+export async function listBlocklistEntries(client?: SupabaseClient<Database>): Promise<BlocklistEntry[]> {
+  const supabase = client ?? supabaseBrowser()
+  const { data, error } = await supabase
+    .from("blocklist_entries")
+    .select(BLOCKLIST_COLUMNS)
+    .order("created_at", { ascending: true })
+  if (error) throw error
+  return ((data ?? []) as BlocklistEntryRow[]).map(mapBlocklistRow)
+}
+
+export async function createBlocklistEntry(
+  input: BlocklistEntryInput,
+  client?: SupabaseClient<Database>
+): Promise<BlocklistEntry> {
+  const normalized = normalizeBlocklistPattern(input.pattern, input.matchType)
+  if (!normalized.ok) throw invalidInput(normalized.error)
+  if (input.taskId && input.tagId) throw invalidInput("an entry can target a task or a tag, not both")
+
+  const supabase = client ?? supabaseBrowser()
+  const { data, error } = await supabase
+    .from("blocklist_entries")
+    .insert({
+      pattern: normalized.value,
+      match_type: input.matchType,
+      task_id: input.taskId ?? null,
+      tag_id: input.tagId ?? null,
+    })
+    .select(BLOCKLIST_COLUMNS)
+    .single()
+  if (error) throw error
+  return mapBlocklistRow(data as BlocklistEntryRow)
+}
+
+/** Returns null when the entry does not exist (or belongs to someone else). */
+export async function updateBlocklistEntry(
+  id: string,
+  patch: Partial<BlocklistEntryInput>,
+  client?: SupabaseClient<Database>
+): Promise<BlocklistEntry | null> {
+  const supabase = client ?? supabaseBrowser()
+  const update: Database["public"]["Tables"]["blocklist_entries"]["Update"] = {}
+
+  if (patch.pattern !== undefined || patch.matchType !== undefined) {
+    let current: { pattern: string; match_type: BlocklistMatchType } | null = null
+    // A new match type re-validates the stored pattern and vice versa.
+    if (patch.matchType === undefined || patch.pattern === undefined) {
+      const { data, error } = await supabase
+        .from("blocklist_entries")
+        .select("pattern, match_type")
+        .eq("id", id)
+        .maybeSingle()
+      if (error) throw error
+      if (!data) return null
+      current = data
+    }
+    const pattern = patch.pattern ?? current?.pattern ?? ""
+    const matchType = patch.matchType ?? current?.match_type ?? "substring"
+    const normalized = normalizeBlocklistPattern(pattern, matchType)
+    if (!normalized.ok) throw invalidInput(normalized.error)
+    update.pattern = normalized.value
+    update.match_type = matchType
+  }
+  if (patch.taskId !== undefined) update.task_id = patch.taskId
+  if (patch.tagId !== undefined) update.tag_id = patch.tagId
+
+  const { data, error } = await supabase
+    .from("blocklist_entries")
+    .update(update)
+    .eq("id", id)
+    .select(BLOCKLIST_COLUMNS)
+    .maybeSingle()
+  if (error) throw error
+  return data ? mapBlocklistRow(data as BlocklistEntryRow) : null
+}
+
+/** Returns false when nothing was deleted. */
+export async function deleteBlocklistEntry(id: string, client?: SupabaseClient<Database>): Promise<boolean> {
+  const supabase = client ?? supabaseBrowser()
+  const { data, error } = await supabase.from("blocklist_entries").delete().eq("id", id).select("id")
+  if (error) throw error
+  return (data ?? []).length > 0
+}
+
+function validateTarget(value: unknown, key: string, errors: string[]): string | null | undefined {
+  if (value === undefined || value === null) return value
+  if (typeof value === "string" && isUuid(value)) return value
+  errors.push(`${key} must be a UUID or null`)
+  return undefined
+}
+
+function validateEntryFields(value: unknown, partial: boolean): ValidationResult<Partial<BlocklistEntryInput>> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ["body must be a JSON object"] }
+  }
+  const record = value as Record<string, unknown>
+  const errors: string[] = []
+  for (const key of Object.keys(record)) {
+    if (!ENTRY_KEYS.has(key)) errors.push(`${key} is not a recognised field`)
+  }
+
+  const result: Partial<BlocklistEntryInput> = {}
+  if (record.matchType !== undefined || !partial) {
+    if (isBlocklistMatchType(record.matchType)) result.matchType = record.matchType
+    else errors.push(`matchType must be one of ${BLOCKLIST_MATCH_TYPES.join(", ")}`)
+  }
+  if (record.pattern !== undefined || !partial) {
+    if (typeof record.pattern !== "string") {
+      errors.push("pattern must be a string")
+    } else {
+      const normalized = normalizeBlocklistPattern(record.pattern, result.matchType ?? "substring")
+      if (normalized.ok) result.pattern = normalized.value
+      else errors.push(normalized.error)
+    }
+  }
+  const taskId = validateTarget(record.taskId, "taskId", errors)
+  const tagId = validateTarget(record.tagId, "tagId", errors)
+  if (taskId !== undefined) result.taskId = taskId
+  if (tagId !== undefined) result.tagId = tagId
+  if (taskId && tagId) errors.push("taskId and tagId cannot both be set")
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: result }
+}
+
+export function validateBlocklistEntryInput(value: unknown): ValidationResult<BlocklistEntryInput> {
+  return validateEntryFields(value, false) as ValidationResult<BlocklistEntryInput>
+}
+
+export function validateBlocklistEntryPatch(value: unknown): ValidationResult<Partial<BlocklistEntryInput>> {
+  return validateEntryFields(value, true)
+}
+
+/**
+ * Maps database errors caused by the request (duplicates, foreign tasks or
+ * tags, invalid patterns) to a client error; anything else is unexpected.
+ */
+export function describeBlocklistError(error: unknown): { status: 400 | 409; message: string } | null {
+  const code = typeof error === "object" && error !== null ? (error as { code?: unknown }).code : undefined
+  if (code === "23505") return { status: 409, message: "Blocklist entry already exists" }
+  if (code === "23503" || code === "23514" || code === "42501") {
+    return { status: 400, message: "Unknown task or tag, or invalid target" }
+  }
+  if (code === "22023" && error instanceof Error) return { status: 400, message: error.message }
+  return null
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+
+import type { TaskEntity } from "./block-windows"
+import { buildCalendarFeed } from "./calendar-feed"
+import type { RecurrenceRule } from "./recurrence"
+
+const TOKYO = "Asia/Tokyo"
+const NOW = new Date("2025-11-05T00:00:00Z")
+
+function task(rule: Partial<RecurrenceRule>, overrides: Partial<TaskEntity> = {}): TaskEntity {
+  return {
+    id: "task-1",
+    title: "Run",
+    kind: "habit",
+    active: true,
+    periodRules: [
+      {
+        id: "rule-1",
+        cadence: "daily",
+        timesPerPeriod: 1,
+        period: "day",
+        daysOfWeek: null,
+        weekStart: 0,
+        intervalCount: null,
+        timezone: TOKYO,
+        ...rule,
+      },
+    ],
+    timeRules: [{ id: "slot-1", startTime: "07:00", endTime: "08:00", anytime: false }],
+    tags: [],
+    ...overrides,
+  }
+}
+
+const events = (feed: string) => feed.split("BEGIN:VEVENT").slice(1)
+
+describe("buildCalendarFeed", () => {
+  it("emits a timed event per day for daily rules", () => {
+    const feed = buildCalendarFeed([task({})], { fromIso: "2025-11-03", toIso: "2025-11-05", timeZone: TOKYO, now: NOW })
+    expect(events(feed)).toHaveLength(3)
+    expect(feed).toContain("DTSTART:20251102T220000Z")
+  })
+
+  it("emits one all-day event per weekly quota period", () => {
+    const weekly = task({ cadence: "weekly", period: "week", timesPerPeriod: 3 })
+    const totals = new Map([["task-1", new Map([["2025-11-03", 1], ["2025-11-04", 1]])]])
+    const feed = buildCalendarFeed([weekly], {
+      fromIso: "2025-11-03",
+      toIso: "2025-11-12",
+      timeZone: TOKYO,
+      dailyTotals: totals,
+      now: NOW,
+    })
+
+    const [first, second] = events(feed)
+    expect(events(feed)).toHaveLength(2)
+    expect(first).toContain("DTSTART;VALUE=DATE:20251102")
+    expect(first).toContain("DTEND;VALUE=DATE:20251109")
+    expect(first).toContain("進捗: 2/3 (週)")
+    expect(first).toContain("TRANSP:TRANSPARENT")
+    expect(second).toContain("DTSTART;VALUE=DATE:20251109")
+  })
+})
@@ -0,0 +1,212 @@
+import {
+  mapTaskRow,
+  resolveTaskTimeZone,
+  toMinutes,
+  type TaskEntity,
+  type TaskRow,
+  type TimeRuleEntity,
+} from './block-windows'
+import {
+  addDaysIso,
+  convertMinutesToDate,
+  determineProgressForDate,
+  isOvernightSlot,
+  MINUTES_IN_DAY,
+  occurrencesBetween,
+  sumTotalsBetween,
+  type DailyTotals,
+  type DateProgress,
+  type ProgressScope,
+} from './recurrence'
+
+export type CalendarFeedOptions = {
+  fromIso: string
+  toIso: string
+  timeZone: string
+  durationDefaultMinutes?: number
+  dailyTotals?: Map<string, DailyTotals>
+  calendarName?: string
+  /** Base URL for per-task links, e.g. "https://example.com/tasks/". */
+  taskUrlBase?: string
+  now?: Date
+}
+
+const PRODUCT_ID = '-//TaskWorks//Calendar Feed//JA'
+const UID_DOMAIN = 'taskworks'
+const MAX_LINE_OCTETS = 75
+
+const SCOPE_LABELS: Record<ProgressScope, string> = {
+  day: '当日',
+  week: '週',
+  month: '月',
+}
+
+const encoder = new TextEncoder()
+
+export function buildCalendarFeedFromRows(rows: TaskRow[], options: CalendarFeedOptions): string {
+  return buildCalendarFeed(rows.map(mapTaskRow), options)
+}
+
+/**
+ * Renders an iCalendar document with one VEVENT per timed slot of every
+ * occurrence in [fromIso, toIso]. Anytime slots have no place on a calendar
+ * grid and are left out. Weekly/monthly quotas can be met on any day of their
+ * period, so each period gets a single all-day event instead.
+ */
+export function buildCalendarFeed(tasks: TaskEntity[], options: CalendarFeedOptions): string {
+  const {
+    fromIso,
+    toIso,
+    timeZone,
+    durationDefaultMinutes = 60,
+    dailyTotals,
+    calendarName = 'TaskWorks',
+    taskUrlBase,
+    now = new Date(),
+  } = options
+
+  const stamp = formatUtc(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ]
+
+  for (const task of tasks) {
+    const slots = task.timeRules.filter((rule) => !rule.anytime && rule.startTime)
+    if (!slots.length) continue
+
+    const taskTimeZone = resolveTaskTimeZone(task, timeZone)
+    const totals = dailyTotals?.get(task.id)
+    const pushEvent = (event: { uid: string; start: string; end: string; progress: DateProgress }) => {
+      const { progress } = event
+      const done = progress.completed >= progress.target
+      const description = [
+        task.description,
+        `進捗: ${progress.completed}/${progress.target} (${SCOPE_LABELS[progress.scope]})`,
+      ]
+        .filter(Boolean)
+        .join('\n')
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        event.start,
+        event.end,
+        `SUMMARY:${escapeText(done ? `✓ ${task.title}` : task.title)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `CATEGORIES:${['TaskWorks', done ? '完了' : '未完了', ...task.tags].map(escapeText).join(',')}`,
+        'STATUS:CONFIRMED',
+        // A period-long event must not mark every day of the period as busy.
+        progress.scope === 'day' ? 'TRANSP:OPAQUE' : 'TRANSP:TRANSPARENT',
+      )
+      if (taskUrlBase) {
+        lines.push(`URL:${taskUrlBase}${encodeURIComponent(task.id)}`)
+      }
+      lines.push('END:VEVENT')
+    }
+
+    const emittedPeriods = new Set<string>()
+    for (const occurrence of occurrencesBetween(task, fromIso, toIso, taskTimeZone)) {
+      if (occurrence.scope !== 'day') {
+        if (emittedPeriods.has(occurrence.periodStart)) continue
+        emittedPeriods.add(occurrence.periodStart)
+        pushEvent({
+          uid: `${task.id}-${occurrence.scope}-${occurrence.periodStart}`,
+          start: `DTSTART;VALUE=DATE:${formatDate(occurrence.periodStart)}`,
+          end: `DTEND;VALUE=DATE:${formatDate(addDaysIso(occurrence.periodEnd, 1))}`,
+          progress: {
+            target: occurrence.target,
+            completed: sumTotalsBetween(totals, occurrence.periodStart, occurrence.periodEnd),
+            scope: occurrence.scope,
+            periodStart: occurrence.periodStart,
+            periodEnd: occurrence.periodEnd,
+          },
+        })
+        continue
+      }
+
+      const progress = determineProgressForDate(task, occurrence.date, totals)
+      for (const slot of slots) {
+        const range = resolveSlotRange(slot, occurrence.date, taskTimeZone, durationDefaultMinutes)
+        if (!range) continue
+        pushEvent({
+          uid: `${task.id}-${slot.id}-${occurrence.date}`,
+          start: `DTSTART:${formatUtc(range.start)}`,
+          end: `DTEND:${formatUtc(range.end)}`,
+          progress,
+        })
+      }
+    }
+  }
+
+  lines.push('END:VCALENDAR')
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
+
+function resolveSlotRange(
+  slot: TimeRuleEntity,
+  dateIso: string,
+  timeZone: string,
+  durationDefaultMinutes: number,
+): { start: Date; end: Date } | null {
+  if (!slot.startTime) return null
+  const startMinutes = toMinutes(slot.startTime)
+  // Overnight slots (e.g. 23:00-01:00) end on the next day.
+  const endMinutes = slot.endTime
+    ? toMinutes(slot.endTime) + (isOvernightSlot(slot.startTime, slot.endTime) ? MINUTES_IN_DAY : 0)
+    : startMinutes + durationDefaultMinutes
+  if (endMinutes <= startMinutes) return null
+
+  const start = convertMinutesToDate(dateIso, startMinutes, timeZone)
+  const end = convertMinutesToDate(dateIso, endMinutes, timeZone)
+  if (!start || !end) return null
+  return { start: start.date, end: end.date }
+}
+
+function formatDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '')
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space,
+// without splitting a multi-byte character.
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const segments: string[] = []
+  let current = ''
+  let currentOctets = 0
+  let limit = MAX_LINE_OCTETS
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    if (currentOctets + octets > limit) {
+      segments.push(current)
+      current = ''
+      currentOctets = 0
+      limit = MAX_LINE_OCTETS - 1
+    }
+    current += char
+    currentOctets += octets
+  }
+  segments.push(current)
+  return segments.join('\r\n ')
+}
@@ -37,6 +37,7 @@ export interface Database {
           updated_at?: string
           user_id?: string
         }
+        Relationships: []
       }
       task_defs: {
         Row: {
@@ -50,6 +51,10 @@ export interface Database {
           end_date: string | null
           created_at: string
           updated_at: string
+          block_redirect_url: string | null
+          block_severity: "strict" | "lenient" | null
+          block_mode: "blocklist" | "allowlist" | null
+          block_patterns: string[]
         }
         Insert: {
           id?: string
@@ -62,6 +67,10 @@ export interface Database {
           end_date?: string | null
           created_at?: string
           updated_at?: string
+          block_redirect_url?: string | null
+          block_severity?: "strict" | "lenient" | null
+          block_mode?: "blocklist" | "allowlist" | null
+          block_patterns?: string[]
         }
         Update: {
           id?: string
@@ -74,7 +83,12 @@ export interface Database {
           end_date?: string | null
           created_at?: string
           updated_at?: string
+          block_redirect_url?: string | null
+          block_severity?: "strict" | "lenient" | null
+          block_mode?: "blocklist" | "allowlist" | null
+          block_patterns?: string[]
         }
+        Relationships: []
       }
       period_rules: {
         Row: {
@@ -85,6 +99,7 @@ export interface Database {
           period: string
           days_of_week: number[] | null
           week_start: number | null
+          interval_count: number | null
           timezone: string
           created_at: string
         }
@@ -96,6 +111,7 @@ export interface Database {
           period?: string
           days_of_week?: number[] | null
           week_start?: number | null
+          interval_count?: number | null
           timezone?: string
           created_at?: string
         }
@@ -107,9 +123,19 @@ export interface Database {
           period?: string
           days_of_week?: number[] | null
           week_start?: number | null
+          interval_count?: number | null
           timezone?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "period_rules_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "task_defs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       time_rules: {
         Row: {
@@ -136,6 +162,15 @@ export interface Database {
           anytime?: boolean
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "time_rules_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "task_defs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       exec_logs: {
         Row: {
@@ -165,6 +200,15 @@ export interface Database {
           source?: string | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "exec_logs_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "task_defs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       tags: {
         Row: {
@@ -172,19 +216,32 @@ export interface Database {
           user_id: string
           name: string
           created_at: string
+          block_redirect_url: string | null
+          block_severity: "strict" | "lenient" | null
+          block_mode: "blocklist" | "allowlist" | null
+          block_patterns: string[]
         }
         Insert: {
           id?: string
           user_id?: string
           name: string
           created_at?: string
+          block_redirect_url?: string | null
+          block_severity?: "strict" | "lenient" | null
+          block_mode?: "blocklist" | "allowlist" | null
+          block_patterns?: string[]
         }
         Update: {
           id?: string
           user_id?: string
           name?: string
           created_at?: string
+          block_redirect_url?: string | null
+          block_severity?: "strict" | "lenient" | null
+          block_mode?: "blocklist" | "allowlist" | null
+          block_patterns?: string[]
         }
+        Relationships: []
       }
       task_tags: {
         Row: {
@@ -202,10 +259,203 @@ export interface Database {
           tag_id?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "task_tags_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "task_defs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_tokens: {
+        Row: {
+          id: string
+          user_id: string
+          label: string
+          token_prefix: string
+          token_hash: string
+          scopes: string[]
+          created_at: string
+          last_used_at: string | null
+          expires_at: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          label: string
+          token_prefix: string
+          token_hash: string
+          scopes?: string[]
+          created_at?: string
+          last_used_at?: string | null
+          expires_at?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          label?: string
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+      blocklist_entries: {
+        Row: {
+          id: string
+          user_id: string
+          pattern: string
+          match_type: "substring" | "domain" | "regex"
+          task_id: string | null
+          tag_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          pattern: string
+          match_type?: "substring" | "domain" | "regex"
+          task_id?: string | null
+          tag_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          pattern?: string
+          match_type?: "substring" | "domain" | "regex"
+          task_id?: string | null
+          tag_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocklist_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "task_defs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocklist_entries_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      block_events: {
+        Row: {
+          id: string
+          user_id: string
+          occurred_at: string
+          domain: string
+          pattern: string | null
+          match_type: "substring" | "domain" | "regex" | null
+          mode: "blocklist" | "allowlist"
+          reason: string | null
+          task_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          occurred_at: string
+          domain: string
+          pattern?: string | null
+          match_type?: "substring" | "domain" | "regex" | null
+          mode?: "blocklist" | "allowlist"
+          reason?: string | null
+          task_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          occurred_at?: string
+          domain?: string
+          pattern?: string | null
+          match_type?: "substring" | "domain" | "regex" | null
+          mode?: "blocklist" | "allowlist"
+          reason?: string | null
+          task_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "block_events_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "task_defs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      block_snoozes: {
+        Row: {
+          id: string
+          user_id: string
+          starts_at: string
+          ends_at: string
+          reason: string
+          severity: "strict" | "lenient" | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          starts_at?: string
+          ends_at: string
+          reason: string
+          severity?: "strict" | "lenient" | null
+          created_at?: string
+        }
+        Update: {
+          starts_at?: string
+          ends_at?: string
+          reason?: string
+          severity?: "strict" | "lenient" | null
+        }
+        Relationships: []
       }
     }
     Views: { [_ in never]: never }
-    Functions: { [_ in never]: never }
+    Functions: {
+      save_task: {
+        Args: {
+          payload: Json
+        }
+        Returns: string | null
+      }
+      authenticate_api_token: {
+        Args: {
+          p_token_hash: string
+          p_scope: string
+        }
+        Returns: string | null
+      }
+      create_block_snooze: {
+        Args: {
+          p_user_id: string
+          p_duration_minutes: number
+          p_reason: string
+          p_severity: string | null
+          p_time_zone: string
+        }
+        Returns: Database["public"]["Tables"]["block_snoozes"]["Row"]
+      }
+      revoke_api_token: {
+        Args: {
+          p_token_id: string
+        }
+        Returns: string | null
+      }
+    }
     Enums: { [_ in never]: never }
     CompositeTypes: { [_ in never]: never }
   }
@@ -1,10 +1,19 @@
 import type { SupabaseClient } from "@supabase/supabase-js"
 
-import { createMonthSkeleton, type DayRecord, type MonthSummary, type StreakStats } from "@/lib/date"
+import { createMonthSkeleton, toDateKey, type DayRecord, type MonthSummary, type StreakStats } from "@/lib/date"
 import type { Database } from "@/lib/database.types"
+import {
+  buildDailyTotals,
+  DEFAULT_TIMEZONE,
+  determineProgressForDate,
+  resolveTimeZone,
+  sumTotalsBetween,
+  type Cadence,
+  type DailyTotals,
+  type RecurrenceRule,
+} from "@/lib/recurrence"
 import { supabaseBrowser } from "@/lib/supabase"
 
-const DEFAULT_TIMEZONE = "Asia/Tokyo"
 const LOOKBACK_DAYS = 60
 const LOG_BUFFER_DAYS = 2
 
@@ -15,13 +24,15 @@ type HabitTaskRow = {
   kind: string
   start_date: string | null
   end_date: string | null
+  created_at: string
   period_rules: {
     id: string
-    cadence: "daily" | "weekly" | "monthly" | "interval"
+    cadence: Cadence
     times_per_period: number | null
     period: string
     days_of_week: number[] | null
     week_start: number | null
+    interval_count: number | null
     timezone: string | null
   }[] | null
 }
@@ -32,15 +43,8 @@ type HabitTask = {
   active: boolean
   startDate?: string
   endDate?: string
-  periodRules: Array<{
-    id: string
-    cadence: "daily" | "weekly" | "monthly" | "interval"
-    timesPerPeriod: number | null
-    period: string
-    daysOfWeek: number[] | null
-    weekStart: number | null
-    timezone: string
-  }>
+  createdAt: string
+  periodRules: Array<RecurrenceRule & { id: string }>
 }
 
 type DayStat = {
@@ -74,17 +78,19 @@ export type HabitDashboardResult = {
 export async function fetchHabitDashboardMonth(
   year: number,
   month: number,
-  options: { today?: Date; supabase?: SupabaseClient<Database> } = {}
+  options: { today?: Date; timeZone?: string; supabase?: SupabaseClient<Database> } = {}
 ): Promise<HabitDashboardResult> {
+  // Calendar days are local-midnight Dates keyed by their local components, so a
+  // server in another zone can pass the user's date as `today` with their `timeZone`.
   const today = normalizeDate(options.today ?? new Date())
   const isCurrentMonth = today.getFullYear() === year && today.getMonth() + 1 === month
 
-  const timeZone = resolveTimeZone()
-  const todayIso = formatLocalDateISO(today, timeZone)
+  const timeZone = options.timeZone ?? resolveTimeZone()
+  const todayIso = toDateKey(today)
 
   const monthStart = new Date(year, month - 1, 1)
   const monthEnd = new Date(year, month, 0)
-  const monthEndIso = formatLocalDateISO(monthEnd, timeZone)
+  const monthEndIso = toDateKey(monthEnd)
   const referenceDate = isCurrentMonth ? today : monthEnd
   const referenceIso = isCurrentMonth ? todayIso : monthEndIso
 
@@ -103,7 +109,7 @@ export async function fetchHabitDashboardMonth(
   const { data: taskRows, error: taskError } = await supabase
     .from("task_defs")
     .select(
-      "id, title, active, kind, start_date, end_date, period_rules ( id, cadence, times_per_period, period, days_of_week, week_start, timezone )"
+      "id, title, active, kind, start_date, end_date, created_at, period_rules ( id, cadence, times_per_period, period, days_of_week, week_start, interval_count, timezone )"
     )
     .eq("kind", "habit")
 
@@ -128,11 +134,10 @@ export async function fetchHabitDashboardMonth(
     throw logError
   }
 
-  const dayTotals = buildDayTotals(logRows ?? [], timeZone)
+  const dayTotals = buildDailyTotals(logRows ?? [], timeZone)
   const dayStats = computeDayStats({
     tasks: activeTasks,
     dayTotals,
-    timeZone,
     monthEnd,
     lookbackStart,
     referenceDate,
@@ -199,6 +204,7 @@ function mapHabitTask(row: HabitTaskRow): HabitTask {
     active: row.active,
     startDate: row.start_date ?? undefined,
     endDate: row.end_date ?? undefined,
+    createdAt: row.created_at,
     periodRules: (row.period_rules ?? []).map((rule) => ({
       id: rule.id,
       cadence: rule.cadence,
@@ -206,17 +212,17 @@ function mapHabitTask(row: HabitTaskRow): HabitTask {
       period: rule.period,
       daysOfWeek: rule.days_of_week ?? null,
       weekStart: rule.week_start ?? null,
+      intervalCount: rule.interval_count ?? null,
       timezone: rule.timezone ?? DEFAULT_TIMEZONE,
     })),
   }
 }
 
-type DayTotals = Map<string, Map<string, number>>
+type DayTotals = Map<string, DailyTotals>
 
 type ComputeStatsArgs = {
   tasks: HabitTask[]
   dayTotals: DayTotals
-  timeZone: string
   lookbackStart: Date
   monthEnd: Date
   referenceDate: Date
@@ -225,7 +231,6 @@ type ComputeStatsArgs = {
 function computeDayStats({
   tasks,
   dayTotals,
-  timeZone,
   monthEnd,
   lookbackStart,
   referenceDate,
@@ -238,9 +243,11 @@ function computeDayStats({
     endDate.setTime(refDate.getTime())
   }
 
+  const referenceIso = toDateKey(refDate)
+
   for (const date of iterateDates(lookbackStart, endDate)) {
-    const iso = formatLocalDateISO(date, timeZone)
-    const stat = computeDayStat(iso, tasks, dayTotals)
+    const iso = toDateKey(date)
+    const stat = computeDayStat(iso, tasks, dayTotals, referenceIso)
     stats[iso] = stat
   }
 
@@ -250,21 +257,29 @@ function computeDayStats({
 function computeDayStat(
   isoDate: string,
   tasks: HabitTask[],
-  dayTotals: DayTotals
+  dayTotals: DayTotals,
+  referenceIso: string
 ): DayStat {
-  const dayOfWeek = isoDayOfWeek(isoDate)
-  const totals = dayTotals.get(isoDate)
-
   let required = 0
   let completedTasks = 0
 
   for (const task of tasks) {
-    const target = determineTargetForDate(task, isoDate, dayOfWeek)
-    if (target <= 0) continue
+    const totals = dayTotals.get(task.id)
+    const progress = determineProgressForDate(task, isoDate, totals)
+    if (progress.target <= 0) continue
 
     required += 1
-    const finished = totals?.get(task.id) ?? 0
-    if (finished >= target) {
+    // Quota tasks count as satisfied on every day of the period once the
+    // period total (up to the reference day) reaches the quota.
+    const finished =
+      progress.scope === "day"
+        ? progress.completed
+        : sumTotalsBetween(
+            totals,
+            progress.periodStart,
+            progress.periodEnd < referenceIso ? progress.periodEnd : referenceIso
+          )
+    if (finished >= progress.target) {
       completedTasks += 1
     }
   }
@@ -273,23 +288,6 @@ function computeDayStat(
   return { required, completedTasks, done }
 }
 
-function buildDayTotals(rows: Array<{ task_id: string; happened_at: string; qty: number | null }>, timeZone: string): DayTotals {
-  const totals: DayTotals = new Map()
-  for (const row of rows) {
-    const iso = formatLocalDateISO(new Date(row.happened_at), timeZone)
-    const qty = row.qty === null || row.qty === undefined ? 1 : Number(row.qty)
-    if (!Number.isFinite(qty)) continue
-
-    if (!totals.has(iso)) {
-      totals.set(iso, new Map())
-    }
-    const taskTotals = totals.get(iso)!
-    const current = taskTotals.get(row.task_id) ?? 0
-    taskTotals.set(row.task_id, current + qty)
-  }
-  return totals
-}
-
 function computeStreakStats(dayStats: HabitDashboardDayStats, referenceIso: string): StreakStats {
   const entries = Object.entries(dayStats)
     .filter(([date]) => date <= referenceIso)
@@ -342,88 +340,3 @@ function normalizeDate(date: Date): Date {
   normalized.setHours(0, 0, 0, 0)
   return normalized
 }
-
-function resolveTimeZone(): string {
-  if (typeof Intl !== "undefined") {
-    try {
-      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone
-      if (tz) return tz
-    } catch (_error) {
-      // ignore
-    }
-  }
-  return DEFAULT_TIMEZONE
-}
-
-function formatLocalDateISO(date: Date, timeZone: string): string {
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  })
-  return formatter.format(date)
-}
-
-function isoDayOfWeek(iso: string): number {
-  const [y, m, d] = iso.split("-").map((value) => Number.parseInt(value, 10))
-  const utcDate = new Date(Date.UTC(y, m - 1, d))
-  return utcDate.getUTCDay()
-}
-
-function determineTargetForDate(task: HabitTask, isoDate: string, dayOfWeek: number): number {
-  if (!taskActiveOnDate(task, isoDate)) return 0
-  const rules = task.periodRules.length
-    ? task.periodRules
-    : [
-        {
-          id: `${task.id}-default`,
-          cadence: "daily" as const,
-          timesPerPeriod: 1,
-          period: "day",
-          daysOfWeek: null,
-          weekStart: null,
-          timezone: DEFAULT_TIMEZONE,
-        },
-      ]
-
-  let total = 0
-  for (const rule of rules) {
-    if (ruleMatchesDate(rule, isoDate, dayOfWeek)) {
-      total += rule.timesPerPeriod ?? 1
-    }
-  }
-  return total
-}
-
-function taskActiveOnDate(task: HabitTask, isoDate: string): boolean {
-  if (!task.active) return false
-  if (task.startDate && task.startDate > isoDate) return false
-  if (task.endDate && task.endDate < isoDate) return false
-  return true
-}
-
-function ruleMatchesDate(
-  rule: HabitTask["periodRules"][number],
-  isoDate: string,
-  dayOfWeek: number
-): boolean {
-  switch (rule.cadence) {
-    case "daily":
-      return true
-    case "weekly": {
-      const candidates = rule.daysOfWeek ?? []
-      if (!candidates.length) return true
-      return candidates.includes(dayOfWeek)
-    }
-    case "monthly": {
-      const day = Number.parseInt(isoDate.slice(-2), 10)
-      const days = rule.daysOfWeek ?? []
-      if (!days.length) return day === 1
-      return days.includes(day)
-    }
-    case "interval":
-    default:
-      return false
-  }
-}
@@ -0,0 +1,134 @@
+// Shared request/response helpers for the /api/v1 routes.
+
+const DEFAULT_METHODS = 'GET,OPTIONS'
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Outcome of validating a request body; `errors` are returned to the client as `details`. */
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] }
+
+export function jsonResponse(
+  payload: unknown,
+  status: number,
+  request: Request,
+  methods: string = DEFAULT_METHODS,
+): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      ...buildCorsHeaders(request, methods),
+    },
+  })
+}
+
+/**
+ * JSON response with a strong ETag over the body. Answers 304 without a body
+ * when the request's If-None-Match already names the current representation.
+ */
+export async function cacheableJsonResponse(
+  payload: unknown,
+  request: Request,
+  cacheControl: string,
+  methods: string = DEFAULT_METHODS,
+): Promise<Response> {
+  const body = JSON.stringify(payload)
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body))
+  const hash = Array.from(new Uint8Array(digest).slice(0, 16), (byte) => byte.toString(16).padStart(2, '0')).join('')
+  const etag = `"${hash}"`
+  const headers = {
+    ETag: etag,
+    'Cache-Control': cacheControl,
+    'Access-Control-Expose-Headers': 'ETag',
+    ...buildCorsHeaders(request, methods),
+  }
+
+  // Only concrete tags count: `*` would let a client that never fetched the
+  // resource get a 304 with nothing cached to fall back on.
+  const ifNoneMatch = request.headers.get('if-none-match')
+  const candidates = ifNoneMatch?.split(',').map((value) => value.trim().replace(/^W\//, '')) ?? []
+  if (candidates.includes(etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+  })
+}
+
+/** Parses a JSON request body, returning undefined when it is missing or malformed. */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch (_error) {
+    return undefined
+  }
+}
+
+export function buildCorsHeaders(request: Request, methods: string = DEFAULT_METHODS): Record<string, string> {
+  const origin = request.headers.get('origin')
+  if (origin) {
+    return {
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Methods': methods,
+      'Access-Control-Allow-Headers': 'Authorization,Content-Type,Accept,If-None-Match',
+      'Access-Control-Allow-Credentials': 'true',
+      Vary: 'Origin',
+    }
+  }
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': methods,
+    'Access-Control-Allow-Headers': 'Authorization,Content-Type,Accept,If-None-Match',
+  }
+}
+
+export function resolveDateIso(dateParam: string | null, timeZone: string): string {
+  if (dateParam && /^[0-9]{4}-[0-9]{2}-[0-9]{2}$/.test(dateParam)) {
+    return dateParam
+  }
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  })
+  return formatter.format(new Date())
+}
+
+export function resolveBoolean(value: string | null, fallback: boolean): boolean {
+  if (value === null) return fallback
+  const lowered = value.toLowerCase()
+  if (['true', '1', 'yes', 'y'].includes(lowered)) return true
+  if (['false', '0', 'no', 'n'].includes(lowered)) return false
+  return fallback
+}
+
+export function resolveNumber(value: string | null, fallback: number): number {
+  if (value === null) return fallback
+  const parsed = Number.parseFloat(value)
+  if (!Number.isFinite(parsed) || parsed < 0) return fallback
+  return parsed
+}
+
+export function sanitizeTimeZone(value: string | null): string {
+  if (!value) return ''
+  const trimmed = value.trim()
+  if (!trimmed) return ''
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: trimmed })
+    return trimmed
+  } catch (_error) {
+    return ''
+  }
+}
+
+export function extractBearerToken(authHeader: string | null): string | null {
+  if (!authHeader) return null
+  const match = authHeader.match(/^Bearer\s+(.+)$/i)
+  if (match && match[1]) return match[1].trim()
+  return authHeader.trim() || null
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
@@ -0,0 +1,108 @@
+// IndexedDB-backed cache used by storage.supabase.ts when Supabase is unreachable.
+// Keeps the last fetched task rows, recent exec_logs and an outbox of writes to replay.
+
+const DB_NAME = "taskworks-offline"
+const DB_VERSION = 1
+
+export type OfflineStoreName = "tasks" | "exec_logs" | "outbox"
+
+const STORE_KEYS: Record<OfflineStoreName, string> = {
+  tasks: "id",
+  exec_logs: "id",
+  outbox: "id",
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function isOfflineCacheAvailable(): boolean {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined"
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const [name, keyPath] of Object.entries(STORE_KEYS)) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath })
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch((error) => {
+    dbPromise = null
+    throw error
+  })
+  return dbPromise
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function runTransaction(
+  stores: OfflineStoreName | OfflineStoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(stores, mode)
+  work(tx)
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export async function readAll<T>(store: OfflineStoreName): Promise<T[]> {
+  const db = await openDatabase()
+  const request = db.transaction(store, "readonly").objectStore(store).getAll()
+  return (await promisifyRequest(request)) as T[]
+}
+
+export async function readOne<T>(store: OfflineStoreName, key: string): Promise<T | undefined> {
+  const db = await openDatabase()
+  const request = db.transaction(store, "readonly").objectStore(store).get(key)
+  return (await promisifyRequest(request)) as T | undefined
+}
+
+export async function writeMany<T>(store: OfflineStoreName, values: T[]): Promise<void> {
+  if (!values.length) return
+  await runTransaction(store, "readwrite", (tx) => {
+    const objectStore = tx.objectStore(store)
+    for (const value of values) objectStore.put(value)
+  })
+}
+
+/** Swaps the whole store for `values` in a single transaction. */
+export async function replaceAll<T>(store: OfflineStoreName, values: T[]): Promise<void> {
+  await runTransaction(store, "readwrite", (tx) => {
+    const objectStore = tx.objectStore(store)
+    objectStore.clear()
+    for (const value of values) objectStore.put(value)
+  })
+}
+
+export async function removeMany(store: OfflineStoreName, keys: string[]): Promise<void> {
+  if (!keys.length) return
+  await runTransaction(store, "readwrite", (tx) => {
+    const objectStore = tx.objectStore(store)
+    for (const key of keys) objectStore.delete(key)
+  })
+}
+
+/** Drops every cached row and pending write, e.g. when the user signs out. */
+export async function clearOfflineCache(): Promise<void> {
+  if (!isOfflineCacheAvailable()) return
+  const names = Object.keys(STORE_KEYS) as OfflineStoreName[]
+  await runTransaction(names, "readwrite", (tx) => {
+    for (const name of names) tx.objectStore(name).clear()
+  })
+}
@@ -0,0 +1,75 @@
+// Initial data for server-rendered pages. The session comes from the middleware
+// (`locals`); every loader degrades to nulls so the React islands fall back to
+// fetching in the browser.
+import type { User } from '@supabase/supabase-js'
+import type { AstroCookies } from 'astro'
+import { fetchHabitDashboardMonth, type HabitDashboardResult } from './habit-dashboard'
+import { sanitizeTimeZone } from './http'
+import { DEFAULT_TIMEZONE, formatLocalDateISO, parseIsoDateParts } from './recurrence'
+import { fetchTaskOverview, type TaskOverview } from './storage.supabase'
+
+/** Written by the Base layout so the server can compute "today" in the browser's zone. */
+export const TIME_ZONE_COOKIE = 'tz'
+
+type PageContext = {
+  locals: App.Locals
+  cookies: AstroCookies
+}
+
+export type OverviewPageData = {
+  user: User | null
+  overview: TaskOverview | null
+}
+
+export type DashboardPageData = OverviewPageData & {
+  habit: HabitDashboardResult | null
+}
+
+export function resolvePageTimeZone(cookies: AstroCookies): string {
+  return sanitizeTimeZone(cookies.get(TIME_ZONE_COOKIE)?.value ?? null) || DEFAULT_TIMEZONE
+}
+
+/** Today's calendar date in `timeZone`, as a local-midnight Date. */
+function calendarToday(timeZone: string): Date {
+  const { year, month, day } = parseIsoDateParts(formatLocalDateISO(new Date(), timeZone))
+  return new Date(year, month - 1, day)
+}
+
+export async function loadOverviewPageData({ locals, cookies }: PageContext): Promise<OverviewPageData> {
+  const { user, supabase } = locals
+  if (!user || !supabase) return { user, overview: null }
+
+  try {
+    const overview = await fetchTaskOverview({
+      timeZone: resolvePageTimeZone(cookies),
+      supabase,
+    })
+    return { user, overview }
+  } catch (error) {
+    console.error('[TaskWorks] Failed to load the task overview', error)
+    return { user, overview: null }
+  }
+}
+
+export async function loadDashboardPageData({ locals, cookies }: PageContext): Promise<DashboardPageData> {
+  const { user, supabase } = locals
+  if (!user || !supabase) return { user, overview: null, habit: null }
+
+  const timeZone = resolvePageTimeZone(cookies)
+  const today = calendarToday(timeZone)
+  const [overview, habit] = await Promise.all([
+    fetchTaskOverview({ timeZone, supabase }).catch((error) => {
+      console.error('[TaskWorks] Failed to load the task overview', error)
+      return null
+    }),
+    fetchHabitDashboardMonth(today.getFullYear(), today.getMonth() + 1, {
+      today,
+      timeZone,
+      supabase,
+    }).catch((error) => {
+      console.error('[TaskWorks] Failed to load the habit dashboard', error)
+      return null
+    }),
+  ])
+  return { user, overview, habit }
+}
@@ -0,0 +1,182 @@
+// Fans task and execution changes out to every mounted view: writes from this tab
+// (storage.supabase.ts events), other tabs (BroadcastChannel) and other devices
+// (Supabase Realtime on exec_logs / task_defs) all arrive through one subscription.
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js"
+
+import { supabaseBrowser } from "./supabase"
+import {
+  TASK_CHANGED_EVENT,
+  TASK_EXECUTED_EVENT,
+  type TaskChangedDetail,
+  type TaskExecutedDetail,
+} from "./storage.supabase"
+
+const BROADCAST_CHANNEL = "taskworks-sync"
+const REALTIME_CHANNEL = "taskworks-db"
+const DEDUPE_WINDOW_MS = 5000
+
+export type ChangeOrigin = "local" | "tab" | "remote"
+
+export type TaskChange =
+  | {
+      kind: "execution"
+      action: TaskExecutedDetail["action"]
+      taskId: string | null
+      executionId: string | null
+      origin: ChangeOrigin
+    }
+  | {
+      kind: "task"
+      action: TaskChangedDetail["action"]
+      taskId: string | null
+      origin: ChangeOrigin
+    }
+
+export type TaskChangeListener = (change: TaskChange) => void
+
+type Row = Record<string, unknown>
+
+const listeners = new Set<TaskChangeListener>()
+const recentKeys = new Map<string, number>()
+let disconnect: (() => void) | null = null
+
+function changeKey(change: TaskChange): string | null {
+  const id = change.kind === "execution" ? change.executionId : change.taskId
+  return id ? `${change.kind}:${id}:${change.action}` : null
+}
+
+/** The same write usually arrives twice (local event and Realtime); deliver it once. */
+function isDuplicate(change: TaskChange): boolean {
+  const key = changeKey(change)
+  if (!key) return false
+  const now = Date.now()
+  for (const [existing, seenAt] of recentKeys) {
+    if (now - seenAt > DEDUPE_WINDOW_MS) recentKeys.delete(existing)
+  }
+  if (recentKeys.has(key)) return true
+  recentKeys.set(key, now)
+  return false
+}
+
+function notify(change: TaskChange) {
+  if (isDuplicate(change)) return
+  for (const listener of listeners) {
+    try {
+      listener(change)
+    } catch (error) {
+      console.error("[realtime-sync] listener failed", error)
+    }
+  }
+}
+
+function readId(row: Row | undefined, column: string): string | null {
+  const value = row?.[column]
+  return typeof value === "string" ? value : null
+}
+
+function fromExecLogPayload(payload: RealtimePostgresChangesPayload<Row>): TaskChange {
+  const row = payload.eventType === "DELETE" ? payload.old : payload.new
+  return {
+    kind: "execution",
+    action: payload.eventType === "INSERT" ? "logged" : payload.eventType === "UPDATE" ? "updated" : "deleted",
+    taskId: readId(row, "task_id"),
+    executionId: readId(row, "id"),
+    origin: "remote",
+  }
+}
+
+function fromTaskDefPayload(payload: RealtimePostgresChangesPayload<Row>): TaskChange {
+  const row = payload.eventType === "DELETE" ? payload.old : payload.new
+  return {
+    kind: "task",
+    action: payload.eventType === "INSERT" ? "created" : payload.eventType === "UPDATE" ? "updated" : "deleted",
+    taskId: readId(row, "id"),
+    origin: "remote",
+  }
+}
+
+function connect(): () => void {
+  const broadcast = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(BROADCAST_CHANNEL) : null
+
+  const publishLocal = (change: TaskChange) => {
+    notify(change)
+    broadcast?.postMessage({ ...change, origin: "tab" })
+  }
+
+  const handleExecuted = (event: Event) => {
+    const detail = (event as CustomEvent<TaskExecutedDetail>).detail
+    publishLocal({
+      kind: "execution",
+      action: detail?.action ?? "logged",
+      taskId: detail?.taskId ?? null,
+      executionId: detail?.executionId ?? null,
+      origin: "local",
+    })
+  }
+
+  const handleTaskChanged = (event: Event) => {
+    const detail = (event as CustomEvent<TaskChangedDetail>).detail
+    publishLocal({
+      kind: "task",
+      action: detail?.action ?? "updated",
+      taskId: detail?.taskId ?? null,
+      origin: "local",
+    })
+  }
+
+  window.addEventListener(TASK_EXECUTED_EVENT, handleExecuted)
+  window.addEventListener(TASK_CHANGED_EVENT, handleTaskChanged)
+  if (broadcast) {
+    broadcast.onmessage = (event: MessageEvent<TaskChange>) => {
+      if (event.data && typeof event.data === "object") notify({ ...event.data, origin: "tab" })
+    }
+  }
+
+  let removeRealtime: (() => void) | null = null
+  try {
+    const supabase = supabaseBrowser()
+    const channel = supabase
+      .channel(REALTIME_CHANNEL)
+      .on("postgres_changes", { event: "*", schema: "public", table: "exec_logs" }, (payload) => {
+        notify(fromExecLogPayload(payload as RealtimePostgresChangesPayload<Row>))
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "task_defs" }, (payload) => {
+        notify(fromTaskDefPayload(payload as RealtimePostgresChangesPayload<Row>))
+      })
+      .subscribe((status, error) => {
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          console.warn(`[realtime-sync] Realtime subscription ${status}`, error)
+        }
+      })
+    removeRealtime = () => {
+      void supabase.removeChannel(channel)
+    }
+  } catch (error) {
+    console.warn("[realtime-sync] Realtime is unavailable; syncing tabs only", error)
+  }
+
+  return () => {
+    window.removeEventListener(TASK_EXECUTED_EVENT, handleExecuted)
+    window.removeEventListener(TASK_CHANGED_EVENT, handleTaskChanged)
+    broadcast?.close()
+    removeRealtime?.()
+    recentKeys.clear()
+  }
+}
+
+/**
+ * Registers a listener for task and execution changes from any source. The
+ * underlying channels are opened for the first listener and closed with the last.
+ */
+export function subscribeToTaskChanges(listener: TaskChangeListener): () => void {
+  if (typeof window === "undefined") return () => {}
+  listeners.add(listener)
+  if (!disconnect) disconnect = connect()
+  return () => {
+    listeners.delete(listener)
+    if (!listeners.size && disconnect) {
+      disconnect()
+      disconnect = null
+    }
+  }
+}
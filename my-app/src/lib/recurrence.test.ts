@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildDailyTotals,
+  convertMinutesToDate,
+  determineProgressForDate,
+  getDayBounds,
+  occurrencesBetween,
+  type RecurrenceRule,
+  type RecurrenceTask,
+} from "./recurrence"
+
+const NEW_YORK = "America/New_York"
+
+function rule(overrides: Partial<RecurrenceRule>): RecurrenceRule {
+  return {
+    cadence: "daily",
+    timesPerPeriod: 1,
+    period: "day",
+    daysOfWeek: null,
+    weekStart: 0,
+    intervalCount: null,
+    timezone: NEW_YORK,
+    ...overrides,
+  }
+}
+
+function task(periodRules: RecurrenceRule[], overrides: Partial<RecurrenceTask> = {}): RecurrenceTask {
+  return { id: "task-1", active: true, periodRules, ...overrides }
+}
+
+const dates = (occurrences: { date: string }[]) => occurrences.map((occurrence) => occurrence.date)
+
+describe("convertMinutesToDate", () => {
+  it("resolves a time skipped by spring-forward to the instant after the gap", () => {
+    expect(convertMinutesToDate("2025-03-09", 150, NEW_YORK)?.iso).toBe("2025-03-09T03:30:00-04:00")
+    expect(convertMinutesToDate("2025-03-09", 90, NEW_YORK)?.iso).toBe("2025-03-09T01:30:00-05:00")
+  })
+
+  it("resolves a time repeated by fall-back to its first occurrence", () => {
+    expect(convertMinutesToDate("2025-11-02", 90, NEW_YORK)?.iso).toBe("2025-11-02T01:30:00-04:00")
+    expect(convertMinutesToDate("2025-11-02", 150, NEW_YORK)?.iso).toBe("2025-11-02T02:30:00-05:00")
+  })
+
+  it("rolls minutes past midnight into the next day", () => {
+    expect(convertMinutesToDate("2024-02-28", 24 * 60 + 60, NEW_YORK)?.iso).toBe("2024-02-29T01:00:00-05:00")
+  })
+
+  it("gives DST days 23 and 25 hours", () => {
+    const spring = getDayBounds("2025-03-09", NEW_YORK)!
+    const fall = getDayBounds("2025-11-02", NEW_YORK)!
+    expect(spring.end.getTime() - spring.start.getTime()).toBe(23 * 3_600_000)
+    expect(fall.end.getTime() - fall.start.getTime()).toBe(25 * 3_600_000)
+  })
+})
+
+describe("occurrencesBetween across DST", () => {
+  it("keeps one daily occurrence per local date through spring-forward and fall-back", () => {
+    const daily = task([rule({})])
+    expect(dates(occurrencesBetween(daily, "2025-03-08", "2025-03-10"))).toEqual([
+      "2025-03-08",
+      "2025-03-09",
+      "2025-03-10",
+    ])
+    expect(dates(occurrencesBetween(daily, "2025-11-01", "2025-11-03"))).toEqual([
+      "2025-11-01",
+      "2025-11-02",
+      "2025-11-03",
+    ])
+  })
+
+  it("counts day intervals in calendar days, not 24-hour spans", () => {
+    const everyOtherDay = task([rule({ cadence: "interval", intervalCount: 2 })], { startDate: "2025-03-07" })
+    expect(dates(occurrencesBetween(everyOtherDay, "2025-03-07", "2025-03-13"))).toEqual([
+      "2025-03-07",
+      "2025-03-09",
+      "2025-03-11",
+      "2025-03-13",
+    ])
+  })
+
+  it("anchors intervals to the local creation date in the rule timezone", () => {
+    // 03:30 UTC on Nov 2 is still Nov 1 in New York (23:30 EDT).
+    const created = task([rule({ cadence: "interval", intervalCount: 7 })], { createdAt: "2025-11-02T03:30:00Z" })
+    expect(dates(occurrencesBetween(created, "2025-11-01", "2025-11-15"))).toEqual(["2025-11-01", "2025-11-08", "2025-11-15"])
+  })
+})
+
+describe("determineProgressForDate across DST", () => {
+  it("buckets completions by the local date on both sides of a transition", () => {
+    const totals = buildDailyTotals(
+      [
+        { task_id: "task-1", happened_at: "2025-03-09T06:59:00Z", qty: 1 }, // 01:59 EST, Mar 9
+        { task_id: "task-1", happened_at: "2025-03-09T07:00:00Z", qty: 1 }, // 03:00 EDT, Mar 9
+        { task_id: "task-1", happened_at: "2025-03-10T03:59:00Z", qty: 1 }, // 23:59 EDT, Mar 9
+        { task_id: "task-1", happened_at: "2025-11-02T05:30:00Z", qty: 1 }, // 01:30 EDT, Nov 2
+        { task_id: "task-1", happened_at: "2025-11-02T06:30:00Z", qty: 1 }, // 01:30 EST, Nov 2
+        { task_id: "task-1", happened_at: "2025-11-03T04:59:00Z", qty: 1 }, // 23:59 EST, Nov 2
+      ],
+      NEW_YORK
+    ).get("task-1")
+
+    const daily = task([rule({ timesPerPeriod: 3 })])
+    expect(determineProgressForDate(daily, "2025-03-09", totals)).toMatchObject({ target: 3, completed: 3, scope: "day" })
+    expect(determineProgressForDate(daily, "2025-11-02", totals)).toMatchObject({ target: 3, completed: 3, scope: "day" })
+  })
+
+  it("sums a weekly quota over a week that contains fall-back", () => {
+    const weekly = task([rule({ cadence: "weekly", period: "week", timesPerPeriod: 3 })])
+    const totals = new Map([
+      ["2025-11-02", 1],
+      ["2025-11-04", 1],
+      ["2025-11-09", 1],
+    ])
+    expect(determineProgressForDate(weekly, "2025-11-05", totals)).toEqual({
+      target: 3,
+      completed: 2,
+      scope: "week",
+      periodStart: "2025-11-02",
+      periodEnd: "2025-11-08",
+    })
+  })
+})
+
+describe("month ends", () => {
+  it("skips months without the rule's day (Jan 31 → Feb)", () => {
+    const onThe31st = task([rule({ cadence: "monthly", period: "month", daysOfWeek: [31] })])
+    expect(dates(occurrencesBetween(onThe31st, "2025-01-01", "2025-04-30"))).toEqual(["2025-01-31", "2025-03-31"])
+  })
+
+  it("moves monthly quota periods from January to February", () => {
+    const monthly = task([rule({ cadence: "monthly", period: "month", timesPerPeriod: 2 })])
+    const totals = new Map([
+      ["2025-01-31", 1],
+      ["2025-02-01", 1],
+    ])
+    expect(determineProgressForDate(monthly, "2025-01-31", totals)).toMatchObject({
+      completed: 1,
+      periodStart: "2025-01-01",
+      periodEnd: "2025-01-31",
+    })
+    expect(determineProgressForDate(monthly, "2025-02-01", totals)).toMatchObject({
+      completed: 1,
+      periodStart: "2025-02-01",
+      periodEnd: "2025-02-28",
+    })
+  })
+
+  it("counts day intervals from Jan 31 through the end of February", () => {
+    const monthlyish = task([rule({ cadence: "interval", intervalCount: 30 })], { startDate: "2025-01-31" })
+    expect(dates(occurrencesBetween(monthlyish, "2025-01-31", "2025-03-31"))).toEqual(["2025-01-31", "2025-03-02"])
+  })
+})
+
+describe("leap years", () => {
+  const onThe29th = task([rule({ cadence: "monthly", period: "month", daysOfWeek: [29] })])
+
+  it("includes Feb 29 in a leap year", () => {
+    expect(dates(occurrencesBetween(onThe29th, "2024-02-01", "2024-03-31"))).toEqual(["2024-02-29", "2024-03-29"])
+  })
+
+  it("has no Feb 29 in a non-leap year", () => {
+    expect(dates(occurrencesBetween(onThe29th, "2025-02-01", "2025-03-31"))).toEqual(["2025-03-29"])
+    expect(determineProgressForDate(onThe29th, "2025-02-28", undefined).target).toBe(0)
+  })
+
+  it("ends a February quota period on the 29th or the 28th", () => {
+    const monthly = task([rule({ cadence: "monthly", period: "month", timesPerPeriod: 4 })])
+    expect(determineProgressForDate(monthly, "2024-02-29", new Map([["2024-02-29", 1]]))).toMatchObject({
+      target: 4,
+      completed: 1,
+      periodEnd: "2024-02-29",
+    })
+    expect(determineProgressForDate(monthly, "2025-02-28", undefined).periodEnd).toBe("2025-02-28")
+  })
+
+  it("counts Feb 29 as a day in leap-year intervals", () => {
+    const every30Days = task([rule({ cadence: "interval", intervalCount: 30 })], { startDate: "2024-01-31" })
+    expect(dates(occurrencesBetween(every30Days, "2024-01-31", "2024-03-31"))).toEqual(["2024-01-31", "2024-03-01", "2024-03-31"])
+  })
+})
+
+describe("buildDailyTotals", () => {
+  it("buckets each task's logs in that task's time zone", () => {
+    const zones = new Map([["tokyo", "Asia/Tokyo"], ["new-york", NEW_YORK]])
+    const totals = buildDailyTotals(
+      [
+        { task_id: "tokyo", happened_at: "2025-11-04T20:00:00Z" },
+        { task_id: "new-york", happened_at: "2025-11-04T20:00:00Z" },
+      ],
+      (taskId) => zones.get(taskId) ?? "UTC",
+    )
+    expect(totals.get("tokyo")?.get("2025-11-05")).toBe(1)
+    expect(totals.get("new-york")?.get("2025-11-04")).toBe(1)
+  })
+})
@@ -0,0 +1,513 @@
+// src/lib/recurrence.ts
+// Pure recurrence engine shared by Today/TaskList, the habit dashboard and the
+// blocking windows API. Dates are plain "YYYY-MM-DD" strings in the task's
+// local calendar; conversion to instants happens only in the zoned helpers.
+
+export const DEFAULT_TIMEZONE = "Asia/Tokyo"
+export const MINUTES_IN_DAY = 24 * 60
+
+export type Cadence = "daily" | "weekly" | "monthly" | "interval"
+
+export type ProgressScope = "day" | "week" | "month"
+
+export type RecurrenceRule = {
+  cadence: Cadence
+  timesPerPeriod: number | null
+  period: string
+  daysOfWeek: number[] | null
+  weekStart: number | null
+  intervalCount: number | null
+  timezone: string
+}
+
+export type RecurrenceTask = {
+  id: string
+  active: boolean
+  startDate?: string
+  endDate?: string
+  createdAt?: string | number
+  periodRules: RecurrenceRule[]
+}
+
+export type DateProgress = {
+  target: number
+  completed: number
+  scope: ProgressScope
+  periodStart: string
+  periodEnd: string
+}
+
+export type Occurrence = {
+  date: string
+  target: number
+  scope: ProgressScope
+  periodStart: string
+  periodEnd: string
+}
+
+/** Per-date completion totals for a single task, keyed by "YYYY-MM-DD". */
+export type DailyTotals = Map<string, number>
+
+const ISO_DATE_PATTERN = /^[0-9]{4}-[0-9]{2}-[0-9]{2}$/
+
+export function isIsoDate(value: string | null | undefined): value is string {
+  return typeof value === "string" && ISO_DATE_PATTERN.test(value)
+}
+
+export function resolveTimeZone(): string {
+  if (typeof Intl !== "undefined") {
+    try {
+      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone
+      if (tz) return tz
+    } catch (err) {
+      console.warn("Failed to resolve Intl timezone", err)
+    }
+  }
+  return DEFAULT_TIMEZONE
+}
+
+export function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch (_error) {
+    return false
+  }
+}
+
+const dateFormatterCache = new Map<string, Intl.DateTimeFormat>()
+
+export function formatLocalDateISO(date: Date, timeZone: string): string {
+  let formatter = dateFormatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    })
+    dateFormatterCache.set(timeZone, formatter)
+  }
+  return formatter.format(date)
+}
+
+export function parseIsoDateParts(iso: string) {
+  const [yearStr, monthStr, dayStr] = iso.split("-")
+  return {
+    year: Number.parseInt(yearStr, 10),
+    month: Number.parseInt(monthStr, 10),
+    day: Number.parseInt(dayStr, 10),
+  }
+}
+
+export function isoDayOfWeek(iso: string): number {
+  const { year, month, day } = parseIsoDateParts(iso)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+export function addDaysIso(iso: string, days: number): string {
+  const { year, month, day } = parseIsoDateParts(iso)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10)
+}
+
+export function daysBetweenIso(fromIso: string, toIso: string): number {
+  const from = parseIsoDateParts(fromIso)
+  const to = parseIsoDateParts(toIso)
+  const fromUtc = Date.UTC(from.year, from.month - 1, from.day)
+  const toUtc = Date.UTC(to.year, to.month - 1, to.day)
+  return Math.round((toUtc - fromUtc) / 86_400_000)
+}
+
+export function* iterateIsoDates(fromIso: string, toIso: string): Generator<string> {
+  for (let iso = fromIso; iso <= toIso; iso = addDaysIso(iso, 1)) {
+    yield iso
+  }
+}
+
+/**
+ * True when a time slot ends on the next day (e.g. 23:00-01:00). Times are
+ * "HH:MM" or "HH:MM:SS"; an end equal to the start is not a valid slot.
+ */
+export function isOvernightSlot(startTime: string | null | undefined, endTime: string | null | undefined): boolean {
+  if (!startTime || !endTime) return false
+  return endTime.slice(0, 5) < startTime.slice(0, 5)
+}
+
+export function createDefaultRule(timezone = DEFAULT_TIMEZONE): RecurrenceRule {
+  return {
+    cadence: "daily",
+    timesPerPeriod: 1,
+    period: "day",
+    daysOfWeek: null,
+    weekStart: null,
+    intervalCount: null,
+    timezone,
+  }
+}
+
+export function defaultPeriodForCadence(cadence: Cadence): string {
+  switch (cadence) {
+    case "weekly":
+      return "week"
+    case "monthly":
+      return "month"
+    default:
+      return "day"
+  }
+}
+
+function effectiveRules(task: RecurrenceTask): RecurrenceRule[] {
+  return task.periodRules.length ? task.periodRules : [createDefaultRule()]
+}
+
+export function taskActiveOnDate(task: RecurrenceTask, isoDate: string): boolean {
+  if (!task.active) return false
+  if (task.startDate && task.startDate > isoDate) return false
+  if (task.endDate && task.endDate < isoDate) return false
+  return true
+}
+
+/**
+ * Day interval rules are counted from the task's start date, falling back to
+ * the local date the task was created.
+ */
+export function resolveIntervalAnchor(task: RecurrenceTask, rule: RecurrenceRule, fallbackIso: string): string {
+  if (task.startDate) return task.startDate
+  if (task.createdAt !== undefined) {
+    const created = new Date(task.createdAt)
+    if (!Number.isNaN(created.getTime())) {
+      return formatLocalDateISO(created, rule.timezone || DEFAULT_TIMEZONE)
+    }
+  }
+  return fallbackIso
+}
+
+function intervalMatchesDate(rule: RecurrenceRule, isoDate: string, anchorIso: string): boolean {
+  const count = rule.intervalCount && rule.intervalCount > 0 ? rule.intervalCount : 1
+  const elapsed = daysBetweenIso(anchorIso, isoDate)
+  if (elapsed < 0) return false
+  if (rule.period !== "week") return elapsed % count === 0
+  const days = rule.daysOfWeek ?? []
+  if (!days.length) return elapsed % (count * 7) === 0
+  const anchorOffset = (isoDayOfWeek(anchorIso) - (rule.weekStart ?? 0) + 7) % 7
+  const weekIndex = Math.floor((elapsed + anchorOffset) / 7)
+  return weekIndex % count === 0 && days.includes(isoDayOfWeek(isoDate))
+}
+
+/**
+ * Weekly and monthly rules without specific days are quotas: the target is
+ * spread over the whole week/month instead of being due on every day.
+ */
+export function isQuotaRule(rule: RecurrenceRule): boolean {
+  if (rule.cadence !== "weekly" && rule.cadence !== "monthly") return false
+  return !(rule.daysOfWeek ?? []).length
+}
+
+export function ruleMatchesDate(rule: RecurrenceRule, isoDate: string, anchorIso: string): boolean {
+  switch (rule.cadence) {
+    case "daily":
+      return true
+    case "weekly":
+      return (rule.daysOfWeek ?? []).includes(isoDayOfWeek(isoDate))
+    case "monthly":
+      return (rule.daysOfWeek ?? []).includes(parseIsoDateParts(isoDate).day)
+    case "interval":
+      return intervalMatchesDate(rule, isoDate, anchorIso)
+    default:
+      return false
+  }
+}
+
+export function quotaPeriodBounds(rule: RecurrenceRule, isoDate: string): { start: string; end: string } {
+  if (rule.cadence === "monthly") {
+    const { year, month } = parseIsoDateParts(isoDate)
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+    const prefix = isoDate.slice(0, 8)
+    return { start: `${prefix}01`, end: `${prefix}${String(lastDay).padStart(2, "0")}` }
+  }
+  const offset = (isoDayOfWeek(isoDate) - (rule.weekStart ?? 0) + 7) % 7
+  const start = addDaysIso(isoDate, -offset)
+  return { start, end: addDaysIso(start, 6) }
+}
+
+function ruleCount(rule: RecurrenceRule): number {
+  const count = rule.timesPerPeriod ?? 1
+  return Number.isFinite(count) ? count : 1
+}
+
+/** Target due on exactly this date from non-quota rules. */
+export function determineTargetForDate(task: RecurrenceTask, isoDate: string): number {
+  if (!taskActiveOnDate(task, isoDate)) return 0
+  let total = 0
+  for (const rule of effectiveRules(task)) {
+    if (isQuotaRule(rule)) continue
+    if (ruleMatchesDate(rule, isoDate, resolveIntervalAnchor(task, rule, isoDate))) {
+      total += ruleCount(rule)
+    }
+  }
+  return total
+}
+
+function resolveOccurrence(task: RecurrenceTask, isoDate: string): Occurrence | null {
+  if (!taskActiveOnDate(task, isoDate)) return null
+
+  const dayTarget = determineTargetForDate(task, isoDate)
+  if (dayTarget > 0) {
+    return { date: isoDate, target: dayTarget, scope: "day", periodStart: isoDate, periodEnd: isoDate }
+  }
+
+  const quotaRules = effectiveRules(task).filter(isQuotaRule)
+  if (!quotaRules.length) return null
+
+  const primary = quotaRules[0]
+  const target = quotaRules
+    .filter((rule) => rule.cadence === primary.cadence)
+    .reduce((sum, rule) => sum + ruleCount(rule), 0)
+  if (target <= 0) return null
+
+  const bounds = quotaPeriodBounds(primary, isoDate)
+  return {
+    date: isoDate,
+    target,
+    scope: primary.cadence === "monthly" ? "month" : "week",
+    periodStart: bounds.start,
+    periodEnd: bounds.end,
+  }
+}
+
+/**
+ * Canonical occurrence API: every local date in [fromIso, toIso] on which the
+ * task is due. Quota rules yield one occurrence per day of their period, all
+ * sharing the same period bounds and target. When `timeZone` is given it is
+ * used as the rule timezone for tasks whose rules do not carry one.
+ */
+export function occurrencesBetween(
+  task: RecurrenceTask,
+  fromIso: string,
+  toIso: string,
+  timeZone?: string
+): Occurrence[] {
+  if (!isIsoDate(fromIso) || !isIsoDate(toIso)) {
+    throw new Error("Invalid date format. Expected YYYY-MM-DD")
+  }
+  const subject: RecurrenceTask = timeZone
+    ? {
+        ...task,
+        periodRules: effectiveRules(task).map((rule) => ({ ...rule, timezone: rule.timezone || timeZone })),
+      }
+    : task
+
+  const occurrences: Occurrence[] = []
+  for (const iso of iterateIsoDates(fromIso, toIso)) {
+    const occurrence = resolveOccurrence(subject, iso)
+    if (occurrence) occurrences.push(occurrence)
+  }
+  return occurrences
+}
+
+export function sumTotalsBetween(totals: DailyTotals | undefined, fromIso: string, toIso: string): number {
+  if (!totals) return 0
+  let sum = 0
+  for (const [iso, qty] of totals) {
+    if (iso >= fromIso && iso <= toIso) sum += qty
+  }
+  return sum
+}
+
+/**
+ * Target and progress for one date. Quota progress counts completions from
+ * the start of the period up to `isoDate` (never later days).
+ */
+export function determineProgressForDate(
+  task: RecurrenceTask,
+  isoDate: string,
+  totals: DailyTotals | undefined
+): DateProgress {
+  const occurrence = resolveOccurrence(task, isoDate)
+  if (!occurrence) {
+    return {
+      target: 0,
+      completed: totals?.get(isoDate) ?? 0,
+      scope: "day",
+      periodStart: isoDate,
+      periodEnd: isoDate,
+    }
+  }
+  const completed =
+    occurrence.scope === "day"
+      ? totals?.get(isoDate) ?? 0
+      : sumTotalsBetween(totals, occurrence.periodStart, isoDate)
+  return {
+    target: occurrence.target,
+    completed,
+    scope: occurrence.scope,
+    periodStart: occurrence.periodStart,
+    periodEnd: occurrence.periodEnd,
+  }
+}
+
+/** Earliest date whose logs can affect progress on `isoDate` (start of the longest quota period). */
+export function progressLookbackStart(isoDate: string): string {
+  const monthStart = `${isoDate.slice(0, 8)}01`
+  const weekStart = addDaysIso(isoDate, -6)
+  return monthStart < weekStart ? monthStart : weekStart
+}
+
+export function parseQty(value: number | string | null | undefined): number {
+  const parsed = value === null || value === undefined ? 1 : Number(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+/**
+ * Groups execution logs into per-task, per-local-date totals. Pass a function
+ * to bucket each task's logs in that task's own time zone.
+ */
+export function buildDailyTotals(
+  rows: Array<{ task_id: string | null; happened_at: string; qty?: number | string | null }>,
+  timeZone: string | ((taskId: string) => string)
+): Map<string, DailyTotals> {
+  const totals = new Map<string, DailyTotals>()
+  for (const row of rows) {
+    if (!row.task_id) continue
+    const zone = typeof timeZone === "function" ? timeZone(row.task_id) : timeZone
+    const iso = formatLocalDateISO(new Date(row.happened_at), zone)
+    let taskTotals = totals.get(row.task_id)
+    if (!taskTotals) {
+      taskTotals = new Map()
+      totals.set(row.task_id, taskTotals)
+    }
+    taskTotals.set(iso, (taskTotals.get(iso) ?? 0) + parseQty(row.qty))
+  }
+  return totals
+}
+
+// ----- Zoned wall-clock conversion -----
+
+export type ZonedDate = {
+  date: Date
+  iso: string
+  offsetMinutes: number
+}
+
+type FormatterParts = {
+  year: string
+  month: string
+  day: string
+  hour: string
+  minute: string
+  second: string
+  offsetMinutes: number
+}
+
+const zonedFormatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedFormatter(timeZone: string) {
+  let formatter = zonedFormatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour12: false,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      timeZoneName: "shortOffset",
+    })
+    zonedFormatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+function extractParts(date: Date, timeZone: string): FormatterParts {
+  const parts = getZonedFormatter(timeZone).formatToParts(date)
+  const result: Partial<FormatterParts> = {}
+  let offset = "GMT+00"
+  for (const part of parts) {
+    if (part.type === "literal") continue
+    if (part.type === "timeZoneName") {
+      offset = part.value
+      continue
+    }
+    ;(result as Record<string, string>)[part.type] = part.value
+  }
+  // Some engines render midnight as "24" with hour12: false.
+  const hour = result.hour === "24" ? "00" : result.hour!
+  return {
+    year: result.year!,
+    month: result.month!,
+    day: result.day!,
+    hour,
+    minute: result.minute!,
+    second: result.second ?? "00",
+    offsetMinutes: parseOffsetMinutes(offset),
+  }
+}
+
+function parseOffsetMinutes(value: string): number {
+  const match = value.match(/([+-])(\d{1,2})(?::?(\d{2}))?$/)
+  if (!match) return 0
+  const sign = match[1] === "-" ? -1 : 1
+  const hours = Number.parseInt(match[2], 10)
+  const minutes = match[3] ? Number.parseInt(match[3], 10) : 0
+  return sign * (hours * 60 + minutes)
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0")
+}
+
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes >= 0 ? "+" : "-"
+  const absolute = Math.abs(offsetMinutes)
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+}
+
+/** RFC 3339 timestamp of `date` as seen on the wall clock of `timeZone`. */
+export function formatZonedIso(date: Date, timeZone: string): string {
+  const parts = extractParts(date, timeZone)
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${formatOffset(parts.offsetMinutes)}`
+}
+
+/**
+ * Instant at `minutes` past local midnight of `dateIso` in `timeZone`.
+ * Minutes may exceed a day (e.g. 1500 = 01:00 the next day). Wall-clock times
+ * skipped by a DST gap resolve to the instant after the gap (02:30 on a
+ * spring-forward night becomes 03:30); times repeated when clocks fall back
+ * resolve to their first occurrence.
+ */
+export function convertMinutesToDate(dateIso: string, minutes: number, timeZone: string): ZonedDate | null {
+  const { year, month, day } = parseIsoDateParts(dateIso)
+  const wallClock = Date.UTC(year, month - 1, day, 0, 0, 0, 0) + minutes * 60_000
+
+  // Offsets in effect half a day either side cover any transition near the wall-clock time.
+  const earlierOffset = extractParts(new Date(wallClock - MINUTES_IN_DAY * 30_000), timeZone).offsetMinutes
+  const laterOffset = extractParts(new Date(wallClock + MINUTES_IN_DAY * 30_000), timeZone).offsetMinutes
+  const candidates = [earlierOffset, laterOffset].map((offset) => new Date(wallClock - offset * 60_000))
+  const valid = candidates.filter(
+    (candidate, index) => extractParts(candidate, timeZone).offsetMinutes === [earlierOffset, laterOffset][index]
+  )
+  // No valid candidate means the time falls in a gap: the pre-transition offset lands after it.
+  const adjustedDate = valid[0] ?? candidates[0]
+  const finalParts = extractParts(adjustedDate, timeZone)
+
+  if (!finalParts.year || !finalParts.month || !finalParts.day) {
+    return null
+  }
+
+  return {
+    date: adjustedDate,
+    iso: `${finalParts.year}-${finalParts.month}-${finalParts.day}T${finalParts.hour}:${finalParts.minute}:${finalParts.second}${formatOffset(finalParts.offsetMinutes)}`,
+    offsetMinutes: finalParts.offsetMinutes,
+  }
+}
+
+export function getDayBounds(dateIso: string, timeZone: string): { start: Date; end: Date } | null {
+  const start = convertMinutesToDate(dateIso, 0, timeZone)
+  const end = convertMinutesToDate(dateIso, MINUTES_IN_DAY, timeZone)
+  if (!start || !end) {
+    return null
+  }
+  return { start: start.date, end: end.date }
+}
@@ -0,0 +1,325 @@
+// src/lib/rrule.ts
+// Conversion between period rules and RFC 5545 RRULE strings. Only the subset
+// that maps onto TaskWorks cadences is supported; everything else is reported
+// back as an error message instead of being silently approximated.
+
+import type { PeriodRuleInput } from "./storage.supabase"
+import {
+  addDaysIso,
+  defaultPeriodForCadence,
+  isIsoDate,
+  occurrencesBetween,
+  parseIsoDateParts,
+  type RecurrenceRule,
+} from "./recurrence"
+
+export type RRuleResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+export type RRuleSchedule = {
+  rule: PeriodRuleInput
+  /** From DTSTART, or the fallback start date when COUNT needed one. */
+  startDate?: string
+  /** Last local date covered by UNTIL or COUNT. */
+  endDate?: string
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const
+const SUPPORTED_PARTS = new Set(["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "WKST", "COUNT", "UNTIL"])
+// Upper bound when resolving COUNT into an end date.
+const COUNT_SEARCH_YEARS = 20
+
+function fail<T>(error: string): RRuleResult<T> {
+  return { ok: false, error }
+}
+
+function compactDate(iso: string): string {
+  return iso.replaceAll("-", "")
+}
+
+function formatDays(days: number[]): string {
+  return [...new Set(days)]
+    .sort((a, b) => a - b)
+    .map((day) => WEEKDAY_CODES[day])
+    .join(",")
+}
+
+/**
+ * Serialises a period rule as an RRULE value (without the "RRULE:" prefix).
+ * `until` is the task end date, if any.
+ */
+export function formatRRule(rule: PeriodRuleInput, options?: { until?: string }): RRuleResult<string> {
+  const times = rule.timesPerPeriod ?? 1
+  if (times !== 1) {
+    return fail("RRULEでは1回を超える目標回数を表現できません")
+  }
+
+  const days = rule.daysOfWeek ?? []
+  const parts: string[] = []
+
+  switch (rule.cadence) {
+    case "daily":
+      parts.push("FREQ=DAILY")
+      break
+    case "weekly":
+      if (!days.length) {
+        return fail("曜日自由の週次ルールはRRULEで表現できません")
+      }
+      parts.push("FREQ=WEEKLY", `BYDAY=${formatDays(days)}`)
+      if (rule.weekStart !== null && rule.weekStart !== undefined && rule.weekStart !== 1) {
+        parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`)
+      }
+      break
+    case "monthly":
+      if (!days.length) {
+        return fail("日付自由の月次ルールはRRULEで表現できません")
+      }
+      parts.push("FREQ=MONTHLY", `BYMONTHDAY=${[...new Set(days)].sort((a, b) => a - b).join(",")}`)
+      break
+    case "interval": {
+      const count = rule.intervalCount && rule.intervalCount > 0 ? rule.intervalCount : 1
+      if (rule.period === "week") {
+        parts.push("FREQ=WEEKLY")
+        if (count > 1) parts.push(`INTERVAL=${count}`)
+        if (days.length) {
+          // Week boundaries decide which weeks are skipped, so always state them.
+          parts.push(`BYDAY=${formatDays(days)}`, `WKST=${WEEKDAY_CODES[rule.weekStart ?? 0]}`)
+        }
+      } else {
+        parts.push("FREQ=DAILY")
+        if (count > 1) parts.push(`INTERVAL=${count}`)
+      }
+      break
+    }
+    default:
+      return fail("未対応の頻度です")
+  }
+
+  if (options?.until) {
+    if (!isIsoDate(options.until)) {
+      return fail("終了日はYYYY-MM-DD形式で指定してください")
+    }
+    parts.push(`UNTIL=${compactDate(options.until)}`)
+  }
+
+  return { ok: true, value: parts.join(";") }
+}
+
+function parseDateValue(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/)
+  if (!match) return null
+  const iso = `${match[1]}-${match[2]}-${match[3]}`
+  const { month, day } = parseIsoDateParts(iso)
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  return iso
+}
+
+function parsePositiveInteger(value: string): number | null {
+  if (!/^\d+$/.test(value)) return null
+  const parsed = Number.parseInt(value, 10)
+  return parsed >= 1 ? parsed : null
+}
+
+function parseWeekday(value: string): number | null {
+  const index = WEEKDAY_CODES.indexOf(value as (typeof WEEKDAY_CODES)[number])
+  return index === -1 ? null : index
+}
+
+function splitRRuleText(text: string): RRuleResult<{ rrule: string; dtstart?: string }> {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  let rrule: string | null = null
+  let dtstart: string | undefined
+  for (const line of lines) {
+    const upper = line.toUpperCase()
+    if (upper.startsWith("DTSTART")) {
+      const value = parseDateValue(upper.slice(upper.lastIndexOf(":") + 1))
+      if (!value) return fail("DTSTARTの日付を解釈できません")
+      dtstart = value
+      continue
+    }
+    if (upper.startsWith("EXDATE") || upper.startsWith("RDATE") || upper.startsWith("EXRULE")) {
+      return fail(`${upper.split(/[:;]/)[0]} には対応していません`)
+    }
+    const body = upper.startsWith("RRULE:") ? upper.slice("RRULE:".length) : upper
+    if (rrule !== null) return fail("RRULEは1つだけ指定してください")
+    rrule = body
+  }
+
+  if (!rrule) return fail("RRULEが空です")
+  return { ok: true, value: { rrule, dtstart } }
+}
+
+/** Date of the `count`-th occurrence of `rule` counted from `startIso`, or null if it never arrives. */
+export function resolveCountEndDate(rule: PeriodRuleInput, startIso: string, count: number): string | null {
+  const recurrence: RecurrenceRule = {
+    cadence: rule.cadence,
+    timesPerPeriod: rule.timesPerPeriod ?? 1,
+    period: rule.period ?? defaultPeriodForCadence(rule.cadence),
+    daysOfWeek: rule.daysOfWeek ?? null,
+    weekStart: rule.weekStart ?? null,
+    intervalCount: rule.intervalCount ?? null,
+    timezone: rule.timezone ?? "",
+  }
+  const task = { id: "rrule", active: true, startDate: startIso, periodRules: [recurrence] }
+
+  let remaining = count
+  let fromIso = startIso
+  for (let year = 0; year < COUNT_SEARCH_YEARS; year += 1) {
+    const toIso = addDaysIso(fromIso, 365)
+    for (const occurrence of occurrencesBetween(task, fromIso, toIso)) {
+      remaining -= 1
+      if (remaining === 0) return occurrence.date
+    }
+    fromIso = addDaysIso(toIso, 1)
+  }
+  return null
+}
+
+/**
+ * Parses an RRULE (optionally with "RRULE:" prefix and a DTSTART line) into a
+ * period rule. `startDate` is used when the rule needs an anchor that the text
+ * does not provide (COUNT, or MONTHLY without BYMONTHDAY).
+ */
+export function parseRRule(text: string, options?: { startDate?: string }): RRuleResult<RRuleSchedule> {
+  const split = splitRRuleText(text)
+  if (!split.ok) return split
+  const { rrule, dtstart } = split.value
+
+  const values = new Map<string, string>()
+  for (const part of rrule.split(";").filter(Boolean)) {
+    const [key, value, ...rest] = part.split("=")
+    if (!key || value === undefined || rest.length) {
+      return fail(`RRULEの形式が正しくありません: ${part}`)
+    }
+    if (!SUPPORTED_PARTS.has(key)) {
+      return fail(`${key} には対応していません`)
+    }
+    if (values.has(key)) {
+      return fail(`${key} が重複しています`)
+    }
+    values.set(key, value)
+  }
+
+  const freq = values.get("FREQ")
+  if (!freq) return fail("FREQ を指定してください")
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    return fail(`FREQ=${freq} には対応していません (DAILY / WEEKLY / MONTHLY のみ)`)
+  }
+
+  const intervalValue = values.get("INTERVAL")
+  const interval = intervalValue === undefined ? 1 : parsePositiveInteger(intervalValue)
+  if (interval === null) return fail("INTERVAL は1以上の整数で指定してください")
+
+  let weekStart = 1
+  const wkst = values.get("WKST")
+  if (wkst !== undefined) {
+    const parsed = parseWeekday(wkst)
+    if (parsed === null) return fail(`WKST=${wkst} を解釈できません`)
+    weekStart = parsed
+  }
+
+  let byDay: number[] = []
+  const byDayValue = values.get("BYDAY")
+  if (byDayValue !== undefined) {
+    for (const token of byDayValue.split(",")) {
+      const parsed = parseWeekday(token)
+      if (parsed === null) {
+        return /^[+-]?\d/.test(token)
+          ? fail(`「第n週の曜日」指定 (${token}) には対応していません`)
+          : fail(`BYDAY=${token} を解釈できません`)
+      }
+      byDay.push(parsed)
+    }
+    byDay = [...new Set(byDay)].sort((a, b) => a - b)
+  }
+
+  let byMonthDay: number[] = []
+  const byMonthDayValue = values.get("BYMONTHDAY")
+  if (byMonthDayValue !== undefined) {
+    for (const token of byMonthDayValue.split(",")) {
+      const parsed = parsePositiveInteger(token)
+      if (parsed === null || parsed > 31) {
+        return fail(`BYMONTHDAY=${token} には対応していません (1〜31のみ)`)
+      }
+      byMonthDay.push(parsed)
+    }
+    byMonthDay = [...new Set(byMonthDay)].sort((a, b) => a - b)
+  }
+
+  const countValue = values.get("COUNT")
+  const untilValue = values.get("UNTIL")
+  if (countValue !== undefined && untilValue !== undefined) {
+    return fail("COUNT と UNTIL は同時に指定できません")
+  }
+
+  const anchor = dtstart ?? options?.startDate
+  let rule: PeriodRuleInput
+
+  if (freq === "DAILY") {
+    if (byMonthDay.length) return fail("FREQ=DAILY と BYMONTHDAY の組み合わせには対応していません")
+    if (byDay.length && interval > 1) {
+      return fail("曜日指定付きの日単位インターバルには対応していません")
+    }
+    rule = byDay.length
+      ? { cadence: "weekly", daysOfWeek: byDay, weekStart }
+      : interval > 1
+      ? { cadence: "interval", period: "day", intervalCount: interval }
+      : { cadence: "daily" }
+  } else if (freq === "WEEKLY") {
+    if (byMonthDay.length) return fail("FREQ=WEEKLY と BYMONTHDAY の組み合わせには対応していません")
+    // Without BYDAY the weekday comes from the start date, which is exactly
+    // how week-unit interval rules are anchored.
+    rule =
+      interval === 1 && byDay.length
+        ? { cadence: "weekly", daysOfWeek: byDay, weekStart }
+        : {
+            cadence: "interval",
+            period: "week",
+            intervalCount: interval,
+            daysOfWeek: byDay.length ? byDay : null,
+            weekStart,
+          }
+  } else {
+    if (byDay.length) return fail("曜日指定の月次ルールには対応していません")
+    if (interval > 1) return fail("2か月以上の間隔の月次ルールには対応していません")
+    if (!byMonthDay.length) {
+      if (!anchor) return fail("BYMONTHDAY か DTSTART を指定してください")
+      byMonthDay = [parseIsoDateParts(anchor).day]
+    }
+    rule = { cadence: "monthly", daysOfWeek: byMonthDay }
+  }
+
+  rule = {
+    ...rule,
+    timesPerPeriod: 1,
+    period: rule.period ?? defaultPeriodForCadence(rule.cadence),
+  }
+
+  const schedule: RRuleSchedule = { rule }
+  if (dtstart) schedule.startDate = dtstart
+
+  if (untilValue !== undefined) {
+    const until = parseDateValue(untilValue)
+    if (!until) return fail("UNTIL の日付を解釈できません")
+    schedule.endDate = until
+  }
+
+  if (countValue !== undefined) {
+    const count = parsePositiveInteger(countValue)
+    if (count === null) return fail("COUNT は1以上の整数で指定してください")
+    if (!anchor) return fail("COUNT を使う場合は開始日 (DTSTART) が必要です")
+    const endDate = resolveCountEndDate(rule, anchor, count)
+    if (!endDate) return fail(`COUNT=${count} の最終日を求められませんでした`)
+    schedule.startDate = anchor
+    schedule.endDate = endDate
+  }
+
+  if (schedule.startDate && schedule.endDate && schedule.endDate < schedule.startDate) {
+    return fail("UNTIL が開始日より前になっています")
+  }
+
+  return { ok: true, value: schedule }
+}
@@ -0,0 +1,127 @@
+// src/lib/snoozes.ts
+// Temporary unblocks ("snoozes"). A snooze lifts every blocking window for a
+// few minutes and is kept, with its reason, as an accountability log.
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import type { BlockSeverity } from "./block-windows"
+import type { Database } from "./database.types"
+import type { ValidationResult } from "./http"
+import { supabaseBrowser } from "./supabase"
+
+export const MAX_SNOOZE_MINUTES = 60
+/**
+ * Snoozes that interrupt a strict window are limited per day; lenient ones are
+ * not. create_block_snooze enforces the same number in the database.
+ */
+export const MAX_STRICT_SNOOZES_PER_DAY = 3
+/** SQLSTATE create_block_snooze raises once the day's strict snoozes are used up. */
+const STRICT_LIMIT_ERRCODE = "TW429"
+const MAX_REASON_LENGTH = 500
+const SNOOZE_KEYS = new Set(["durationMinutes", "reason"])
+
+export type BlockSnooze = {
+  id: string
+  startsAt: string
+  endsAt: string
+  reason: string
+  /** Highest severity among the windows active when the snooze started; null when none was. */
+  severity: BlockSeverity | null
+  createdAt: string
+}
+
+export type BlockSnoozeInput = {
+  durationMinutes: number
+  reason: string
+}
+
+type BlockSnoozeRow = Omit<Database["public"]["Tables"]["block_snoozes"]["Row"], "user_id">
+
+const SNOOZE_COLUMNS = "id, starts_at, ends_at, reason, severity, created_at"
+
+function mapSnoozeRow(row: BlockSnoozeRow): BlockSnooze {
+  return {
+    id: row.id,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    reason: row.reason,
+    severity: row.severity,
+    createdAt: row.created_at,
+  }
+}
+
+/** Snoozes overlapping [from, to), newest first. Both bounds are optional ISO timestamps. */
+export async function listSnoozes(
+  range: { from?: string; to?: string } = {},
+  client?: SupabaseClient<Database>
+): Promise<BlockSnooze[]> {
+  const supabase = client ?? supabaseBrowser()
+  let query = supabase.from("block_snoozes").select(SNOOZE_COLUMNS).order("starts_at", { ascending: false })
+  if (range.from) query = query.gt("ends_at", range.from)
+  if (range.to) query = query.lt("starts_at", range.to)
+  const { data, error } = await query
+  if (error) throw error
+  return ((data ?? []) as BlockSnoozeRow[]).map(mapSnoozeRow)
+}
+
+/** Strict snoozes started in [from, to), for the daily limit. */
+export async function countStrictSnoozes(
+  range: { from: string; to: string },
+  client?: SupabaseClient<Database>
+): Promise<number> {
+  const supabase = client ?? supabaseBrowser()
+  const { count, error } = await supabase
+    .from("block_snoozes")
+    .select("id", { count: "exact", head: true })
+    .eq("severity", "strict")
+    .gte("starts_at", range.from)
+    .lt("starts_at", range.to)
+  if (error) throw error
+  return count ?? 0
+}
+
+/**
+ * Starts a snooze now for `userId`. The database checks the daily strict limit
+ * (in `timeZone`) under a per-user lock; see isStrictSnoozeLimitError. Only the
+ * service role may call create_block_snooze, since it trusts `severity`.
+ */
+export async function createSnooze(
+  input: BlockSnoozeInput & { userId: string; severity: BlockSeverity | null; timeZone: string },
+  serviceClient: SupabaseClient<Database>
+): Promise<BlockSnooze> {
+  const { data, error } = await serviceClient.rpc("create_block_snooze", {
+    p_user_id: input.userId,
+    p_duration_minutes: input.durationMinutes,
+    p_reason: input.reason,
+    p_severity: input.severity,
+    p_time_zone: input.timeZone,
+  })
+  if (error) throw error
+  return mapSnoozeRow(data)
+}
+
+export function isStrictSnoozeLimitError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: unknown }).code === STRICT_LIMIT_ERRCODE
+}
+
+export function validateSnoozeInput(value: unknown): ValidationResult<BlockSnoozeInput> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ["body must be a JSON object"] }
+  }
+  const record = value as Record<string, unknown>
+  const errors: string[] = []
+  for (const key of Object.keys(record)) {
+    if (!SNOOZE_KEYS.has(key)) errors.push(`${key} is not a recognised field`)
+  }
+
+  const duration = record.durationMinutes
+  if (typeof duration !== "number" || !Number.isInteger(duration) || duration < 1 || duration > MAX_SNOOZE_MINUTES) {
+    errors.push(`durationMinutes must be an integer between 1 and ${MAX_SNOOZE_MINUTES}`)
+  }
+  const reason = typeof record.reason === "string" ? record.reason.trim() : ""
+  if (!reason) errors.push("reason is required")
+  else if (reason.length > MAX_REASON_LENGTH) errors.push(`reason must be at most ${MAX_REASON_LENGTH} characters`)
+
+  return errors.length
+    ? { ok: false, errors }
+    : { ok: true, value: { durationMinutes: duration as number, reason } }
+}
@@ -3,14 +3,34 @@ import type { SupabaseClient } from "@supabase/supabase-js"
 
 import { supabaseBrowser } from "./supabase"
 import type { Database } from "./database.types"
+import * as offlineCache from "./offline-cache"
+import {
+  buildDailyTotals,
+  defaultPeriodForCadence,
+  determineProgressForDate,
+  formatLocalDateISO,
+  getDayBounds,
+  isOvernightSlot,
+  MINUTES_IN_DAY,
+  resolveTimeZone,
+  taskActiveOnDate,
+  type Cadence,
+  type ProgressScope,
+} from "./recurrence"
+import { parseRRule } from "./rrule"
+import { blockingPolicyFromRow, normalizeBlockingPolicy, type BlockingPolicy } from "./block-windows"
+
+export type { ProgressScope } from "./recurrence"
+export type { BlockingPolicy, BlockSeverity } from "./block-windows"
 
 export type PeriodRule = {
   id: string
-  cadence: "daily" | "weekly" | "monthly" | "interval"
+  cadence: Cadence
   timesPerPeriod: number | null
   period: string
   daysOfWeek: number[] | null
   weekStart: number | null
+  intervalCount: number | null
   timezone: string
 }
 
@@ -24,6 +44,7 @@ export type TimeRule = {
 export type Tag = {
   id: string
   name: string
+  blockingPolicy?: BlockingPolicy
 }
 
 export type Task = {
@@ -38,6 +59,7 @@ export type Task = {
   periodRules: PeriodRule[]
   timeRules: TimeRule[]
   tags: Tag[]
+  blockingPolicy: BlockingPolicy
   createdAt: number
   updatedAt: number
   done?: boolean
@@ -50,6 +72,8 @@ export type TimeSlotSummary = {
   sortMinutes: number
   startTime: string | null
   endTime: string | null
+  /** Ends on the next day (e.g. 23:00-01:00). */
+  overnight: boolean
 }
 
 export type TaskListRow = {
@@ -64,6 +88,7 @@ export type TaskListRow = {
   targetToday: number
   completedToday: number
   remainingToday: number
+  progressScope: ProgressScope
   statusToday: "todo" | "done" | "inactive"
   createdAt: number
   updatedAt: number
@@ -79,19 +104,22 @@ export type TodayTaskRow = {
   anytime: boolean
   startTime: string | null
   endTime: string | null
+  overnight: boolean
   target: number
   completed: number
   remaining: number
+  progressScope: ProgressScope
   status: "todo" | "done"
   sortMinutes: number
 }
 
 export type PeriodRuleInput = {
-  cadence: "daily" | "weekly" | "monthly" | "interval"
+  cadence: Cadence
   timesPerPeriod?: number | null
   period?: string | null
   daysOfWeek?: number[] | null
   weekStart?: number | null
+  intervalCount?: number | null
   timezone?: string
 }
 
@@ -116,59 +144,66 @@ type TaskDefQueryRow = TaskDefsRow & {
   } | null)[] | null
 }
 
-type CreateTaskInput = {
+export type CreateTaskInput = {
   title: string
-  detail?: string
-  description?: string
+  /** null (or "") leaves the task without a description. */
+  detail?: string | null
+  description?: string | null
   kind?: "single" | "habit"
   active?: boolean
   startDate?: string
   endDate?: string
   periodRules?: PeriodRuleInput[]
+  /** RFC 5545 RRULE; replaces periodRules and fills start/end dates left unset. */
+  rrule?: string
   timeRules?: TimeRuleInput[]
   tags?: string[]
   timezone?: string
+  blockingPolicy?: Partial<BlockingPolicy>
+  /** Policies for tags by name; shared by every task with the tag. Unlisted tags keep theirs. */
+  tagBlockingPolicies?: TagBlockingPolicyInput[]
+}
+
+export type TagBlockingPolicyInput = {
+  name: string
+  policy: Partial<BlockingPolicy>
 }
 
-type UpdateTaskInput = Partial<Omit<CreateTaskInput, "title">> & {
+export type UpdateTaskInput = Partial<Omit<CreateTaskInput, "title" | "startDate" | "endDate">> & {
   title?: string
+  /** null clears the date. */
+  startDate?: string | null
+  endDate?: string | null
 }
 
 const DEFAULT_LOOKBACK_DAYS = 14
+const QUOTA_LOOKBACK_DAYS = 32
 const ANYTIME_SORT_MINUTES = 24 * 60
-const DEFAULT_TIMEZONE = "Asia/Tokyo"
-
-function defaultPeriodForCadence(cadence: "daily" | "weekly" | "monthly" | "interval"): string {
-  switch (cadence) {
-    case "weekly":
-      return "week"
-    case "monthly":
-      return "month"
-    default:
-      return "day"
-  }
-}
 
-function getResolvedTimeZone(): string {
-  if (typeof Intl !== "undefined") {
-    try {
-      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone
-      if (tz) return tz
-    } catch (err) {
-      console.warn("Failed to resolve Intl timezone", err)
-    }
-  }
-  return DEFAULT_TIMEZONE
-}
-
-function formatLocalDateISO(date: Date, timeZone: string): string {
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
+/**
+ * Expands `rrule` into period rules and fills start/end dates left unset.
+ * Without DTSTART, COUNT is anchored to the explicit startDate, then the
+ * task's stored start date, then today, so a PATCH never moves the series.
+ */
+export function applyRRuleInput<T extends UpdateTaskInput>(
+  input: T,
+  timezone: string,
+  storedStartDate?: string | null
+): T {
+  if (!input.rrule) return input
+  const parsed = parseRRule(input.rrule, {
+    startDate: input.startDate ?? storedStartDate ?? formatLocalDateISO(new Date(), timezone),
   })
-  return formatter.format(date)
+  if (!parsed.ok) {
+    throw new Error(`RRULEを取り込めませんでした: ${parsed.error}`)
+  }
+  const { rule, startDate, endDate } = parsed.value
+  return {
+    ...input,
+    periodRules: [{ ...rule, timezone: rule.timezone ?? timezone }],
+    startDate: input.startDate ?? startDate,
+    endDate: input.endDate ?? endDate,
+  }
 }
 
 function toMinutes(time?: string | null): number {
@@ -188,6 +223,7 @@ function buildTimeSlots(rules: TimeRule[], taskId: string): TimeSlotSummary[] {
         sortMinutes: ANYTIME_SORT_MINUTES,
         startTime: null,
         endTime: null,
+        overnight: false,
       },
     ]
   }
@@ -195,10 +231,11 @@ function buildTimeSlots(rules: TimeRule[], taskId: string): TimeSlotSummary[] {
     const start = rule.startTime
     const end = rule.endTime
     const isAnytime = rule.anytime || !start
+    const overnight = !isAnytime && isOvernightSlot(start, end)
     const label = isAnytime
       ? "いつでも"
       : end
-      ? `${start.slice(0, 5)} - ${end.slice(0, 5)}`
+      ? `${start.slice(0, 5)} - ${overnight ? "翌" : ""}${end.slice(0, 5)}`
       : start.slice(0, 5)
     const sortMinutes = isAnytime ? ANYTIME_SORT_MINUTES : toMinutes(start)
     return {
@@ -208,42 +245,11 @@ function buildTimeSlots(rules: TimeRule[], taskId: string): TimeSlotSummary[] {
       sortMinutes,
       startTime: start ?? null,
       endTime: end ?? null,
+      overnight,
     }
   })
 }
 
-function parseIsoDateParts(iso: string) {
-  const [y, m, d] = iso.split("-").map((v) => Number.parseInt(v, 10))
-  return { year: y, month: m, day: d }
-}
-
-function isoDayOfWeek(iso: string): number {
-  const { year, month, day } = parseIsoDateParts(iso)
-  const d = new Date(Date.UTC(year, month - 1, day))
-  return d.getUTCDay()
-}
-
-function ruleMatchesDate(rule: PeriodRule, isoDate: string, dayOfWeek: number): boolean {
-  switch (rule.cadence) {
-    case "daily":
-      return true
-    case "weekly": {
-      const candidates = rule.daysOfWeek ?? []
-      if (!candidates.length) return true
-      return candidates.includes(dayOfWeek)
-    }
-    case "monthly": {
-      const { day } = parseIsoDateParts(isoDate)
-      const days = rule.daysOfWeek ?? []
-      if (!days.length) return day === 1
-      return days.includes(day)
-    }
-    case "interval":
-    default:
-      return false
-  }
-}
-
 function cadenceLabel(rule: PeriodRule): string {
   switch (rule.cadence) {
     case "daily":
@@ -252,7 +258,8 @@ function cadenceLabel(rule: PeriodRule): string {
         : "毎日"
     case "weekly": {
       const names = (rule.daysOfWeek ?? []).map((day) => "日月火水木金土"[day] ?? "?")
-      const dayText = names.length ? `(${names.join("・")})` : ""
+      if (!names.length) return `週${rule.timesPerPeriod ?? 1}回 (曜日自由)`
+      const dayText = `(${names.join("・")})`
       if (rule.timesPerPeriod && rule.timesPerPeriod > 0) {
         return `週次${dayText} ${rule.timesPerPeriod}回/週`
       }
@@ -260,13 +267,22 @@ function cadenceLabel(rule: PeriodRule): string {
     }
     case "monthly": {
       const days = rule.daysOfWeek ?? []
-      const dayText = days.length ? `(${days.join("日, ")}日)` : ""
+      if (!days.length) return `月${rule.timesPerPeriod ?? 1}回 (日付自由)`
+      const dayText = `(${days.join("日, ")}日)`
       if (rule.timesPerPeriod && rule.timesPerPeriod > 0) {
         return `月次${dayText} ${rule.timesPerPeriod}回/月`
       }
       return `月次${dayText}`
     }
-    case "interval":
+    case "interval": {
+      const count = rule.intervalCount && rule.intervalCount > 0 ? rule.intervalCount : 1
+      if (rule.period === "week") {
+        const names = (rule.daysOfWeek ?? []).map((day) => "日月火水木金土"[day] ?? "?")
+        const dayText = names.length ? `(${names.join("・")})` : ""
+        return count === 1 ? `毎週${dayText}` : `${count}週ごと${dayText}`
+      }
+      return count === 1 ? "毎日" : `${count}日ごと`
+    }
     default:
       return "インターバル"
   }
@@ -277,38 +293,6 @@ function aggregateCadenceLabel(rules: PeriodRule[]): string {
   return rules.map(cadenceLabel).join(" / ")
 }
 
-function taskActiveOnDate(task: Task, isoDate: string): boolean {
-  if (!task.active) return false
-  if (task.startDate && task.startDate > isoDate) return false
-  if (task.endDate && task.endDate < isoDate) return false
-  return true
-}
-
-function determineTargetForDate(task: Task, isoDate: string, dayOfWeek: number): number {
-  if (!taskActiveOnDate(task, isoDate)) return 0
-  const rules = task.periodRules.length
-    ? task.periodRules
-    : [
-        {
-          id: `${task.id}-default`,
-          cadence: "daily",
-          timesPerPeriod: 1,
-          period: "day",
-          daysOfWeek: null,
-          weekStart: null,
-          timezone: DEFAULT_TIMEZONE,
-        } satisfies PeriodRule,
-      ]
-
-  let total = 0
-  for (const rule of rules) {
-    if (ruleMatchesDate(rule, isoDate, dayOfWeek)) {
-      total += rule.timesPerPeriod ?? 1
-    }
-  }
-  return total
-}
-
 export function mapTaskRow(row: TaskDefQueryRow): Task {
   const periodRules: PeriodRule[] = (row.period_rules ?? []).map((rule) => ({
     id: rule.id,
@@ -317,6 +301,7 @@ export function mapTaskRow(row: TaskDefQueryRow): Task {
     period: rule.period,
     daysOfWeek: rule.days_of_week ?? null,
     weekStart: rule.week_start ?? null,
+    intervalCount: rule.interval_count ?? null,
     timezone: rule.timezone,
   }))
 
@@ -333,7 +318,7 @@ export function mapTaskRow(row: TaskDefQueryRow): Task {
 
   const uniqueTags = new Map<string, Tag>()
   for (const tag of tagRecords) {
-    uniqueTags.set(tag.id, { id: tag.id, name: tag.name })
+    uniqueTags.set(tag.id, { id: tag.id, name: tag.name, blockingPolicy: blockingPolicyFromRow(tag) })
   }
 
   const description = row.description ?? undefined
@@ -351,6 +336,7 @@ export function mapTaskRow(row: TaskDefQueryRow): Task {
     periodRules,
     timeRules,
     tags: Array.from(uniqueTags.values()),
+    blockingPolicy: blockingPolicyFromRow(row),
     createdAt: new Date(row.created_at).getTime(),
     updatedAt: new Date(row.updated_at).getTime(),
     done: false,
@@ -361,18 +347,394 @@ function sanitizeForIlike(value: string) {
   return value.replace(/[%,_]+/g, " ").trim()
 }
 
+type OutboxEntry =
+  | {
+      id: string
+      kind: "save_task"
+      payload: SaveTaskPayload
+      /** Set for tasks created offline; replaced by the server id once the create lands. */
+      tempId?: string
+      /** Updates to tasks created in the same outbox skip the updated_at comparison. */
+      skipConflictCheck?: boolean
+      /**
+       * Server updated_at of the task when it was first edited offline. A server
+       * copy newer than this wins; entries queued before it existed use queuedAt.
+       */
+      baseUpdatedAt?: string
+      queuedAt: number
+    }
+  | {
+      id: string
+      kind: "exec_log"
+      row: ExecLogsRow
+      queuedAt: number
+    }
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+let lastQueuedAt = 0
+let flushPromise: Promise<void> | null = null
+/** Set when the server refused a replay for lack of a valid session; cleared on sign-in or token refresh. */
+let outboxPausedForAuth = false
+
+function offlineEnabled(client?: SupabaseClient<Database>) {
+  return !client && offlineCache.isOfflineCacheAvailable()
+}
+
+function isBrowserOffline() {
+  return typeof navigator !== "undefined" && navigator.onLine === false
+}
+
+function isNetworkError(error: unknown): boolean {
+  if (isBrowserOffline()) return true
+  if (error instanceof TypeError) return true
+  const message = error && typeof error === "object" && "message" in error ? String(error.message) : ""
+  return /Failed to fetch|NetworkError|Load failed|fetch failed/i.test(message)
+}
+
+type ReplayFailure = "retry" | "unauthorized" | "rejected"
+
+/**
+ * retry: transient (network, server error); the entry is kept for the next flush.
+ * unauthorized: expired session or RLS denial; the entry is kept until the session is valid again.
+ * rejected: the server refused the data itself (validation or constraint); retrying cannot succeed.
+ */
+function classifyReplayError(error: unknown): ReplayFailure {
+  if (isNetworkError(error)) return "retry"
+  const code = error && typeof error === "object" && "code" in error ? String(error.code) : ""
+  const message = error && typeof error === "object" && "message" in error ? String(error.message) : ""
+  if (code === "PGRST301" || code === "PGRST302" || code === "42501" || /JWT|not authenticated/i.test(message)) {
+    return "unauthorized"
+  }
+  // SQLSTATE class 22 (data exception, also raised by save_task) and 23 (constraint violation).
+  if (/^2[23]/.test(code)) return "rejected"
+  return "retry"
+}
+
+/**
+ * Runs `online` against Supabase and falls back to `offline` when the network is
+ * unavailable. Errors returned by the server are rethrown as before.
+ */
+async function withOfflineFallback<T>(
+  enabled: boolean,
+  online: () => Promise<T>,
+  offline: () => Promise<T>
+): Promise<T> {
+  if (!enabled) return online()
+  if (isBrowserOffline()) return offline()
+  try {
+    return await online()
+  } catch (error) {
+    if (!isNetworkError(error)) throw error
+    console.warn("[offline] Supabase unreachable, using the local cache", error)
+    return offline()
+  }
+}
+
+async function updateCache(work: () => Promise<void>) {
+  try {
+    await work()
+  } catch (error) {
+    console.warn("[offline] Failed to update the local cache", error)
+  }
+}
+
+async function readOutbox(): Promise<OutboxEntry[]> {
+  const entries = await offlineCache.readAll<OutboxEntry>("outbox")
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt)
+}
+
+async function enqueue(entry: DistributiveOmit<OutboxEntry, "id" | "queuedAt">): Promise<void> {
+  lastQueuedAt = Math.max(Date.now(), lastQueuedAt + 1)
+  await offlineCache.writeMany<OutboxEntry>("outbox", [
+    { ...entry, id: crypto.randomUUID(), queuedAt: lastQueuedAt } as OutboxEntry,
+  ])
+}
+
+/** Mirrors what `save_task` will do so the cached row reflects a queued save. */
+function applySavePayloadToRow(
+  base: TaskDefQueryRow | undefined,
+  taskId: string,
+  payload: SaveTaskPayload
+): TaskDefQueryRow {
+  const now = new Date().toISOString()
+  const row: TaskDefQueryRow = base
+    ? { ...base }
+    : {
+        id: taskId,
+        user_id: "",
+        title: "",
+        description: null,
+        kind: "single",
+        active: true,
+        start_date: null,
+        end_date: null,
+        created_at: now,
+        updated_at: now,
+        block_redirect_url: null,
+        block_severity: null,
+        block_mode: null,
+        block_patterns: [],
+        period_rules: [],
+        time_rules: [],
+        task_tags: [],
+      }
+  Object.assign(row, payload.task, { updated_at: now })
+
+  if (payload.period_rules) {
+    row.period_rules = payload.period_rules.map((rule) => ({
+      ...rule,
+      id: crypto.randomUUID(),
+      task_id: taskId,
+      created_at: now,
+    }))
+  }
+  if (payload.time_rules) {
+    row.time_rules = payload.time_rules.map((rule) => ({
+      ...rule,
+      id: crypto.randomUUID(),
+      task_id: taskId,
+      created_at: now,
+    }))
+  }
+  if (payload.tags) {
+    const known = new Map<string, TagsRow>()
+    for (const record of base?.task_tags ?? []) {
+      if (record?.tags) known.set(record.tags.name, record.tags)
+    }
+    row.task_tags = payload.tags.map((name) => {
+      const tag = known.get(name) ?? {
+        id: crypto.randomUUID(),
+        user_id: row.user_id,
+        name,
+        created_at: now,
+        block_redirect_url: null,
+        block_severity: null,
+        block_mode: null,
+        block_patterns: [],
+      }
+      return { tag_id: tag.id, tags: tag }
+    })
+  }
+  if (payload.tag_policies) {
+    for (const record of row.task_tags ?? []) {
+      const policy = record?.tags && payload.tag_policies.find((entry) => entry.name === record.tags?.name)
+      if (record?.tags && policy) {
+        const { name: _name, ...columns } = policy
+        record.tags = { ...record.tags, ...columns }
+      }
+    }
+  }
+  return row
+}
+
+async function queueSaveTask(payload: SaveTaskPayload): Promise<Task | undefined> {
+  const existing = payload.id ? await offlineCache.readOne<TaskDefQueryRow>("tasks", payload.id) : undefined
+  if (payload.id && !existing) return undefined
+
+  const taskId = payload.id ?? crypto.randomUUID()
+  // A task edited offline more than once keeps the server version of the first edit.
+  const earlier = payload.id
+    ? (await readOutbox()).find((entry) => entry.kind === "save_task" && entry.payload.id === payload.id)
+    : undefined
+  const baseUpdatedAt = earlier?.kind === "save_task" ? earlier.baseUpdatedAt : existing?.updated_at
+  const row = applySavePayloadToRow(existing, taskId, payload)
+  await enqueue({ kind: "save_task", payload, tempId: payload.id ? undefined : taskId, baseUpdatedAt })
+  await offlineCache.writeMany("tasks", [row])
+  return mapTaskRow(row)
+}
+
+async function queueExecution(row: ExecLogsRow): Promise<ExecutionLog> {
+  await enqueue({ kind: "exec_log", row })
+  await offlineCache.writeMany("exec_logs", [row])
+  return mapExecutionRow(row)
+}
+
+async function findQueuedExecution(id: string) {
+  const entries = await readOutbox().catch((error) => {
+    console.warn("[offline] Failed to read queued writes", error)
+    return [] as OutboxEntry[]
+  })
+  return entries.find(
+    (entry): entry is Extract<OutboxEntry, { kind: "exec_log" }> => entry.kind === "exec_log" && entry.row.id === id
+  )
+}
+
+/** Points queued entries and cached logs at the server id of a task created offline. */
+async function remapTaskId(tempId: string, taskId: string, pending: OutboxEntry[]) {
+  const changed: OutboxEntry[] = []
+  for (const entry of pending) {
+    if (entry.kind === "save_task" && entry.payload.id === tempId) {
+      entry.payload = { ...entry.payload, id: taskId }
+      entry.skipConflictCheck = true
+      changed.push(entry)
+    } else if (entry.kind === "exec_log" && entry.row.task_id === tempId) {
+      entry.row = { ...entry.row, task_id: taskId }
+      changed.push(entry)
+    }
+  }
+  await offlineCache.writeMany("outbox", changed)
+
+  const logs = await offlineCache.readAll<ExecLogsRow>("exec_logs")
+  await offlineCache.writeMany(
+    "exec_logs",
+    logs.filter((log) => log.task_id === tempId).map((log) => ({ ...log, task_id: taskId }))
+  )
+  await offlineCache.removeMany("tasks", [tempId])
+}
+
+async function replayEntry(
+  supabase: SupabaseClient<Database>,
+  entry: OutboxEntry,
+  pending: OutboxEntry[]
+): Promise<ExecutionLog | undefined> {
+  if (entry.kind === "exec_log") {
+    const { error } = await supabase
+      .from("exec_logs")
+      .upsert(entry.row, { onConflict: "id", ignoreDuplicates: true })
+    if (error) throw error
+    return mapExecutionRow(entry.row)
+  }
+
+  if (entry.tempId) {
+    const taskId = await saveTask(supabase, entry.payload)
+    if (!taskId) throw new Error("save_task did not return a task id")
+    await remapTaskId(entry.tempId, taskId, pending)
+    return undefined
+  }
+
+  const taskId = entry.payload.id
+  if (!taskId) return undefined
+  if (!entry.skipConflictCheck) {
+    const { data, error } = await supabase.from("task_defs").select("updated_at").eq("id", taskId).maybeSingle()
+    if (error) throw error
+    if (!data) return undefined
+    // A server edit the offline edit did not see is kept.
+    const seenAt = entry.baseUpdatedAt ? new Date(entry.baseUpdatedAt).getTime() : entry.queuedAt
+    if (new Date(data.updated_at).getTime() > seenAt) {
+      console.warn(`[offline] Task ${taskId} changed on the server after the offline edit; keeping the server copy`)
+      return undefined
+    }
+  }
+  await saveTask(supabase, entry.payload)
+  await updateCache(async () => {
+    // Edits queued from the cache from now on must compare against the server's updated_at, not ours.
+    const { data: saved, error: savedError } = await supabase
+      .from("task_defs")
+      .select("updated_at")
+      .eq("id", taskId)
+      .maybeSingle()
+    if (savedError) throw savedError
+    const cached = saved ? await offlineCache.readOne<TaskDefQueryRow>("tasks", taskId) : undefined
+    if (saved && cached) await offlineCache.writeMany("tasks", [{ ...cached, updated_at: saved.updated_at }])
+  })
+
+  // Later offline edits of the task build on this one, which just moved updated_at.
+  const followUps = pending.filter(
+    (next): next is Extract<OutboxEntry, { kind: "save_task" }> =>
+      next.kind === "save_task" && next.payload.id === taskId && !next.skipConflictCheck
+  )
+  for (const next of followUps) next.skipConflictCheck = true
+  if (followUps.length) await offlineCache.writeMany("outbox", followUps)
+  return undefined
+}
+
+async function replayOutbox(): Promise<void> {
+  const entries = await readOutbox()
+  if (!entries.length) return
+
+  const supabase = supabaseBrowser()
+  const replayed: ExecutionLog[] = []
+  try {
+    for (let index = 0; index < entries.length; index += 1) {
+      const entry = entries[index]
+      try {
+        const log = await replayEntry(supabase, entry, entries.slice(index + 1))
+        if (log) replayed.push(log)
+      } catch (error) {
+        const failure = classifyReplayError(error)
+        // Keep this and later entries for the next attempt.
+        if (failure === "unauthorized") {
+          console.warn("[offline] Replay paused until the session is valid again", error)
+          outboxPausedForAuth = true
+          return
+        }
+        if (failure === "retry") return
+        console.error("[offline] Dropping a queued write the server rejected", entry, error)
+        emitOutboxRejected(entry, error)
+      }
+      await offlineCache.removeMany("outbox", [entry.id])
+    }
+  } finally {
+    for (const log of replayed) emitTaskExecuted(log, "logged")
+  }
+}
+
+/** Replays queued offline writes in order. Safe to call repeatedly; concurrent calls share one run. */
+export function flushOutbox(): Promise<void> {
+  if (!offlineCache.isOfflineCacheAvailable() || isBrowserOffline() || outboxPausedForAuth) return Promise.resolve()
+  if (!flushPromise) {
+    flushPromise = replayOutbox()
+      .catch((error) => {
+        console.warn("[offline] Failed to replay queued writes", error)
+      })
+      .finally(() => {
+        flushPromise = null
+      })
+  }
+  return flushPromise
+}
+
+if (offlineCache.isOfflineCacheAvailable()) {
+  window.addEventListener("online", () => {
+    void flushOutbox()
+  })
+  supabaseBrowser().auth.onAuthStateChange((event, session) => {
+    if (!session || (event !== "SIGNED_IN" && event !== "TOKEN_REFRESHED")) return
+    outboxPausedForAuth = false
+    // Deferred: Supabase calls this listener while it still holds the auth lock.
+    setTimeout(() => void flushOutbox(), 0)
+  })
+}
+
 export async function list(client?: SupabaseClient<Database>): Promise<Task[]> {
   const supabase = client ?? supabaseBrowser()
-  const { data, error } = await supabase
-    .from("task_defs")
-    .select(
-      `id, user_id, title, description, kind, active, start_date, end_date, created_at, updated_at,
-        period_rules (*), time_rules (*), task_tags ( tag_id, tags ( id, name ) )`
-    )
-    .order("updated_at", { ascending: false })
+  const enabled = offlineEnabled(client)
+  const rows = await withOfflineFallback(
+    enabled,
+    async () => {
+      await flushOutbox()
+      const { data, error } = await supabase
+        .from("task_defs")
+        .select(
+          `id, user_id, title, description, kind, active, start_date, end_date, created_at, updated_at,
+            block_redirect_url, block_severity, block_patterns, block_mode,
+            period_rules (*), time_rules (*),
+            task_tags ( tag_id, tags ( id, name, block_redirect_url, block_severity, block_patterns, block_mode ) )`
+        )
+        .order("updated_at", { ascending: false })
+
+      if (error) throw error
+      const fetched = (data ?? []) as unknown as TaskDefQueryRow[]
+      if (enabled) await updateCache(() => offlineCache.replaceAll("tasks", fetched))
+      return fetched
+    },
+    async () => {
+      const cached = await offlineCache.readAll<TaskDefQueryRow>("tasks")
+      return cached.sort((a, b) => (a.updated_at < b.updated_at ? 1 : a.updated_at > b.updated_at ? -1 : 0))
+    }
+  )
+  return rows.map(mapTaskRow)
+}
 
+export async function listTags(client?: SupabaseClient<Database>): Promise<Tag[]> {
+  const supabase = client ?? supabaseBrowser()
+  const { data, error } = await supabase
+    .from("tags")
+    .select("id, name, block_redirect_url, block_severity, block_patterns, block_mode")
+    .order("name", { ascending: true })
   if (error) throw error
-  return (data ?? []).map((row) => mapTaskRow(row as unknown as TaskDefQueryRow))
+  return (data ?? []).map((tag) => ({ id: tag.id, name: tag.name, blockingPolicy: blockingPolicyFromRow(tag) }))
 }
 
 export async function search(query: string, limit = 8): Promise<Task[]> {
@@ -384,7 +746,7 @@ export async function search(query: string, limit = 8): Promise<Task[]> {
   const { data, error } = await supabase
     .from("task_defs")
     .select(
-      "id, user_id, title, description, kind, active, start_date, end_date, created_at, updated_at"
+      "id, user_id, title, description, kind, active, start_date, end_date, created_at, updated_at, block_redirect_url, block_severity, block_patterns, block_mode"
     )
     .or(`title.ilike.${pattern},description.ilike.${pattern}`)
     .order("updated_at", { ascending: false })
@@ -401,291 +763,451 @@ export async function search(query: string, limit = 8): Promise<Task[]> {
   )
 }
 
-export async function get(id: string): Promise<Task | undefined> {
-  const supabase = supabaseBrowser()
-  const { data, error } = await supabase
-    .from("task_defs")
-    .select(
-      `id, user_id, title, description, kind, active, start_date, end_date, created_at, updated_at,
-        period_rules (*), time_rules (*), task_tags ( tag_id, tags ( id, name ) )`
-    )
-    .eq("id", id)
-    .maybeSingle()
-
-  if (error) throw error
-  return data ? mapTaskRow(data as unknown as TaskDefQueryRow) : undefined
+export async function get(id: string, client?: SupabaseClient<Database>): Promise<Task | undefined> {
+  const supabase = client ?? supabaseBrowser()
+  const enabled = offlineEnabled(client)
+  const row = await withOfflineFallback(
+    enabled,
+    async () => {
+      const { data, error } = await supabase
+        .from("task_defs")
+        .select(
+          `id, user_id, title, description, kind, active, start_date, end_date, created_at, updated_at,
+            block_redirect_url, block_severity, block_patterns, block_mode,
+            period_rules (*), time_rules (*),
+            task_tags ( tag_id, tags ( id, name, block_redirect_url, block_severity, block_patterns, block_mode ) )`
+        )
+        .eq("id", id)
+        .maybeSingle()
+
+      if (error) throw error
+      const fetched = (data ?? undefined) as unknown as TaskDefQueryRow | undefined
+      if (enabled && fetched) await updateCache(() => offlineCache.writeMany("tasks", [fetched]))
+      return fetched
+    },
+    () => offlineCache.readOne<TaskDefQueryRow>("tasks", id)
+  )
+  return row ? mapTaskRow(row) : undefined
 }
 
-export async function create(input: CreateTaskInput): Promise<Task> {
-  const supabase = supabaseBrowser()
-  const timezone = input.timezone ?? getResolvedTimeZone()
-  const payload = {
-    title: input.title,
-    description: input.detail ?? input.description ?? null,
-    kind: input.kind ?? "single",
-    active: input.active ?? true,
-    start_date: input.startDate ?? null,
-    end_date: input.endDate ?? null,
-  }
-
-  const { data: inserted, error: insertError } = await supabase
-    .from("task_defs")
-    .insert(payload)
-    .select(
-      "id, user_id, title, description, kind, active, start_date, end_date, created_at, updated_at"
-    )
-    .single()
-
-  if (insertError) throw insertError
-
-  const taskId = inserted.id
+type PeriodRulePayload = Omit<PeriodRulesRow, "id" | "task_id" | "created_at">
+type TimeRulePayload = Pick<TimeRulesRow, "start_time" | "end_time" | "anytime">
+
+type BlockingPolicyColumns = Pick<
+  TaskDefsRow,
+  "block_redirect_url" | "block_severity" | "block_patterns" | "block_mode"
+>
+type TagPolicyPayload = BlockingPolicyColumns & { name: string }
+
+/** Argument of the `save_task` RPC; keys left out are not touched on update. */
+type SaveTaskPayload = {
+  id?: string
+  task: Partial<
+    Pick<TaskDefsRow, "title" | "description" | "kind" | "active" | "start_date" | "end_date"> & BlockingPolicyColumns
+  >
+  period_rules?: PeriodRulePayload[]
+  time_rules?: TimeRulePayload[]
+  tags?: string[]
+  tag_policies?: TagPolicyPayload[]
+}
 
-  const periodRuleInputs: PeriodRuleInput[] = input.periodRules && input.periodRules.length > 0
-    ? input.periodRules
+function buildPeriodRulePayload(rules: PeriodRuleInput[], timezone: string): PeriodRulePayload[] {
+  const inputs: PeriodRuleInput[] = rules.length
+    ? rules
     : [{ cadence: "daily", timesPerPeriod: 1, period: "day", timezone } satisfies PeriodRuleInput]
 
-  const periodRows = periodRuleInputs.map((rule) => {
+  return inputs.map((rule) => {
     const cadence: PeriodRuleInput["cadence"] = rule.cadence ?? "daily"
     return {
-      task_id: taskId,
       cadence,
       times_per_period:
         rule.timesPerPeriod === undefined || rule.timesPerPeriod === null ? null : rule.timesPerPeriod,
       period: rule.period ?? defaultPeriodForCadence(cadence),
       days_of_week: rule.daysOfWeek ?? null,
       week_start: rule.weekStart ?? null,
+      interval_count: cadence === "interval" ? rule.intervalCount ?? 1 : null,
       timezone: rule.timezone ?? timezone,
     }
   })
+}
 
-  if (periodRows.length) {
-    const { error: periodError } = await supabase.from("period_rules").insert(periodRows)
-    if (periodError) throw periodError
-  }
-
-  const timeRuleInputs = input.timeRules && input.timeRules.length > 0
-    ? input.timeRules
-    : [{ anytime: true }]
+function buildTimeRulePayload(rules: TimeRuleInput[]): TimeRulePayload[] {
+  const inputs: TimeRuleInput[] = rules.length ? rules : [{ anytime: true }]
 
-  const timeRows = timeRuleInputs.map((rule) => {
+  return inputs.map((rule) => {
     const start = rule.startTime ?? null
     const end = rule.endTime ?? null
     const anytimeFlag = rule.anytime ?? !start
     return {
-      task_id: taskId,
       start_time: anytimeFlag ? null : start,
       end_time: anytimeFlag ? null : end,
       anytime: anytimeFlag,
     }
   })
+}
 
-  if (timeRows.length) {
-    const { error: timeError } = await supabase.from("time_rules").insert(timeRows)
-    if (timeError) throw timeError
-  }
-
-  if (input.tags && input.tags.length) {
-    const existingTags = new Map<string, Pick<TagsRow, "id" | "name">>()
-    const lowerNames = input.tags.map((name) => name.trim()).filter(Boolean)
-
-    if (lowerNames.length) {
-      const { data: tagRows, error: tagError } = await supabase
-        .from("tags")
-        .select("id, name, user_id, created_at")
-        .in("name", lowerNames)
-
-      if (tagError) throw tagError
-      for (const tag of tagRows ?? []) {
-        existingTags.set(tag.name, tag)
-      }
-
-      const newTags = lowerNames.filter((name) => !existingTags.has(name))
-      if (newTags.length) {
-        const { data: insertedTags, error: newTagError } = await supabase
-          .from("tags")
-          .insert(newTags.map((name) => ({ name })))
-          .select("id, name, user_id, created_at")
+function normalizeTagNames(tags: string[]): string[] {
+  return tags.map((name) => name.trim()).filter(Boolean)
+}
 
-        if (newTagError) throw newTagError
-        for (const tag of insertedTags ?? []) {
-          existingTags.set(tag.name, tag)
-        }
-      }
+function buildBlockingPolicyColumns(policy: Partial<BlockingPolicy>): BlockingPolicyColumns {
+  const normalized = normalizeBlockingPolicy(policy)
+  return {
+    block_redirect_url: normalized.redirectUrl,
+    block_severity: normalized.severity,
+    block_mode: normalized.mode,
+    block_patterns: normalized.patterns,
+  }
+}
 
-      const links = lowerNames
-        .map((name) => existingTags.get(name))
-        .filter((tag): tag is Pick<TagsRow, "id" | "name"> => !!tag)
-        .map((tag) => ({ task_id: taskId, tag_id: tag.id }))
+function buildTagPolicyPayload(policies: TagBlockingPolicyInput[]): TagPolicyPayload[] {
+  return policies
+    .map(({ name, policy }) => ({ name: name.trim(), ...buildBlockingPolicyColumns(policy) }))
+    .filter((entry) => entry.name)
+}
 
-      if (links.length) {
-        const { error: linkError } = await supabase.from("task_tags").insert(links)
-        if (linkError) throw linkError
-      }
-    }
-  }
+async function saveTask(supabase: SupabaseClient<Database>, payload: SaveTaskPayload): Promise<string | null> {
+  const { data, error } = await supabase.rpc("save_task", { payload })
+  if (error) throw error
+  return data ?? null
+}
 
-  const full = await get(taskId)
-  if (!full) {
-    return mapTaskRow({
-      ...inserted,
-      period_rules: [],
-      time_rules: [],
-      task_tags: [],
-    })
+export async function create(taskInput: CreateTaskInput, client?: SupabaseClient<Database>): Promise<Task> {
+  const supabase = client ?? supabaseBrowser()
+  const timezone = taskInput.timezone ?? resolveTimeZone()
+  const input = applyRRuleInput(taskInput, timezone)
+
+  const payload: SaveTaskPayload = {
+    task: {
+      title: input.title,
+      description: (input.detail ?? input.description) || null,
+      kind: input.kind ?? "single",
+      active: input.active ?? true,
+      start_date: input.startDate ?? null,
+      end_date: input.endDate ?? null,
+      ...buildBlockingPolicyColumns(input.blockingPolicy ?? {}),
+    },
+    period_rules: buildPeriodRulePayload(input.periodRules ?? [], timezone),
+    time_rules: buildTimeRulePayload(input.timeRules ?? []),
+    tags: normalizeTagNames(input.tags ?? []),
   }
+  if (input.tagBlockingPolicies) payload.tag_policies = buildTagPolicyPayload(input.tagBlockingPolicies)
+
+  const full = await withOfflineFallback(
+    offlineEnabled(client),
+    async () => {
+      const taskId = await saveTask(supabase, payload)
+      if (!taskId) throw new Error("save_task did not return a task id")
+      const saved = await get(taskId, client)
+      if (!saved) throw new Error(`Task ${taskId} was saved but could not be loaded`)
+      return saved
+    },
+    () => queueSaveTask(payload)
+  )
+  if (!full) throw new Error("Task could not be saved")
+  emitTaskChanged(full.id, "created")
   return full
 }
 
-export async function update(id: string, patch: UpdateTaskInput): Promise<Task | undefined> {
-  const supabase = supabaseBrowser()
-  const payload: Partial<TaskDefsRow> = {}
-  if (patch.title !== undefined) payload.title = patch.title
+export async function update(
+  id: string,
+  taskPatch: UpdateTaskInput,
+  client?: SupabaseClient<Database>
+): Promise<Task | undefined> {
+  const supabase = client ?? supabaseBrowser()
+  const timezone = taskPatch.timezone ?? resolveTimeZone()
+  const storedStartDate =
+    taskPatch.rrule && taskPatch.startDate === undefined ? (await get(id, client))?.startDate : undefined
+  const patch = applyRRuleInput(taskPatch, timezone, storedStartDate)
+  const payload: SaveTaskPayload = { id, task: {} }
+  if (patch.title !== undefined) payload.task.title = patch.title
   if (patch.detail !== undefined || patch.description !== undefined) {
-    payload.description = patch.detail ?? patch.description ?? null
+    payload.task.description = (patch.detail ?? patch.description) || null
   }
-  if (patch.kind !== undefined) payload.kind = patch.kind
-  if (patch.active !== undefined) payload.active = patch.active
-  if (patch.startDate !== undefined) payload.start_date = patch.startDate ?? null
-  if (patch.endDate !== undefined) payload.end_date = patch.endDate ?? null
+  if (patch.kind !== undefined) payload.task.kind = patch.kind
+  if (patch.active !== undefined) payload.task.active = patch.active
+  if (patch.startDate !== undefined) payload.task.start_date = patch.startDate ?? null
+  if (patch.endDate !== undefined) payload.task.end_date = patch.endDate ?? null
+  if (patch.periodRules !== undefined) payload.period_rules = buildPeriodRulePayload(patch.periodRules, timezone)
+  if (patch.timeRules !== undefined) payload.time_rules = buildTimeRulePayload(patch.timeRules)
+  if (patch.tags !== undefined) payload.tags = normalizeTagNames(patch.tags)
+  if (patch.blockingPolicy !== undefined) Object.assign(payload.task, buildBlockingPolicyColumns(patch.blockingPolicy))
+  if (patch.tagBlockingPolicies !== undefined) payload.tag_policies = buildTagPolicyPayload(patch.tagBlockingPolicies)
+
+  const task = await withOfflineFallback(
+    offlineEnabled(client),
+    async () => {
+      const taskId = await saveTask(supabase, payload)
+      if (!taskId) return undefined
+      return await get(taskId, client)
+    },
+    () => queueSaveTask(payload)
+  )
+  if (task) emitTaskChanged(task.id, "updated")
+  return task
+}
 
-  if (Object.keys(payload).length) {
-    const { error } = await supabase.from("task_defs").update(payload).eq("id", id)
-    if (error) throw error
-  }
+export type ExecutionLog = {
+  id: string
+  taskId: string
+  happenedAt: string
+  qty: number
+  note: string | null
+  source: string | null
+  createdAt: string
+}
 
-  const timezone = patch.timezone ?? getResolvedTimeZone()
-
-  if (patch.periodRules !== undefined) {
-    const { error: clearPeriod } = await supabase.from("period_rules").delete().eq("task_id", id)
-    if (clearPeriod) throw clearPeriod
-
-    const inputs: PeriodRuleInput[] = patch.periodRules.length
-      ? patch.periodRules
-      : [{ cadence: "daily", timesPerPeriod: 1, period: "day", timezone } satisfies PeriodRuleInput]
-
-    const rows = inputs.map((rule) => {
-      const cadence: PeriodRuleInput["cadence"] = rule.cadence ?? "daily"
-      return {
-        task_id: id,
-        cadence,
-        times_per_period:
-          rule.timesPerPeriod === undefined || rule.timesPerPeriod === null ? null : rule.timesPerPeriod,
-        period: rule.period ?? defaultPeriodForCadence(cadence),
-        days_of_week: rule.daysOfWeek ?? null,
-        week_start: rule.weekStart ?? null,
-        timezone: rule.timezone ?? timezone,
-      }
-    })
+export type ExecutionInput = {
+  qty?: number
+  /** Defaults to now; set it to backfill a completion that was forgotten. */
+  happenedAt?: string | Date
+  note?: string | null
+  source?: string | null
+}
 
-    if (rows.length) {
-      const { error: insertPeriod } = await supabase.from("period_rules").insert(rows)
-      if (insertPeriod) throw insertPeriod
-    }
+function mapExecutionRow(row: ExecLogsRow): ExecutionLog {
+  const qty = row.qty === null || row.qty === undefined ? 1 : Number(row.qty)
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    happenedAt: row.happened_at,
+    qty: Number.isFinite(qty) ? qty : 1,
+    note: row.note,
+    source: row.source,
+    createdAt: row.created_at,
   }
+}
 
-  if (patch.timeRules !== undefined) {
-    const { error: clearTime } = await supabase.from("time_rules").delete().eq("task_id", id)
-    if (clearTime) throw clearTime
-
-    const inputs = patch.timeRules.length ? patch.timeRules : [{ anytime: true }]
-
-    const rows = inputs.map((rule) => {
-      const start = rule.startTime ?? null
-      const end = rule.endTime ?? null
-      const anytimeFlag = rule.anytime ?? !start
-      return {
-        task_id: id,
-        start_time: anytimeFlag ? null : start,
-        end_time: anytimeFlag ? null : end,
-        anytime: anytimeFlag,
-      }
-    })
+export async function recordExecution(
+  taskId: string,
+  input: ExecutionInput = {},
+  client?: SupabaseClient<Database>
+): Promise<ExecutionLog> {
+  const supabase = client ?? supabaseBrowser()
+  const amount = input.qty !== undefined && Number.isFinite(input.qty) ? input.qty : 1
+  const happenedAt =
+    input.happenedAt instanceof Date
+      ? input.happenedAt.toISOString()
+      : input.happenedAt ?? new Date().toISOString()
+  const payload = {
+    task_id: taskId,
+    qty: amount,
+    happened_at: happenedAt,
+    note: input.note?.trim() || null,
+    source: input.source?.trim() || null,
+  }
+  const enabled = offlineEnabled(client)
+  return await withOfflineFallback(
+    enabled,
+    async () => {
+      const { data, error } = await supabase
+        .from("exec_logs")
+        .insert(payload)
+        .select("id, task_id, happened_at, qty, note, source, created_at")
+        .single()
+      if (error) throw error
+      const row = data as ExecLogsRow
+      if (enabled) await updateCache(() => offlineCache.writeMany("exec_logs", [row]))
+      return mapExecutionRow(row)
+    },
+    () => queueExecution({ ...payload, id: crypto.randomUUID(), created_at: new Date().toISOString() })
+  )
+}
 
-    if (rows.length) {
-      const { error: insertTime } = await supabase.from("time_rules").insert(rows)
-      if (insertTime) throw insertTime
+export async function listExecutions(
+  taskId: string,
+  options?: { from?: string; to?: string; limit?: number },
+  client?: SupabaseClient<Database>
+): Promise<ExecutionLog[]> {
+  const supabase = client ?? supabaseBrowser()
+  let query = supabase
+    .from("exec_logs")
+    .select("id, task_id, happened_at, qty, note, source, created_at")
+    .eq("task_id", taskId)
+    .order("happened_at", { ascending: false })
+    .limit(options?.limit ?? 100)
+
+  if (options?.from) query = query.gte("happened_at", options.from)
+  if (options?.to) query = query.lt("happened_at", options.to)
+
+  const rows = await withOfflineFallback(
+    offlineEnabled(client),
+    async () => {
+      const { data, error } = await query
+      if (error) throw error
+      return (data ?? []) as ExecLogsRow[]
+    },
+    async () => {
+      const from = options?.from ? new Date(options.from).getTime() : -Infinity
+      const to = options?.to ? new Date(options.to).getTime() : Infinity
+      const cached = await offlineCache.readAll<ExecLogsRow>("exec_logs")
+      return cached
+        .filter((row) => {
+          if (row.task_id !== taskId) return false
+          const time = new Date(row.happened_at).getTime()
+          return time >= from && time < to
+        })
+        .sort((a, b) => new Date(b.happened_at).getTime() - new Date(a.happened_at).getTime())
+        .slice(0, options?.limit ?? 100)
     }
-  }
+  )
+  return rows.map(mapExecutionRow)
+}
 
-  if (patch.tags !== undefined) {
-    const supabaseClient = supabase
-    const tagNames = patch.tags.map((name) => name.trim()).filter(Boolean)
+export const TASK_EXECUTED_EVENT = "taskworks:task-executed"
 
-    const { error: clearError } = await supabaseClient
-      .from("task_tags")
-      .delete()
-      .eq("task_id", id)
+export type TaskExecutedDetail = {
+  taskId: string
+  executionId: string
+  qty: number
+  happenedAt: string
+  action: "logged" | "updated" | "deleted"
+}
 
-    if (clearError) throw clearError
+function emitTaskExecuted(log: ExecutionLog, action: TaskExecutedDetail["action"]) {
+  if (typeof window === "undefined") return
+  window.dispatchEvent(
+    new CustomEvent<TaskExecutedDetail>(TASK_EXECUTED_EVENT, {
+      detail: {
+        taskId: log.taskId,
+        executionId: log.id,
+        qty: log.qty,
+        happenedAt: log.happenedAt,
+        action,
+      },
+    })
+  )
+}
 
-    if (tagNames.length) {
-      const existing = new Map<string, Pick<TagsRow, "id" | "name">>()
-      const { data: tagRows, error: tagError } = await supabaseClient
-        .from("tags")
-        .select("id, name, user_id, created_at")
-        .in("name", tagNames)
+/** Fired when a write queued offline is dropped because the server rejected its data. */
+export const OUTBOX_REJECTED_EVENT = "taskworks:outbox-rejected"
 
-      if (tagError) throw tagError
+export type OutboxRejectedDetail = {
+  kind: "task" | "execution"
+  taskId: string | null
+  message: string
+}
 
-      for (const tag of tagRows ?? []) {
-        existing.set(tag.name, tag)
-      }
+function emitOutboxRejected(entry: OutboxEntry, error: unknown) {
+  if (typeof window === "undefined") return
+  const message = error && typeof error === "object" && "message" in error ? String(error.message) : String(error)
+  const detail: OutboxRejectedDetail =
+    entry.kind === "exec_log"
+      ? { kind: "execution", taskId: entry.row.task_id, message }
+      : { kind: "task", taskId: entry.payload.id ?? null, message }
+  window.dispatchEvent(new CustomEvent<OutboxRejectedDetail>(OUTBOX_REJECTED_EVENT, { detail }))
+}
 
-      const missing = tagNames.filter((name) => !existing.has(name))
-      if (missing.length) {
-        const { data: newTags, error: addError } = await supabaseClient
-          .from("tags")
-          .insert(missing.map((name) => ({ name })))
-          .select("id, name, user_id, created_at")
+export const TASK_CHANGED_EVENT = "taskworks:task-changed"
 
-        if (addError) throw addError
-        for (const tag of newTags ?? []) {
-          existing.set(tag.name, tag)
-        }
-      }
+export type TaskChangedDetail = {
+  taskId: string
+  action: "created" | "updated" | "deleted"
+}
 
-      const links = tagNames
-        .map((name) => existing.get(name))
-        .filter((tag): tag is Pick<TagsRow, "id" | "name"> => !!tag)
-        .map((tag) => ({ task_id: id, tag_id: tag.id }))
+function emitTaskChanged(taskId: string, action: TaskChangedDetail["action"]) {
+  if (typeof window === "undefined") return
+  window.dispatchEvent(new CustomEvent<TaskChangedDetail>(TASK_CHANGED_EVENT, { detail: { taskId, action } }))
+}
 
-      if (links.length) {
-        const { error: relError } = await supabaseClient.from("task_tags").insert(links)
-        if (relError) throw relError
-      }
-    }
+export async function logExecution(
+  taskId: string,
+  qty = 1,
+  options?: Omit<ExecutionInput, "qty">
+): Promise<ExecutionLog> {
+  const log = await recordExecution(taskId, { ...options, qty, source: options?.source ?? "web" })
+  emitTaskExecuted(log, "logged")
+  return log
+}
+
+export async function updateExecution(
+  id: string,
+  patch: Omit<ExecutionInput, "source">,
+  client?: SupabaseClient<Database>
+): Promise<ExecutionLog | undefined> {
+  const supabase = client ?? supabaseBrowser()
+  const payload: Database["public"]["Tables"]["exec_logs"]["Update"] = {}
+  if (patch.qty !== undefined) {
+    if (!Number.isFinite(patch.qty) || patch.qty <= 0) throw new Error("qty must be a positive number")
+    payload.qty = patch.qty
   }
+  if (patch.happenedAt !== undefined) {
+    payload.happened_at = patch.happenedAt instanceof Date ? patch.happenedAt.toISOString() : patch.happenedAt
+  }
+  if (patch.note !== undefined) payload.note = patch.note?.trim() || null
+
+  const enabled = offlineEnabled(client)
+  // Executions that have not reached the server yet are edited in the outbox.
+  const queued = enabled ? await findQueuedExecution(id) : undefined
+  if (queued) {
+    const row = { ...queued.row, ...payload }
+    await offlineCache.writeMany<OutboxEntry>("outbox", [{ ...queued, row }])
+    await offlineCache.writeMany("exec_logs", [row])
+    const log = mapExecutionRow(row)
+    emitTaskExecuted(log, "updated")
+    return log
+  }
+
+  const { data, error } = await supabase
+    .from("exec_logs")
+    .update(payload)
+    .eq("id", id)
+    .select("id, task_id, happened_at, qty, note, source, created_at")
+    .maybeSingle()
+  if (error) throw error
+  if (!data) return undefined
 
-  return await get(id)
+  const row = data as ExecLogsRow
+  if (enabled) await updateCache(() => offlineCache.writeMany("exec_logs", [row]))
+  const log = mapExecutionRow(row)
+  emitTaskExecuted(log, "updated")
+  return log
 }
 
-export async function logExecution(taskId: string, qty = 1): Promise<void> {
-  const supabase = supabaseBrowser()
-  const amount = Number.isFinite(qty) ? qty : 1
-  const payload = {
-    task_id: taskId,
-    qty: amount,
-    happened_at: new Date().toISOString(),
+/** Deletes an execution and returns the removed row, e.g. to undo a misclicked completion. */
+export async function deleteExecution(
+  id: string,
+  client?: SupabaseClient<Database>
+): Promise<ExecutionLog | undefined> {
+  const supabase = client ?? supabaseBrowser()
+  const enabled = offlineEnabled(client)
+  const queued = enabled ? await findQueuedExecution(id) : undefined
+  if (queued) {
+    await offlineCache.removeMany("outbox", [queued.id])
+    await offlineCache.removeMany("exec_logs", [id])
+    const log = mapExecutionRow(queued.row)
+    emitTaskExecuted(log, "deleted")
+    return log
   }
-  const { error } = await supabase.from("exec_logs").insert(payload)
+
+  const { data, error } = await supabase
+    .from("exec_logs")
+    .delete()
+    .eq("id", id)
+    .select("id, task_id, happened_at, qty, note, source, created_at")
+    .maybeSingle()
   if (error) throw error
+  if (enabled) await updateCache(() => offlineCache.removeMany("exec_logs", [id]))
+  if (!data) return undefined
 
-  if (typeof window !== "undefined") {
-    window.dispatchEvent(
-      new CustomEvent("taskworks:task-executed", {
-        detail: {
-          taskId,
-          qty: amount,
-        },
-      })
-    )
-  }
+  const log = mapExecutionRow(data as ExecLogsRow)
+  emitTaskExecuted(log, "deleted")
+  return log
 }
 
-export async function remove(id: string): Promise<void> {
-  const supabase = supabaseBrowser()
+export async function remove(id: string, client?: SupabaseClient<Database>): Promise<void> {
+  const supabase = client ?? supabaseBrowser()
   const { error } = await supabase.from("task_defs").delete().eq("id", id)
   if (error) throw error
+  if (offlineEnabled(client)) await updateCache(() => offlineCache.removeMany("tasks", [id]))
+  emitTaskChanged(id, "deleted")
+}
+
+export type TaskOverview = {
+  list: TaskListRow[]
+  today: TodayTaskRow[]
+  dateIso: string
+  timeZone: string
 }
 
 export async function fetchTaskOverview(options?: {
@@ -693,17 +1215,11 @@ export async function fetchTaskOverview(options?: {
   timeZone?: string
   lookbackDays?: number
   supabase?: SupabaseClient<Database>
-}): Promise<{
-  list: TaskListRow[]
-  today: TodayTaskRow[]
-  dateIso: string
-  timeZone: string
-}> {
-  const timeZone = options?.timeZone ?? getResolvedTimeZone()
+}): Promise<TaskOverview> {
+  const timeZone = options?.timeZone ?? resolveTimeZone()
   const baseDate = options?.date ?? new Date()
   const dateIso = formatLocalDateISO(baseDate, timeZone)
-  const dayOfWeek = isoDayOfWeek(dateIso)
-  const lookbackDays = options?.lookbackDays ?? DEFAULT_LOOKBACK_DAYS
+  const lookbackDays = Math.max(options?.lookbackDays ?? DEFAULT_LOOKBACK_DAYS, QUOTA_LOOKBACK_DAYS)
 
   const tasks = await list(options?.supabase)
   if (!tasks.length) {
@@ -715,31 +1231,42 @@ export async function fetchTaskOverview(options?: {
   since.setDate(since.getDate() - lookbackDays)
 
   const supabase = options?.supabase ?? supabaseBrowser()
-  let execLogs: ExecLogsRow[] = []
-
-  if (taskIds.length) {
-    const { data, error } = await supabase
-      .from("exec_logs")
-      .select("*")
-      .gte("happened_at", since.toISOString())
-      .in("task_id", taskIds)
-
-    if (error) throw error
-    execLogs = data ?? []
-  }
+  const enabled = offlineEnabled(options?.supabase)
+  const execLogs = await withOfflineFallback(
+    enabled,
+    async () => {
+      const { data, error } = await supabase
+        .from("exec_logs")
+        .select("*")
+        .gte("happened_at", since.toISOString())
+        .in("task_id", taskIds)
+
+      if (error) throw error
+      const fetched = data ?? []
+      if (!enabled) return fetched
+
+      // Logs still waiting in the outbox are not on the server yet; keep counting them.
+      let queued: ExecLogsRow[] = []
+      await updateCache(async () => {
+        queued = (await readOutbox()).flatMap((entry) => (entry.kind === "exec_log" ? [entry.row] : []))
+        await offlineCache.replaceAll("exec_logs", [...fetched, ...queued])
+      })
+      const fetchedIds = new Set(fetched.map((row) => row.id))
+      return [...fetched, ...queued.filter((row) => !fetchedIds.has(row.id))]
+    },
+    async () => {
+      const cached = await offlineCache.readAll<ExecLogsRow>("exec_logs")
+      const sinceTime = since.getTime()
+      return cached.filter((row) => taskIds.includes(row.task_id) && new Date(row.happened_at).getTime() >= sinceTime)
+    }
+  )
 
-  const todayTotals = new Map<string, number>()
-  for (const log of execLogs) {
-    const logDate = formatLocalDateISO(new Date(log.happened_at), timeZone)
-    if (logDate !== dateIso) continue
-    const qty = log.qty === null || log.qty === undefined ? 1 : Number(log.qty)
-    const prev = todayTotals.get(log.task_id) ?? 0
-    todayTotals.set(log.task_id, prev + (Number.isFinite(qty) ? qty : 0))
-  }
+  const dailyTotals = buildDailyTotals(execLogs, timeZone)
 
   const listRows: TaskListRow[] = tasks.map((task) => {
-    const targetToday = determineTargetForDate(task, dateIso, dayOfWeek)
-    const completedToday = todayTotals.get(task.id) ?? 0
+    const progress = determineProgressForDate(task, dateIso, dailyTotals.get(task.id))
+    const targetToday = progress.target
+    const completedToday = progress.completed
     const remainingToday = Math.max(targetToday - completedToday, 0)
     const statusToday = !taskActiveOnDate(task, dateIso)
       ? "inactive"
@@ -758,12 +1285,22 @@ export async function fetchTaskOverview(options?: {
       targetToday,
       completedToday,
       remainingToday,
+      progressScope: progress.scope,
       statusToday,
       createdAt: task.createdAt,
       updatedAt: task.updatedAt,
     }
   })
 
+  // An overnight slot that started last night and has not ended yet is in progress, so it goes first.
+  const dayStart = getDayBounds(dateIso, timeZone)?.start
+  const nowMinutes = dayStart ? Math.floor((baseDate.getTime() - dayStart.getTime()) / 60_000) : null
+  const slotSortMinutes = (slot: TimeSlotSummary) => {
+    if (!slot.overnight || nowMinutes === null) return slot.sortMinutes
+    const endMinutes = toMinutes(slot.endTime)
+    return nowMinutes >= 0 && nowMinutes < endMinutes ? endMinutes - MINUTES_IN_DAY : slot.sortMinutes
+  }
+
   const todayRows: TodayTaskRow[] = listRows
     .filter((row) => row.targetToday > 0)
     .flatMap((row) => {
@@ -780,11 +1317,13 @@ export async function fetchTaskOverview(options?: {
           anytime: slot.anytime,
           startTime: slot.startTime,
           endTime: slot.endTime,
+          overnight: slot.overnight,
           target: row.targetToday,
           completed: row.completedToday,
           remaining: row.remainingToday,
+          progressScope: row.progressScope,
           status,
-          sortMinutes: slot.sortMinutes,
+          sortMinutes: slotSortMinutes(slot),
         }
       })
     })
@@ -1,7 +1,10 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import { createServerClient } from '@supabase/ssr'
 import type { AstroCookies } from 'astro'
+import { SUPABASE_JWT_SECRET } from 'astro:env/server'
+import { hashApiToken, isPersonalAccessToken, type ApiTokenScope } from './api-tokens'
 import type { Database } from './database.types'
+import { extractBearerToken } from './http'
 
 const SUPABASE_URL = import.meta.env.PUBLIC_SUPABASE_URL
 const SUPABASE_ANON_KEY = import.meta.env.PUBLIC_SUPABASE_ANON_KEY
@@ -10,6 +13,9 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
   throw new Error('Supabase URL or anon key missing in environment variables')
 }
 
+/** Lifetime of the JWT a personal access token is exchanged for; it never leaves the server. */
+const API_TOKEN_SESSION_TTL_SEC = 5 * 60
+
 function ensureBearerToken(value?: string | null): string | null {
   if (!value) return null
   const trimmed = value.trim()
@@ -55,21 +61,23 @@ function readCookieFromHeader(header: string | null, name: string): string | und
   return undefined
 }
 
+function createBearerClient(bearer?: string) {
+  return createClient<Database>(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: {
+      headers: bearer ? { Authorization: bearer } : {},
+    },
+  })
+}
+
 export function createSupabaseServerClient(request: Request, cookies: AstroCookies, authHeader?: string | null) {
   const bearer = ensureBearerToken(authHeader)
 
   if (bearer) {
-    return createClient<Database>(SUPABASE_URL, SUPABASE_ANON_KEY, {
-      auth: {
-        persistSession: false,
-        autoRefreshToken: false,
-      },
-      global: {
-        headers: {
-          Authorization: bearer,
-        },
-      },
-    })
+    return createBearerClient(bearer)
   }
 
   return createServerClient<Database>(SUPABASE_URL, SUPABASE_ANON_KEY, {
@@ -77,12 +85,126 @@ export function createSupabaseServerClient(request: Request, cookies: AstroCooki
       get(name) {
         return cookies.get(name)?.value ?? readCookieFromHeader(request.headers.get('cookie'), name)
       },
-      set(_name, _value, _options) {
-        // no-op: API route currently does not need to set cookies
+      // Refreshed tokens are written back so the browser keeps the rotated session.
+      // Astro rejects cookie writes once the response has been sent; those are dropped.
+      set(name, value, options) {
+        try {
+          cookies.set(name, value, options)
+        } catch (error) {
+          console.warn('[TaskWorks] Failed to persist auth cookie', name, error)
+        }
       },
-      remove(_name, _options) {
-        // no-op
+      remove(name, options) {
+        try {
+          cookies.delete(name, options)
+        } catch (error) {
+          console.warn('[TaskWorks] Failed to clear auth cookie', name, error)
+        }
       },
     },
   })
 }
+
+function base64UrlEncode(input: string | Uint8Array): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** Signs a short-lived HS256 access token; PostgREST runs the request as `claims.role`. */
+async function signJwt(claims: Record<string, string>, secret: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const payload = base64UrlEncode(
+    JSON.stringify({
+      iss: `${SUPABASE_URL.replace(/\/+$/, '')}/auth/v1`,
+      ...claims,
+      iat: now,
+      exp: now + API_TOKEN_SESSION_TTL_SEC,
+    }),
+  )
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${header}.${payload}`))
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+/** Signs an access token for `userId` so PostgREST applies the user's RLS policies. */
+function signUserJwt(userId: string, secret: string): Promise<string> {
+  return signJwt({ sub: userId, aud: 'authenticated', role: 'authenticated' }, secret)
+}
+
+/**
+ * Client acting as the service role, for the few writes only the API may make
+ * (e.g. snoozes, whose severity the API works out). It bypasses RLS, so callers
+ * must pass the authenticated user's id explicitly. Null without SUPABASE_JWT_SECRET.
+ */
+export async function createServiceRoleClient(): Promise<SupabaseClient<Database> | null> {
+  if (!SUPABASE_JWT_SECRET) {
+    console.error('[TaskWorks] SUPABASE_JWT_SECRET is not set; service role requests are disabled')
+    return null
+  }
+  const jwt = await signJwt({ role: 'service_role' }, SUPABASE_JWT_SECRET)
+  return createBearerClient(`Bearer ${jwt}`)
+}
+
+async function authenticateApiToken(token: string, scope: ApiTokenScope): Promise<AuthenticatedRequest | null> {
+  if (!SUPABASE_JWT_SECRET) {
+    console.error('[TaskWorks] SUPABASE_JWT_SECRET is not set; personal API tokens are disabled')
+    return null
+  }
+
+  const { data: userId, error } = await createBearerClient().rpc('authenticate_api_token', {
+    p_token_hash: await hashApiToken(token),
+    p_scope: scope,
+  })
+  if (error) {
+    console.error('[TaskWorks] Failed to verify API token', error)
+    return null
+  }
+  if (!userId) return null
+
+  const jwt = await signUserJwt(userId, SUPABASE_JWT_SECRET)
+  return { supabase: createBearerClient(`Bearer ${jwt}`), userId, credential: 'api_token' }
+}
+
+export type AuthenticatedRequest = {
+  supabase: SupabaseClient<Database>
+  userId: string
+  /** How the caller authenticated; personal API tokens are limited to the route's scope. */
+  credential: 'session' | 'api_token'
+}
+
+/**
+ * Resolves the caller from the Authorization header (or an explicit token,
+ * e.g. from a query parameter), falling back to the session cookies.
+ * Personal API tokens are only accepted when the route names the scope they
+ * must carry (`apiTokenScope`).
+ */
+export async function authenticateRequest(
+  request: Request,
+  cookies: AstroCookies,
+  tokenOverride?: string | null,
+  apiTokenScope?: ApiTokenScope,
+): Promise<AuthenticatedRequest | null> {
+  const authHeader = request.headers.get('authorization') ?? tokenOverride ?? null
+  const token = extractBearerToken(authHeader)
+
+  if (isPersonalAccessToken(token)) {
+    return apiTokenScope ? authenticateApiToken(token, apiTokenScope) : null
+  }
+
+  const supabase = createSupabaseServerClient(request, cookies, authHeader) as SupabaseClient<Database>
+  const { data, error } = token ? await supabase.auth.getUser(token) : await supabase.auth.getUser()
+
+  if (error || !data?.user) {
+    return null
+  }
+  return { supabase, userId: data.user.id, credential: 'session' }
+}
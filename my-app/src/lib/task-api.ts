@@ -0,0 +1,418 @@
+// src/lib/task-api.ts
+// Validation and serialisation for the /api/v1/tasks routes. Input shapes
+// mirror CreateTaskInput / UpdateTaskInput in storage.supabase.ts, minus blocking policies.
+
+import type {
+  CreateTaskInput,
+  ExecutionInput,
+  ExecutionLog,
+  PeriodRuleInput,
+  Task,
+  TimeRuleInput,
+  UpdateTaskInput,
+} from "./storage.supabase"
+import type { ValidationResult } from "./http"
+import { formatLocalDateISO, isIsoDate, isValidTimeZone, type Cadence } from "./recurrence"
+import { formatRRule, parseRRule } from "./rrule"
+
+/** Task fields the API accepts. Blocking policies are only edited in the app. */
+export type TaskCreateBody = Omit<CreateTaskInput, "blockingPolicy" | "tagBlockingPolicies">
+export type TaskUpdateBody = Omit<UpdateTaskInput, "blockingPolicy" | "tagBlockingPolicies">
+
+const TASK_KEYS = new Set<keyof TaskUpdateBody>([
+  "title",
+  "detail",
+  "description",
+  "kind",
+  "active",
+  "startDate",
+  "endDate",
+  "periodRules",
+  "rrule",
+  "timeRules",
+  "tags",
+  "timezone",
+])
+const PERIOD_RULE_KEYS = new Set([
+  "cadence",
+  "timesPerPeriod",
+  "period",
+  "daysOfWeek",
+  "weekStart",
+  "intervalCount",
+  "timezone",
+])
+const TIME_RULE_KEYS = new Set(["startTime", "endTime", "anytime"])
+const CADENCES: Cadence[] = ["daily", "weekly", "monthly", "interval"]
+const PERIODS = ["day", "week", "month"]
+const TIME_PATTERN = /^([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$/
+const MAX_TITLE_LENGTH = 200
+const MAX_TAGS = 20
+const EXECUTION_KEYS = new Set(["happened_at", "qty", "note", "source"])
+const MAX_NOTE_LENGTH = 1000
+const MAX_SOURCE_LENGTH = 64
+// Tolerates clock skew between the client and the server.
+const FUTURE_TOLERANCE_MS = 5 * 60_000
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value)
+}
+
+function checkUnknownKeys(value: Record<string, unknown>, allowed: Set<string>, path: string, errors: string[]) {
+  for (const key of Object.keys(value)) {
+    if (!allowed.has(key)) errors.push(`${path}${key} is not a recognised field`)
+  }
+}
+
+function timeToMinutes(value: string): number {
+  const [hours, minutes] = value.split(":").map((token) => Number.parseInt(token, 10))
+  return hours * 60 + minutes
+}
+
+function validatePeriodRule(value: unknown, path: string, errors: string[]): PeriodRuleInput | null {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`)
+    return null
+  }
+  checkUnknownKeys(value, PERIOD_RULE_KEYS, `${path}.`, errors)
+
+  const { cadence, timesPerPeriod, period, daysOfWeek, weekStart, intervalCount, timezone } = value
+  if (typeof cadence !== "string" || !CADENCES.includes(cadence as Cadence)) {
+    errors.push(`${path}.cadence must be one of ${CADENCES.join(", ")}`)
+    return null
+  }
+  const rule: PeriodRuleInput = { cadence: cadence as Cadence }
+
+  if (timesPerPeriod !== undefined && timesPerPeriod !== null) {
+    if (!isInteger(timesPerPeriod) || timesPerPeriod < 0) {
+      errors.push(`${path}.timesPerPeriod must be a non-negative integer`)
+    } else {
+      rule.timesPerPeriod = timesPerPeriod
+    }
+  } else if (timesPerPeriod === null) {
+    rule.timesPerPeriod = null
+  }
+
+  if (period !== undefined && period !== null) {
+    if (typeof period !== "string" || !PERIODS.includes(period)) {
+      errors.push(`${path}.period must be one of ${PERIODS.join(", ")}`)
+    } else if (cadence === "interval" && period === "month") {
+      errors.push(`${path}.period must be day or week for interval rules`)
+    } else {
+      rule.period = period
+    }
+  }
+
+  if (daysOfWeek !== undefined && daysOfWeek !== null) {
+    const [min, max] = cadence === "monthly" ? [1, 31] : [0, 6]
+    if (!Array.isArray(daysOfWeek) || daysOfWeek.some((day) => !isInteger(day) || day < min || day > max)) {
+      errors.push(`${path}.daysOfWeek must be an array of integers between ${min} and ${max}`)
+    } else {
+      rule.daysOfWeek = Array.from(new Set(daysOfWeek as number[])).sort((a, b) => a - b)
+    }
+  } else if (daysOfWeek === null) {
+    rule.daysOfWeek = null
+  }
+
+  if (weekStart !== undefined && weekStart !== null) {
+    if (!isInteger(weekStart) || weekStart < 0 || weekStart > 6) {
+      errors.push(`${path}.weekStart must be an integer between 0 and 6`)
+    } else {
+      rule.weekStart = weekStart
+    }
+  }
+
+  if (intervalCount !== undefined && intervalCount !== null) {
+    if (!isInteger(intervalCount) || intervalCount < 1) {
+      errors.push(`${path}.intervalCount must be a positive integer`)
+    } else {
+      rule.intervalCount = intervalCount
+    }
+  }
+
+  if (timezone !== undefined) {
+    if (typeof timezone !== "string" || !isValidTimeZone(timezone)) {
+      errors.push(`${path}.timezone must be a valid IANA time zone`)
+    } else {
+      rule.timezone = timezone
+    }
+  }
+
+  return rule
+}
+
+function validateTimeRule(value: unknown, path: string, errors: string[]): TimeRuleInput | null {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`)
+    return null
+  }
+  checkUnknownKeys(value, TIME_RULE_KEYS, `${path}.`, errors)
+
+  const { startTime, endTime, anytime } = value
+  const rule: TimeRuleInput = {}
+
+  if (anytime !== undefined) {
+    if (typeof anytime !== "boolean") {
+      errors.push(`${path}.anytime must be a boolean`)
+    } else {
+      rule.anytime = anytime
+    }
+  }
+
+  for (const [key, time] of [["startTime", startTime], ["endTime", endTime]] as const) {
+    if (time === undefined || time === null) {
+      if (time === null) rule[key] = null
+      continue
+    }
+    if (typeof time !== "string" || !TIME_PATTERN.test(time)) {
+      errors.push(`${path}.${key} must be HH:MM`)
+    } else {
+      rule[key] = time
+    }
+  }
+
+  if (rule.anytime === false && !rule.startTime) {
+    errors.push(`${path}.startTime is required unless anytime is true`)
+  }
+  // An end before the start is an overnight slot (e.g. 23:00-01:00); only equal times are rejected.
+  if (rule.startTime && rule.endTime && timeToMinutes(rule.endTime) === timeToMinutes(rule.startTime)) {
+    errors.push(`${path}.endTime must differ from startTime`)
+  }
+
+  return rule
+}
+
+function validateTaskFields(value: Record<string, unknown>, errors: string[]): TaskUpdateBody {
+  checkUnknownKeys(value, TASK_KEYS, "", errors)
+  const input: TaskUpdateBody = {}
+
+  if (value.title !== undefined) {
+    if (typeof value.title !== "string" || !value.title.trim()) {
+      errors.push("title must be a non-empty string")
+    } else if (value.title.trim().length > MAX_TITLE_LENGTH) {
+      errors.push(`title must be at most ${MAX_TITLE_LENGTH} characters`)
+    } else {
+      input.title = value.title.trim()
+    }
+  }
+
+  for (const key of ["detail", "description"] as const) {
+    const text = value[key]
+    if (text === undefined) continue
+    if (text !== null && typeof text !== "string") {
+      errors.push(`${key} must be a string or null`)
+    } else {
+      input[key] = text
+    }
+  }
+
+  if (value.kind !== undefined) {
+    if (value.kind !== "single" && value.kind !== "habit") {
+      errors.push("kind must be single or habit")
+    } else {
+      input.kind = value.kind
+    }
+  }
+
+  if (value.active !== undefined) {
+    if (typeof value.active !== "boolean") {
+      errors.push("active must be a boolean")
+    } else {
+      input.active = value.active
+    }
+  }
+
+  for (const key of ["startDate", "endDate"] as const) {
+    const date = value[key]
+    if (date === undefined) continue
+    if (date !== null && (typeof date !== "string" || !isIsoDate(date))) {
+      errors.push(`${key} must be YYYY-MM-DD or null`)
+    } else {
+      input[key] = date
+    }
+  }
+  if (input.startDate && input.endDate && input.endDate < input.startDate) {
+    errors.push("endDate must not be before startDate")
+  }
+
+  if (value.periodRules !== undefined) {
+    if (!Array.isArray(value.periodRules)) {
+      errors.push("periodRules must be an array")
+    } else {
+      input.periodRules = value.periodRules
+        .map((rule, index) => validatePeriodRule(rule, `periodRules[${index}]`, errors))
+        .filter((rule): rule is PeriodRuleInput => rule !== null)
+    }
+  }
+
+  if (value.rrule !== undefined) {
+    if (typeof value.rrule !== "string" || !value.rrule.trim()) {
+      errors.push("rrule must be a non-empty string")
+    } else if (value.periodRules !== undefined) {
+      errors.push("rrule and periodRules cannot be combined")
+    } else {
+      const parsed = parseRRule(value.rrule, {
+        startDate: input.startDate || formatLocalDateISO(new Date(), "UTC"),
+      })
+      if (!parsed.ok) {
+        errors.push(`rrule: ${parsed.error}`)
+      } else {
+        input.rrule = value.rrule
+      }
+    }
+  }
+
+  if (value.timeRules !== undefined) {
+    if (!Array.isArray(value.timeRules)) {
+      errors.push("timeRules must be an array")
+    } else {
+      input.timeRules = value.timeRules
+        .map((rule, index) => validateTimeRule(rule, `timeRules[${index}]`, errors))
+        .filter((rule): rule is TimeRuleInput => rule !== null)
+    }
+  }
+
+  if (value.tags !== undefined) {
+    if (!Array.isArray(value.tags) || value.tags.some((tag) => typeof tag !== "string")) {
+      errors.push("tags must be an array of strings")
+    } else if (value.tags.length > MAX_TAGS) {
+      errors.push(`tags must contain at most ${MAX_TAGS} entries`)
+    } else {
+      input.tags = (value.tags as string[]).map((tag) => tag.trim()).filter(Boolean)
+    }
+  }
+
+  if (value.timezone !== undefined) {
+    if (typeof value.timezone !== "string" || !isValidTimeZone(value.timezone)) {
+      errors.push("timezone must be a valid IANA time zone")
+    } else {
+      input.timezone = value.timezone
+    }
+  }
+
+  return input
+}
+
+export function validateCreateTaskInput(value: unknown): ValidationResult<TaskCreateBody> {
+  if (!isRecord(value)) return { ok: false, errors: ["body must be a JSON object"] }
+  const errors: string[] = []
+  if (value.title === undefined) errors.push("title is required")
+  const input = validateTaskFields(value, errors)
+  if (errors.length) return { ok: false, errors }
+  return {
+    ok: true,
+    value: {
+      ...input,
+      title: input.title as string,
+      startDate: input.startDate ?? undefined,
+      endDate: input.endDate ?? undefined,
+    },
+  }
+}
+
+export function validateUpdateTaskInput(value: unknown): ValidationResult<TaskUpdateBody> {
+  if (!isRecord(value)) return { ok: false, errors: ["body must be a JSON object"] }
+  const errors: string[] = []
+  const input = validateTaskFields(value, errors)
+  if (!errors.length && !Object.keys(input).length) errors.push("no fields to update")
+  if (errors.length) return { ok: false, errors }
+  return { ok: true, value: input }
+}
+
+export type TaskResource = Omit<Task, "createdAt" | "updatedAt" | "done"> & {
+  /** RRULE equivalent of the schedule, or null when it has no RRULE form. */
+  rrule: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export function serializeTask(task: Task): TaskResource {
+  const { done: _done, ...rest } = task
+  const rrule =
+    task.periodRules.length === 1 ? formatRRule(task.periodRules[0], { until: task.endDate }) : null
+  return {
+    ...rest,
+    rrule: rrule?.ok ? rrule.value : null,
+    createdAt: new Date(task.createdAt).toISOString(),
+    updatedAt: new Date(task.updatedAt).toISOString(),
+  }
+}
+
+export function validateExecutionInput(value: unknown, now = new Date()): ValidationResult<ExecutionInput> {
+  if (value === undefined) return { ok: true, value: {} }
+  if (!isRecord(value)) return { ok: false, errors: ["body must be a JSON object"] }
+  const errors: string[] = []
+  checkUnknownKeys(value, EXECUTION_KEYS, "", errors)
+  const input: ExecutionInput = {}
+
+  if (value.happened_at !== undefined && value.happened_at !== null) {
+    const parsed = typeof value.happened_at === "string" ? new Date(value.happened_at) : null
+    if (!parsed || Number.isNaN(parsed.getTime())) {
+      errors.push("happened_at must be an ISO 8601 timestamp")
+    } else if (parsed.getTime() > now.getTime() + FUTURE_TOLERANCE_MS) {
+      errors.push("happened_at must not be in the future")
+    } else {
+      input.happenedAt = parsed.toISOString()
+    }
+  }
+
+  if (value.qty !== undefined && value.qty !== null) {
+    if (typeof value.qty !== "number" || !Number.isFinite(value.qty) || value.qty <= 0) {
+      errors.push("qty must be a positive number")
+    } else {
+      input.qty = value.qty
+    }
+  }
+
+  if (value.note === null) {
+    input.note = null
+  } else if (value.note !== undefined) {
+    if (typeof value.note !== "string") {
+      errors.push("note must be a string or null")
+    } else if (value.note.length > MAX_NOTE_LENGTH) {
+      errors.push(`note must be at most ${MAX_NOTE_LENGTH} characters`)
+    } else {
+      input.note = value.note
+    }
+  }
+
+  if (value.source !== undefined && value.source !== null) {
+    if (typeof value.source !== "string" || !value.source.trim()) {
+      errors.push("source must be a non-empty string")
+    } else if (value.source.length > MAX_SOURCE_LENGTH) {
+      errors.push(`source must be at most ${MAX_SOURCE_LENGTH} characters`)
+    } else {
+      input.source = value.source
+    }
+  }
+
+  if (errors.length) return { ok: false, errors }
+  return { ok: true, value: input }
+}
+
+/** Executions keep the exec_logs column names, like the blocking windows payload. */
+export type ExecutionResource = {
+  id: string
+  task_id: string
+  happened_at: string
+  qty: number
+  note: string | null
+  source: string | null
+  created_at: string
+}
+
+export function serializeExecution(log: ExecutionLog): ExecutionResource {
+  return {
+    id: log.id,
+    task_id: log.taskId,
+    happened_at: log.happenedAt,
+    qty: log.qty,
+    note: log.note,
+    source: log.source,
+    created_at: log.createdAt,
+  }
+}
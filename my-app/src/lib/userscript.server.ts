@@ -0,0 +1,49 @@
+// Builds url-block.user.js for this deployment: update/download URLs point back
+// at the deployment and the API base URL (plus, optionally, a personal API
+// token) become the script's defaults. The endpoint helpers are swapped for the
+// API client's, so the script and the tester resolve base URLs the same way.
+import endpointsSource from './api-client/endpoints.js?raw'
+import scriptSource from '../violentmonkey/url-block.js?raw'
+import { userscriptInstallUrl } from './userscript'
+
+const DISTRIBUTION_PATTERN = /const DISTRIBUTION = \{ API_BASE: '[^']*', API_TOKEN: '[^']*' \};/
+const API_CLIENT_REGION = /^( *)\/\/ #region api-client\n[\s\S]*?\n *\/\/ #endregion api-client$/m
+
+/** endpoints.js as plain function declarations, indented to sit inside the script's IIFE. */
+function inlineEndpoints(indent: string): string {
+  return endpointsSource
+    .replace(/^export /gm, '')
+    .trim()
+    .split('\n')
+    .map((line) => (line ? `${indent}${line}` : line))
+    .join('\n')
+}
+
+export type UserscriptBuildOptions = {
+  /** Absolute origin of the deployment, e.g. https://taskworks.example; empty leaves the defaults blank. */
+  siteUrl: string
+  apiToken?: string | null
+}
+
+export function buildUserscript({ siteUrl, apiToken = null }: UserscriptBuildOptions): string {
+  const source = scriptSource.replace(
+    API_CLIENT_REGION,
+    (_region, indent: string) => `${indent}// #region api-client\n${inlineEndpoints(indent)}\n${indent}// #endregion api-client`,
+  )
+  const base = siteUrl.replace(/\/+$/, '')
+  if (!base) return source
+
+  const installUrl = userscriptInstallUrl(base, apiToken)
+  const metadata = [
+    `// @homepageURL  ${base}/extensions/url-blacklist-redirect`,
+    `// @updateURL    ${installUrl}`,
+    `// @downloadURL  ${installUrl}`,
+  ].join('\n')
+
+  return source
+    .replace(/^\/\/ @version .*$/m, (line) => `${line}\n${metadata}`)
+    .replace(
+      DISTRIBUTION_PATTERN,
+      `const DISTRIBUTION = { API_BASE: ${JSON.stringify(base)}, API_TOKEN: ${JSON.stringify(apiToken ?? '')} };`,
+    )
+}
@@ -0,0 +1,14 @@
+// Where the blocking userscript is served from. Kept apart from the builder so
+// client components can link to it without bundling the script source.
+
+export const USERSCRIPT_PATH = '/extensions/url-block.user.js'
+
+/**
+ * Install (and update) URL of the userscript. With a personal API token the
+ * script is served with the token pre-seeded, and since the update URL keeps
+ * the token, updates roll out without asking for it again.
+ */
+export function userscriptInstallUrl(siteUrl: string, apiToken?: string | null): string {
+  const url = `${siteUrl.replace(/\/+$/, '')}${USERSCRIPT_PATH}`
+  return apiToken ? `${url}?token=${encodeURIComponent(apiToken)}` : url
+}
@@ -0,0 +1,61 @@
+import { defineMiddleware } from 'astro:middleware'
+import { createSupabaseServerClient } from '~/lib/supabase.server'
+
+const LOGIN_PATH = '/login'
+
+// API routes authenticate per request (bearer tokens included), and the OAuth
+// callback must run before a session exists.
+const PUBLIC_PREFIXES = ['/api/', '/auth/', '/_astro/', '/_image', '/images/']
+
+const PROTECTED_PATHS = ['/', '/today', '/tasks', '/settings']
+
+function isPublicAsset(pathname: string): boolean {
+  return PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix)) || /\.[a-z0-9]+$/i.test(pathname)
+}
+
+function isProtectedPage(pathname: string): boolean {
+  const normalized = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname
+  return PROTECTED_PATHS.some((path) =>
+    path === '/' ? normalized === '/' : normalized === path || normalized.startsWith(`${path}/`),
+  )
+}
+
+/**
+ * Builds the login URL for a protected page. The original path and query go into
+ * `redirect` (the login page hands it to sign-in as the REDIRECT_URL_STORAGE_KEY
+ * target); `auth_error` from a failed callback is lifted onto the login page.
+ */
+function buildLoginUrl(url: URL): string {
+  const target = new URL(url)
+  const authError = target.searchParams.get('auth_error')
+  target.searchParams.delete('auth_error')
+
+  const params = new URLSearchParams({ redirect: `${target.pathname}${target.search}` })
+  if (authError) params.set('auth_error', authError)
+  return `${LOGIN_PATH}?${params.toString()}`
+}
+
+export const onRequest = defineMiddleware(async ({ request, cookies, locals, url, redirect }, next) => {
+  locals.user = null
+  locals.supabase = null
+
+  if (isPublicAsset(url.pathname)) {
+    return next()
+  }
+
+  const supabase = createSupabaseServerClient(request, cookies)
+  locals.supabase = supabase
+
+  try {
+    const { data, error } = await supabase.auth.getUser()
+    if (!error) locals.user = data.user
+  } catch (error) {
+    console.error('[TaskWorks] Failed to resolve the request session', error)
+  }
+
+  if (!locals.user && isProtectedPage(url.pathname)) {
+    return redirect(buildLoginUrl(url), 302)
+  }
+
+  return next()
+})
@@ -0,0 +1,76 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { buildCorsHeaders, isUuid, jsonResponse, readJsonBody } from '~/lib/http'
+import {
+  deleteBlocklistEntry,
+  describeBlocklistError,
+  updateBlocklistEntry,
+  validateBlocklistEntryPatch,
+} from '~/lib/blocklist'
+
+const METHODS = 'PATCH,DELETE,OPTIONS'
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request, METHODS),
+  })
+}
+
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies)
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const id = params.id
+  if (!isUuid(id)) {
+    return jsonResponse({ error: 'Blocklist entry not found' }, 404, request, METHODS)
+  }
+
+  const validation = validateBlocklistEntryPatch(await readJsonBody(request))
+  if (!validation.ok) {
+    return jsonResponse({ error: 'Invalid blocklist entry', details: validation.errors }, 400, request, METHODS)
+  }
+
+  try {
+    const entry = await updateBlocklistEntry(id, validation.value, auth.supabase)
+    if (!entry) {
+      return jsonResponse({ error: 'Blocklist entry not found' }, 404, request, METHODS)
+    }
+    return jsonResponse({ entry }, 200, request, METHODS)
+  } catch (error) {
+    const clientError = describeBlocklistError(error)
+    if (clientError) {
+      return jsonResponse({ error: clientError.message }, clientError.status, request, METHODS)
+    }
+    console.error('[TaskWorks] Failed to update blocklist entry', error)
+    return jsonResponse({ error: 'Failed to update blocklist entry' }, 500, request, METHODS)
+  }
+}
+
+export const DELETE: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies)
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const id = params.id
+  if (!isUuid(id)) {
+    return jsonResponse({ error: 'Blocklist entry not found' }, 404, request, METHODS)
+  }
+
+  try {
+    const deleted = await deleteBlocklistEntry(id, auth.supabase)
+    if (!deleted) {
+      return jsonResponse({ error: 'Blocklist entry not found' }, 404, request, METHODS)
+    }
+    return new Response(null, {
+      status: 204,
+      headers: buildCorsHeaders(request, METHODS),
+    })
+  } catch (error) {
+    console.error('[TaskWorks] Failed to delete blocklist entry', error)
+    return jsonResponse({ error: 'Failed to delete blocklist entry' }, 500, request, METHODS)
+  }
+}
@@ -0,0 +1,60 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { buildCorsHeaders, jsonResponse, readJsonBody } from '~/lib/http'
+import {
+  createBlocklistEntry,
+  describeBlocklistError,
+  listBlocklistEntries,
+  validateBlocklistEntryInput,
+} from '~/lib/blocklist'
+
+const METHODS = 'GET,POST,OPTIONS'
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request, METHODS),
+  })
+}
+
+// Clients holding a `blocks:read` token may read the list, e.g. to show it offline.
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'blocks:read')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  try {
+    const entries = await listBlocklistEntries(auth.supabase)
+    return jsonResponse({ entries }, 200, request, METHODS)
+  } catch (error) {
+    console.error('[TaskWorks] Failed to list blocklist entries', error)
+    return jsonResponse({ error: 'Failed to list blocklist entries' }, 500, request, METHODS)
+  }
+}
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies)
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const validation = validateBlocklistEntryInput(await readJsonBody(request))
+  if (!validation.ok) {
+    return jsonResponse({ error: 'Invalid blocklist entry', details: validation.errors }, 400, request, METHODS)
+  }
+
+  try {
+    const entry = await createBlocklistEntry(validation.value, auth.supabase)
+    const response = jsonResponse({ entry }, 201, request, METHODS)
+    response.headers.set('Location', `/api/v1/blocklist/${entry.id}`)
+    return response
+  } catch (error) {
+    const clientError = describeBlocklistError(error)
+    if (clientError) {
+      return jsonResponse({ error: clientError.message }, clientError.status, request, METHODS)
+    }
+    console.error('[TaskWorks] Failed to create blocklist entry', error)
+    return jsonResponse({ error: 'Failed to create blocklist entry' }, 500, request, METHODS)
+  }
+}
@@ -0,0 +1,92 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import {
+  insertBlockEvents,
+  listBlockEvents,
+  summarizeBlockEvents,
+  validateBlockEventsInput,
+} from '~/lib/block-events'
+import { buildCorsHeaders, jsonResponse, readJsonBody, resolveDateIso, sanitizeTimeZone } from '~/lib/http'
+import { addDaysIso, daysBetweenIso, getDayBounds, isIsoDate } from '~/lib/recurrence'
+
+const METHODS = 'GET,POST,OPTIONS'
+const DEFAULT_REPORT_DAYS = 7
+const MAX_REPORT_DAYS = 92
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request, METHODS),
+  })
+}
+
+// Events between `from` and `to` (inclusive days in `tz`, the last week by
+// default) plus the aggregated distraction report.
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'blocks:read')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const url = new URL(request.url)
+  const timeZone = sanitizeTimeZone(url.searchParams.get('tz')) || 'UTC'
+  const toParam = url.searchParams.get('to')
+  const fromParam = url.searchParams.get('from')
+  if ((toParam !== null && !isIsoDate(toParam)) || (fromParam !== null && !isIsoDate(fromParam))) {
+    return jsonResponse({ error: 'from and to must be YYYY-MM-DD dates' }, 400, request, METHODS)
+  }
+  const toIso = resolveDateIso(toParam, timeZone)
+  const fromIso = fromParam ?? addDaysIso(toIso, 1 - DEFAULT_REPORT_DAYS)
+  if (fromIso > toIso || daysBetweenIso(fromIso, toIso) >= MAX_REPORT_DAYS) {
+    return jsonResponse(
+      { error: `from must not be after to, and the range must not exceed ${MAX_REPORT_DAYS} days` },
+      400,
+      request,
+      METHODS,
+    )
+  }
+  const start = getDayBounds(fromIso, timeZone)?.start
+  const end = getDayBounds(toIso, timeZone)?.end
+  if (!start || !end) {
+    return jsonResponse({ error: 'Failed to resolve the date range' }, 500, request, METHODS)
+  }
+
+  try {
+    const events = await listBlockEvents({ from: start.toISOString(), to: end.toISOString() }, auth.supabase)
+    return jsonResponse(
+      { from: fromIso, to: toIso, events, report: summarizeBlockEvents(events) },
+      200,
+      request,
+      METHODS,
+    )
+  } catch (error) {
+    console.error('[TaskWorks] Failed to list block events', error)
+    return jsonResponse({ error: 'Failed to list block events' }, 500, request, METHODS)
+  }
+}
+
+// Records blocked visits. Accepts one event or `{ events: [...] }` so clients
+// can flush what they queued while offline.
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'blocks:events')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const validation = validateBlockEventsInput(await readJsonBody(request))
+  if (!validation.ok) {
+    return jsonResponse({ error: 'Invalid block events', details: validation.errors }, 400, request, METHODS)
+  }
+
+  try {
+    const accepted = await insertBlockEvents(validation.value, auth.supabase)
+    return jsonResponse({ accepted }, 201, request, METHODS)
+  } catch (error) {
+    const code = typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined
+    if (code === '23503' || code === '42501') {
+      return jsonResponse({ error: 'Unknown task' }, 400, request, METHODS)
+    }
+    console.error('[TaskWorks] Failed to record block events', error)
+    return jsonResponse({ error: 'Failed to record block events' }, 500, request, METHODS)
+  }
+}
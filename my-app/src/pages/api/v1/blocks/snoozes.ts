@@ -0,0 +1,142 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest, createServiceRoleClient } from '~/lib/supabase.server'
+import { loadBlockingWindows } from '~/lib/block-windows.server'
+import { buildCorsHeaders, jsonResponse, readJsonBody, resolveDateIso, sanitizeTimeZone } from '~/lib/http'
+import { addDaysIso, getDayBounds } from '~/lib/recurrence'
+import {
+  MAX_STRICT_SNOOZES_PER_DAY,
+  countStrictSnoozes,
+  createSnooze,
+  isStrictSnoozeLimitError,
+  listSnoozes,
+  validateSnoozeInput,
+} from '~/lib/snoozes'
+
+const METHODS = 'GET,POST,OPTIONS'
+const DEFAULT_HISTORY_DAYS = 7
+const MAX_HISTORY_DAYS = 90
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request, METHODS),
+  })
+}
+
+function resolveToday(url: URL) {
+  const timeZone = sanitizeTimeZone(url.searchParams.get('tz')) || 'UTC'
+  const dateIso = resolveDateIso(null, timeZone)
+  return { timeZone, dateIso, bounds: getDayBounds(dateIso, timeZone) }
+}
+
+// Lists recent snoozes together with how many strict snoozes are left today.
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'blocks:read')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const url = new URL(request.url)
+  const { timeZone, dateIso, bounds } = resolveToday(url)
+  const days = Number(url.searchParams.get('days') ?? DEFAULT_HISTORY_DAYS)
+  if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+    return jsonResponse(
+      { error: `days must be an integer between 1 and ${MAX_HISTORY_DAYS}` },
+      400,
+      request,
+      METHODS,
+    )
+  }
+  const historyStart = getDayBounds(addDaysIso(dateIso, 1 - days), timeZone)?.start
+  if (!bounds || !historyStart) {
+    return jsonResponse({ error: 'Failed to resolve the current day' }, 500, request, METHODS)
+  }
+
+  try {
+    const [snoozes, strictUsed] = await Promise.all([
+      listSnoozes({ from: historyStart.toISOString() }, auth.supabase),
+      countStrictSnoozes({ from: bounds.start.toISOString(), to: bounds.end.toISOString() }, auth.supabase),
+    ])
+    return jsonResponse(
+      {
+        snoozes,
+        strictLimitPerDay: MAX_STRICT_SNOOZES_PER_DAY,
+        strictRemainingToday: Math.max(MAX_STRICT_SNOOZES_PER_DAY - strictUsed, 0),
+      },
+      200,
+      request,
+      METHODS,
+    )
+  } catch (error) {
+    console.error('[TaskWorks] Failed to list snoozes', error)
+    return jsonResponse({ error: 'Failed to list snoozes' }, 500, request, METHODS)
+  }
+}
+
+// Lifts every blocking window for `durationMinutes`, starting now. Snoozing a
+// strict window counts towards the daily limit.
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'blocks:snooze')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const validation = validateSnoozeInput(await readJsonBody(request))
+  if (!validation.ok) {
+    return jsonResponse({ error: 'Invalid snooze', details: validation.errors }, 400, request, METHODS)
+  }
+
+  const url = new URL(request.url)
+  const { timeZone, dateIso, bounds } = resolveToday(url)
+  if (!bounds) {
+    return jsonResponse({ error: 'Failed to resolve the current day' }, 500, request, METHODS)
+  }
+
+  const now = new Date()
+  let activeWindows
+  try {
+    const { windows } = await loadBlockingWindows(auth.supabase, { dateIso, timeZone, applySnoozes: false })
+    activeWindows = windows.filter(
+      (window) => Date.parse(window.start_at) <= now.getTime() && now.getTime() < Date.parse(window.end_at),
+    )
+  } catch (error) {
+    console.error('[TaskWorks] Failed to load blocking windows', error)
+    return jsonResponse({ error: 'Failed to load blocking windows' }, 500, request, METHODS)
+  }
+  const serviceClient = await createServiceRoleClient()
+  if (!serviceClient) {
+    return jsonResponse({ error: 'Snoozes are not configured on this server' }, 500, request, METHODS)
+  }
+
+  const severities = activeWindows.map((window) => window.policy.severity)
+  const severity = severities.includes('strict') ? 'strict' : severities.includes('lenient') ? 'lenient' : null
+
+  try {
+    const snooze = await createSnooze({ ...validation.value, userId: auth.userId, severity, timeZone }, serviceClient)
+    const strictUsed = await countStrictSnoozes(
+      { from: bounds.start.toISOString(), to: bounds.end.toISOString() },
+      auth.supabase,
+    )
+    return jsonResponse(
+      {
+        snooze,
+        strictLimitPerDay: MAX_STRICT_SNOOZES_PER_DAY,
+        strictRemainingToday: Math.max(MAX_STRICT_SNOOZES_PER_DAY - strictUsed, 0),
+      },
+      201,
+      request,
+      METHODS,
+    )
+  } catch (error) {
+    if (isStrictSnoozeLimitError(error)) {
+      return jsonResponse(
+        { error: `Strict windows can be snoozed at most ${MAX_STRICT_SNOOZES_PER_DAY} times per day` },
+        429,
+        request,
+        METHODS,
+      )
+    }
+    console.error('[TaskWorks] Failed to create snooze', error)
+    return jsonResponse({ error: 'Failed to create snooze' }, 500, request, METHODS)
+  }
+}
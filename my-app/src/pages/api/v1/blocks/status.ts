@@ -0,0 +1,47 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { buildCorsHeaders, jsonResponse, sanitizeTimeZone } from '~/lib/http'
+import * as store from '~/lib/storage.supabase'
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request),
+  })
+}
+
+// Today's remaining tasks for blocking clients (the browser extension's popup),
+// readable with the same `blocks:read` token as the windows.
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'blocks:read')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request)
+  }
+
+  const url = new URL(request.url)
+  const timeZone = sanitizeTimeZone(url.searchParams.get('tz')) || 'UTC'
+
+  try {
+    const overview = await store.fetchTaskOverview({ timeZone, supabase: auth.supabase })
+    const remaining = overview.list.filter((task) => task.statusToday === 'todo')
+    return jsonResponse(
+      {
+        dateIso: overview.dateIso,
+        timeZone: overview.timeZone,
+        remainingTaskCount: remaining.length,
+        remainingTasks: remaining.map((task) => ({
+          id: task.id,
+          title: task.title,
+          completed: task.completedToday,
+          target: task.targetToday,
+          progressScope: task.progressScope,
+        })),
+      },
+      200,
+      request,
+    )
+  } catch (error) {
+    console.error('[TaskWorks] Failed to load task overview', error)
+    return jsonResponse({ error: 'Failed to load task overview' }, 500, request)
+  }
+}
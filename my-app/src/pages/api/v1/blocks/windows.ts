@@ -1,18 +1,23 @@
 import type { APIRoute } from 'astro'
-import { createSupabaseServerClient } from '~/lib/supabase.server'
-import { buildBlockingWindowsFromRows, getDayBounds } from '~/lib/block-windows'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { MAX_WINDOW_RANGE_DAYS } from '~/lib/block-windows'
+import { loadBlockingWindows } from '~/lib/block-windows.server'
+import {
+  buildCorsHeaders,
+  cacheableJsonResponse,
+  jsonResponse,
+  resolveBoolean,
+  resolveDateIso,
+  resolveNumber,
+  sanitizeTimeZone,
+} from '~/lib/http'
+import { addDaysIso, daysBetweenIso, isIsoDate } from '~/lib/recurrence'
 
 const DEFAULT_PRE_GRACE_MIN = 0
 const DEFAULT_POST_GRACE_MIN = 0
 const DEFAULT_DURATION_MIN = 60
-
-const DEFAULT_REDIRECT_URL = (() => {
-  const siteUrl = import.meta.env.PUBLIC_SITE_URL
-  if (typeof siteUrl === 'string' && siteUrl.length > 0) {
-    return `${siteUrl.replace(/\/?$/, '')}/`
-  }
-  return 'https://taskworks.example/'
-})()
+// Clients revalidate with If-None-Match on every fetch; unchanged schedules cost a 304.
+const CACHE_CONTROL = 'private, no-cache'
 
 export const OPTIONS: APIRoute = ({ request }) => {
   return new Response(null, {
@@ -22,21 +27,42 @@ export const OPTIONS: APIRoute = ({ request }) => {
 }
 
 export const GET: APIRoute = async ({ request, cookies }) => {
-  const authHeader = request.headers.get('authorization')
-  const supabase = createSupabaseServerClient(request, cookies, authHeader)
-  const token = extractBearerToken(authHeader)
-  const { data: userResult, error: userError } = token
-    ? await supabase.auth.getUser(token)
-    : await supabase.auth.getUser()
-
-  if (userError || !userResult?.user) {
+  const auth = await authenticateRequest(request, cookies, null, 'blocks:read')
+  if (!auth) {
     return jsonResponse({ error: 'Unauthorized' }, 401, request)
   }
+  const { supabase } = auth
 
   const url = new URL(request.url)
   const tzParam = sanitizeTimeZone(url.searchParams.get('tz'))
   const timeZone = tzParam || 'UTC'
-  const dateIso = resolveDateIso(url.searchParams.get('date'), timeZone)
+  // `from` (or the older `date`) starts the range, today when omitted; `to` or `days` extend it.
+  const fromParam = url.searchParams.get('from') ?? url.searchParams.get('date')
+  if (fromParam !== null && !isIsoDate(fromParam)) {
+    return jsonResponse({ error: 'from must be a YYYY-MM-DD date' }, 400, request)
+  }
+  const dateIso = resolveDateIso(fromParam, timeZone)
+  const toParam = url.searchParams.get('to')
+  const daysParam = url.searchParams.get('days')
+  let endDateIso = dateIso
+  if (toParam !== null) {
+    if (!isIsoDate(toParam)) {
+      return jsonResponse({ error: 'to must be a YYYY-MM-DD date' }, 400, request)
+    }
+    endDateIso = toParam
+  } else if (daysParam !== null) {
+    const days = Number(daysParam)
+    if (!Number.isInteger(days) || days < 1 || days > MAX_WINDOW_RANGE_DAYS) {
+      return jsonResponse({ error: `days must be an integer between 1 and ${MAX_WINDOW_RANGE_DAYS}` }, 400, request)
+    }
+    endDateIso = addDaysIso(dateIso, days - 1)
+  }
+  if (endDateIso < dateIso) {
+    return jsonResponse({ error: 'to must not be before from' }, 400, request)
+  }
+  if (daysBetweenIso(dateIso, endDateIso) >= MAX_WINDOW_RANGE_DAYS) {
+    return jsonResponse({ error: `Date range must not exceed ${MAX_WINDOW_RANGE_DAYS} days` }, 400, request)
+  }
   const focusOnly = resolveBoolean(url.searchParams.get('focus_only'), false)
   const mergeOverlaps = resolveBoolean(url.searchParams.get('merge'), false)
   const debugMode = resolveBoolean(url.searchParams.get('debug'), false)
@@ -44,66 +70,25 @@ export const GET: APIRoute = async ({ request, cookies }) => {
   const postGrace = resolveNumber(url.searchParams.get('post_grace_min'), DEFAULT_POST_GRACE_MIN)
   const durationDefault = resolveNumber(url.searchParams.get('duration_default_min'), DEFAULT_DURATION_MIN)
 
-  const { data: taskRows, error: taskError } = await supabase
-    .from('task_defs')
-    .select(
-      `id, title, description, kind, active, start_date, end_date,
-        period_rules (*), time_rules (*),
-        task_tags ( tag_id, tags ( id, name ) )`
-    )
-    .eq('active', true)
-
-  if (taskError) {
-    console.error('[TaskWorks] Failed to fetch tasks', taskError)
-    return jsonResponse({ error: 'Failed to fetch tasks' }, 500, request)
-  }
-
-  const taskList = (taskRows ?? []) as any[]
-  const taskIds = taskList
-    .map((row) => row?.id)
-    .filter((id): id is string => typeof id === 'string' && id.length > 0)
-
-  let completedCounts: Record<string, number> = {}
-
-  if (taskIds.length) {
-    const bounds = getDayBounds(dateIso, timeZone)
-    if (bounds) {
-      const { data: execLogs, error: execError } = await supabase
-        .from('exec_logs')
-        .select('task_id, happened_at, qty')
-        .in('task_id', taskIds)
-        .gte('happened_at', bounds.start.toISOString())
-        .lt('happened_at', bounds.end.toISOString())
-
-      if (execError) {
-        console.warn('[TaskWorks] Failed to fetch exec logs', execError)
-      } else {
-        const counts: Record<string, number> = {}
-        type ExecLogRow = { task_id: string | null; qty?: number | string | null }
-        for (const log of (execLogs ?? []) as ExecLogRow[]) {
-          const taskId = log.task_id
-          if (!taskId) continue
-          const qtyRaw = (log as { qty?: number | null | string }).qty
-          const qtyParsed = qtyRaw === null || qtyRaw === undefined ? 1 : Number(qtyRaw)
-          const qty = Number.isFinite(qtyParsed) ? qtyParsed : 1
-          counts[taskId] = (counts[taskId] ?? 0) + qty
-        }
-        completedCounts = counts
-      }
-    }
+  let loaded
+  try {
+    loaded = await loadBlockingWindows(supabase, {
+      dateIso,
+      endDateIso,
+      timeZone,
+      preGraceMinutes: preGrace,
+      postGraceMinutes: postGrace,
+      durationDefaultMinutes: durationDefault,
+      focusOnly,
+      mergeOverlaps,
+    })
+  } catch (error) {
+    console.error('[TaskWorks] Failed to load blocking windows', error)
+    const message = error instanceof Error ? error.message : 'Failed to load blocking windows'
+    return jsonResponse({ error: message }, 500, request)
   }
-
-  const windows = buildBlockingWindowsFromRows(taskList as any, {
-    dateIso,
-    timeZone,
-    preGraceMinutes: preGrace,
-    postGraceMinutes: postGrace,
-    durationDefaultMinutes: durationDefault,
-    redirectUrlDefault: DEFAULT_REDIRECT_URL,
-    focusOnly,
-    mergeOverlaps,
-    completedCounts,
-  })
+  const { windows, completedCountsByDate } = loaded
+  const completedCounts = completedCountsByDate[dateIso] ?? {}
 
   if (debugMode) {
     return jsonResponse(
@@ -111,12 +96,14 @@ export const GET: APIRoute = async ({ request, cookies }) => {
         windows,
         meta: {
           dateIso,
+          endDateIso,
           timeZone,
           focusOnly,
           mergeOverlaps,
-          taskCount: taskRows?.length ?? 0,
+          taskCount: loaded.taskCount,
           completedTaskCount: Object.keys(completedCounts).length,
           completedCounts,
+          completedCountsByDate,
           windowCount: windows.length,
         },
       },
@@ -125,80 +112,5 @@ export const GET: APIRoute = async ({ request, cookies }) => {
     )
   }
 
-  return jsonResponse(windows, 200, request)
-}
-
-function jsonResponse(payload: unknown, status: number, request: Request): Response {
-  return new Response(JSON.stringify(payload), {
-    status,
-    headers: {
-      'Content-Type': 'application/json; charset=utf-8',
-      ...buildCorsHeaders(request),
-    },
-  })
-}
-
-function buildCorsHeaders(request: Request): Record<string, string> {
-  const origin = request.headers.get('origin')
-  if (origin) {
-    return {
-      'Access-Control-Allow-Origin': origin,
-      'Access-Control-Allow-Methods': 'GET,OPTIONS',
-      'Access-Control-Allow-Headers': 'Authorization,Content-Type,Accept',
-      'Access-Control-Allow-Credentials': 'true',
-      Vary: 'Origin',
-    }
-  }
-  return {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET,OPTIONS',
-    'Access-Control-Allow-Headers': 'Authorization,Content-Type,Accept',
-  }
-}
-
-function resolveDateIso(dateParam: string | null, timeZone: string): string {
-  if (dateParam && /^[0-9]{4}-[0-9]{2}-[0-9]{2}$/.test(dateParam)) {
-    return dateParam
-  }
-  const formatter = new Intl.DateTimeFormat('en-CA', {
-    timeZone,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-  })
-  return formatter.format(new Date())
-}
-
-function resolveBoolean(value: string | null, fallback: boolean): boolean {
-  if (value === null) return fallback
-  const lowered = value.toLowerCase()
-  if (['true', '1', 'yes', 'y'].includes(lowered)) return true
-  if (['false', '0', 'no', 'n'].includes(lowered)) return false
-  return fallback
-}
-
-function resolveNumber(value: string | null, fallback: number): number {
-  if (value === null) return fallback
-  const parsed = Number.parseFloat(value)
-  if (!Number.isFinite(parsed) || parsed < 0) return fallback
-  return parsed
-}
-
-function sanitizeTimeZone(value: string | null): string {
-  if (!value) return ''
-  const trimmed = value.trim()
-  if (!trimmed) return ''
-  try {
-    new Intl.DateTimeFormat('en-US', { timeZone: trimmed })
-    return trimmed
-  } catch (_error) {
-    return ''
-  }
-}
-
-function extractBearerToken(authHeader: string | null): string | null {
-  if (!authHeader) return null
-  const match = authHeader.match(/^Bearer\s+(.+)$/i)
-  if (match && match[1]) return match[1].trim()
-  return authHeader.trim() || null
+  return cacheableJsonResponse(windows, request, CACHE_CONTROL)
 }
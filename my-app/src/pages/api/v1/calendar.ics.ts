@@ -0,0 +1,124 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { isPersonalAccessToken } from '~/lib/api-tokens'
+import { mapTaskRow, resolveTaskTimeZone } from '~/lib/block-windows'
+import { buildCalendarFeed } from '~/lib/calendar-feed'
+import { buildCorsHeaders, extractBearerToken, resolveDateIso, resolveNumber, sanitizeTimeZone } from '~/lib/http'
+import { addDaysIso, buildDailyTotals, getDayBounds, progressLookbackStart, type DailyTotals } from '~/lib/recurrence'
+
+const DEFAULT_DAYS_AHEAD = 30
+const DEFAULT_DAYS_BEHIND = 7
+const MAX_DAYS = 90
+const DEFAULT_DURATION_MIN = 60
+
+const SITE_URL = (() => {
+  const siteUrl = import.meta.env.PUBLIC_SITE_URL
+  if (typeof siteUrl === 'string' && siteUrl.length > 0) {
+    return siteUrl.replace(/\/?$/, '')
+  }
+  return ''
+})()
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request),
+  })
+}
+
+/**
+ * Subscribable iCalendar feed. Calendar clients cannot send headers, so a
+ * personal API token with `calendar:read` may also be passed as `?token=`.
+ * Supabase access tokens are refused there: they expire within the hour and
+ * the subscription would silently stop updating.
+ */
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const url = new URL(request.url)
+  const queryToken = extractBearerToken(url.searchParams.get('token'))
+  if (queryToken && !isPersonalAccessToken(queryToken)) {
+    return textResponse('The token parameter must be a personal API token with the calendar:read scope', 401, request)
+  }
+  const auth = await authenticateRequest(request, cookies, queryToken, 'calendar:read')
+  if (!auth) {
+    return textResponse('Unauthorized', 401, request)
+  }
+  const { supabase } = auth
+
+  const timeZone = sanitizeTimeZone(url.searchParams.get('tz')) || 'UTC'
+  const todayIso = resolveDateIso(null, timeZone)
+  const daysAhead = Math.min(Math.floor(resolveNumber(url.searchParams.get('days'), DEFAULT_DAYS_AHEAD)), MAX_DAYS)
+  const daysBehind = Math.min(Math.floor(resolveNumber(url.searchParams.get('past_days'), DEFAULT_DAYS_BEHIND)), MAX_DAYS)
+  const durationDefault = resolveNumber(url.searchParams.get('duration_default_min'), DEFAULT_DURATION_MIN)
+  const fromIso = addDaysIso(todayIso, -daysBehind)
+  const toIso = addDaysIso(todayIso, daysAhead)
+
+  const { data: taskRows, error: taskError } = await supabase
+    .from('task_defs')
+    .select(
+      `id, title, description, kind, active, start_date, end_date, created_at,
+        period_rules (*), time_rules (*),
+        task_tags ( tag_id, tags ( id, name ) )`
+    )
+    .eq('active', true)
+
+  if (taskError) {
+    console.error('[TaskWorks] Failed to fetch tasks', taskError)
+    return textResponse('Failed to fetch tasks', 500, request)
+  }
+
+  const tasks = (taskRows ?? []).map(mapTaskRow)
+  const taskIds = tasks.map((task) => task.id)
+  const taskTimeZones = new Map(tasks.map((task) => [task.id, resolveTaskTimeZone(task, timeZone)]))
+
+  let dailyTotals: Map<string, DailyTotals> | undefined
+
+  if (taskIds.length) {
+    // Tasks keep their own time zone, so widen the range by a day on each side
+    // and bucket every log on the task's calendar.
+    const lookbackBounds = getDayBounds(addDaysIso(progressLookbackStart(fromIso), -1), timeZone)
+    const todayBounds = getDayBounds(addDaysIso(todayIso, 1), timeZone)
+    if (lookbackBounds && todayBounds) {
+      const { data: execLogs, error: execError } = await supabase
+        .from('exec_logs')
+        .select('task_id, happened_at, qty')
+        .in('task_id', taskIds)
+        .gte('happened_at', lookbackBounds.start.toISOString())
+        .lt('happened_at', todayBounds.end.toISOString())
+
+      if (execError) {
+        console.warn('[TaskWorks] Failed to fetch exec logs', execError)
+      } else {
+        dailyTotals = buildDailyTotals(execLogs ?? [], (taskId) => taskTimeZones.get(taskId) ?? timeZone)
+      }
+    }
+  }
+
+  const body = buildCalendarFeed(tasks, {
+    fromIso,
+    toIso,
+    timeZone,
+    durationDefaultMinutes: durationDefault,
+    dailyTotals,
+    taskUrlBase: SITE_URL ? `${SITE_URL}/tasks/` : undefined,
+  })
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="taskworks.ics"',
+      'Cache-Control': 'private, max-age=300',
+      ...buildCorsHeaders(request),
+    },
+  })
+}
+
+function textResponse(message: string, status: number, request: Request): Response {
+  return new Response(message, {
+    status,
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      ...buildCorsHeaders(request),
+    },
+  })
+}
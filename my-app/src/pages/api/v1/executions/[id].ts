@@ -0,0 +1,89 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { buildCorsHeaders, isUuid, jsonResponse, readJsonBody } from '~/lib/http'
+import * as store from '~/lib/storage.supabase'
+import { serializeExecution, validateExecutionInput } from '~/lib/task-api'
+
+const METHODS = 'PATCH,DELETE,OPTIONS'
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request, METHODS),
+  })
+}
+
+/**
+ * Corrects qty, note or happened_at of a logged execution; `note: null` clears
+ * the note. The source is fixed at creation.
+ */
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:write')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const id = params.id
+  if (!isUuid(id)) {
+    return jsonResponse({ error: 'Execution not found' }, 404, request, METHODS)
+  }
+
+  const validation = validateExecutionInput(await readJsonBody(request))
+  if (!validation.ok) {
+    return jsonResponse({ error: 'Invalid execution input', details: validation.errors }, 400, request, METHODS)
+  }
+  const { source, ...patch } = validation.value
+  if (source !== undefined) {
+    return jsonResponse(
+      { error: 'Invalid execution input', details: ['source cannot be changed'] },
+      400,
+      request,
+      METHODS,
+    )
+  }
+  if (!Object.keys(patch).length) {
+    return jsonResponse(
+      { error: 'Invalid execution input', details: ['body must set at least one of qty, note or happened_at'] },
+      400,
+      request,
+      METHODS,
+    )
+  }
+
+  try {
+    const execution = await store.updateExecution(id, patch, auth.supabase)
+    if (!execution) {
+      return jsonResponse({ error: 'Execution not found' }, 404, request, METHODS)
+    }
+    return jsonResponse({ execution: serializeExecution(execution) }, 200, request, METHODS)
+  } catch (error) {
+    console.error('[TaskWorks] Failed to update execution', error)
+    return jsonResponse({ error: 'Failed to update execution' }, 500, request, METHODS)
+  }
+}
+
+export const DELETE: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:write')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const id = params.id
+  if (!isUuid(id)) {
+    return jsonResponse({ error: 'Execution not found' }, 404, request, METHODS)
+  }
+
+  try {
+    const execution = await store.deleteExecution(id, auth.supabase)
+    if (!execution) {
+      return jsonResponse({ error: 'Execution not found' }, 404, request, METHODS)
+    }
+    return new Response(null, {
+      status: 204,
+      headers: buildCorsHeaders(request, METHODS),
+    })
+  } catch (error) {
+    console.error('[TaskWorks] Failed to delete execution', error)
+    return jsonResponse({ error: 'Failed to delete execution' }, 500, request, METHODS)
+  }
+}
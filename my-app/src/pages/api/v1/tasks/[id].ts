@@ -0,0 +1,121 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { buildCorsHeaders, isUuid, jsonResponse, readJsonBody } from '~/lib/http'
+import * as store from '~/lib/storage.supabase'
+import { serializeTask, validateUpdateTaskInput } from '~/lib/task-api'
+
+const METHODS = 'GET,PATCH,DELETE,OPTIONS'
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request, METHODS),
+  })
+}
+
+export const GET: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:read')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const id = params.id
+  if (!isUuid(id)) {
+    return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+  }
+
+  try {
+    const task = await store.get(id, auth.supabase)
+    if (!task) {
+      return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+    }
+    return jsonResponse({ task: serializeTask(task) }, 200, request, METHODS)
+  } catch (error) {
+    console.error('[TaskWorks] Failed to fetch task', error)
+    return jsonResponse({ error: 'Failed to fetch task' }, 500, request, METHODS)
+  }
+}
+
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:write')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const id = params.id
+  if (!isUuid(id)) {
+    return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+  }
+
+  const validation = validateUpdateTaskInput(await readJsonBody(request))
+  if (!validation.ok) {
+    return jsonResponse({ error: 'Invalid task input', details: validation.errors }, 400, request, METHODS)
+  }
+
+  try {
+    const existing = await store.get(id, auth.supabase)
+    if (!existing) {
+      return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+    }
+
+    // Resolve RRULE dates here so an UNTIL/COUNT end is checked against the stored start.
+    let patch
+    try {
+      patch = store.applyRRuleInput(
+        validation.value,
+        validation.value.timezone ?? existing.periodRules[0]?.timezone ?? 'UTC',
+        existing.startDate,
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return jsonResponse({ error: 'Invalid task input', details: [`rrule: ${message}`] }, 400, request, METHODS)
+    }
+    const startDate = patch.startDate === undefined ? existing.startDate : patch.startDate
+    const endDate = patch.endDate === undefined ? existing.endDate : patch.endDate
+    if (startDate && endDate && endDate < startDate) {
+      return jsonResponse(
+        { error: 'Invalid task input', details: ['endDate must not be before startDate'] },
+        400,
+        request,
+        METHODS,
+      )
+    }
+
+    // The RRULE is already expanded into periodRules and dates.
+    const task = await store.update(id, { ...patch, rrule: undefined }, auth.supabase)
+    if (!task) {
+      return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+    }
+    return jsonResponse({ task: serializeTask(task) }, 200, request, METHODS)
+  } catch (error) {
+    console.error('[TaskWorks] Failed to update task', error)
+    return jsonResponse({ error: 'Failed to update task' }, 500, request, METHODS)
+  }
+}
+
+export const DELETE: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:write')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const id = params.id
+  if (!isUuid(id)) {
+    return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+  }
+
+  try {
+    const existing = await store.get(id, auth.supabase)
+    if (!existing) {
+      return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+    }
+    await store.remove(id, auth.supabase)
+    return new Response(null, {
+      status: 204,
+      headers: buildCorsHeaders(request, METHODS),
+    })
+  } catch (error) {
+    console.error('[TaskWorks] Failed to delete task', error)
+    return jsonResponse({ error: 'Failed to delete task' }, 500, request, METHODS)
+  }
+}
@@ -0,0 +1,111 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import {
+  buildCorsHeaders,
+  isUuid,
+  jsonResponse,
+  readJsonBody,
+  resolveNumber,
+  sanitizeTimeZone,
+} from '~/lib/http'
+import { getDayBounds, isIsoDate } from '~/lib/recurrence'
+import * as store from '~/lib/storage.supabase'
+import { serializeExecution, validateExecutionInput } from '~/lib/task-api'
+
+const METHODS = 'GET,POST,OPTIONS'
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+const DEFAULT_SOURCE = 'api'
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request, METHODS),
+  })
+}
+
+/**
+ * Lists executions, newest first. `from`/`to` accept either a local date
+ * (YYYY-MM-DD, inclusive, interpreted in `tz`) or an ISO timestamp.
+ */
+export const GET: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:read')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const taskId = params.id
+  if (!isUuid(taskId)) {
+    return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+  }
+
+  const url = new URL(request.url)
+  const timeZone = sanitizeTimeZone(url.searchParams.get('tz')) || 'UTC'
+  const from = resolveBoundary(url.searchParams.get('from'), timeZone, 'start')
+  const to = resolveBoundary(url.searchParams.get('to'), timeZone, 'end')
+  if (from === null || to === null) {
+    return jsonResponse(
+      { error: 'Invalid range', details: ['from and to must be YYYY-MM-DD or ISO 8601 timestamps'] },
+      400,
+      request,
+      METHODS,
+    )
+  }
+  const limit = Math.min(Math.floor(resolveNumber(url.searchParams.get('limit'), DEFAULT_LIMIT)) || DEFAULT_LIMIT, MAX_LIMIT)
+
+  try {
+    const task = await store.get(taskId, auth.supabase)
+    if (!task) {
+      return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+    }
+    const executions = await store.listExecutions(taskId, { from, to, limit }, auth.supabase)
+    return jsonResponse({ executions: executions.map(serializeExecution) }, 200, request, METHODS)
+  } catch (error) {
+    console.error('[TaskWorks] Failed to list executions', error)
+    return jsonResponse({ error: 'Failed to list executions' }, 500, request, METHODS)
+  }
+}
+
+export const POST: APIRoute = async ({ params, request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:write')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const taskId = params.id
+  if (!isUuid(taskId)) {
+    return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+  }
+
+  const validation = validateExecutionInput(await readJsonBody(request))
+  if (!validation.ok) {
+    return jsonResponse({ error: 'Invalid execution input', details: validation.errors }, 400, request, METHODS)
+  }
+
+  try {
+    const task = await store.get(taskId, auth.supabase)
+    if (!task) {
+      return jsonResponse({ error: 'Task not found' }, 404, request, METHODS)
+    }
+    const execution = await store.recordExecution(
+      taskId,
+      { ...validation.value, source: validation.value.source ?? DEFAULT_SOURCE },
+      auth.supabase,
+    )
+    return jsonResponse({ execution: serializeExecution(execution) }, 201, request, METHODS)
+  } catch (error) {
+    console.error('[TaskWorks] Failed to record execution', error)
+    return jsonResponse({ error: 'Failed to record execution' }, 500, request, METHODS)
+  }
+}
+
+function resolveBoundary(value: string | null, timeZone: string, edge: 'start' | 'end'): string | undefined | null {
+  if (!value) return undefined
+  if (isIsoDate(value)) {
+    const bounds = getDayBounds(value, timeZone)
+    if (!bounds) return null
+    return (edge === 'start' ? bounds.start : bounds.end).toISOString()
+  }
+  const parsed = new Date(value)
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString()
+}
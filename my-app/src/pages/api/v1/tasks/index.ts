@@ -0,0 +1,75 @@
+import type { APIRoute } from 'astro'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { buildCorsHeaders, jsonResponse, readJsonBody, resolveBoolean } from '~/lib/http'
+import { resolveTimeZone } from '~/lib/recurrence'
+import * as store from '~/lib/storage.supabase'
+import { serializeTask, validateCreateTaskInput } from '~/lib/task-api'
+
+const METHODS = 'GET,POST,OPTIONS'
+
+export const OPTIONS: APIRoute = ({ request }) => {
+  return new Response(null, {
+    status: 204,
+    headers: buildCorsHeaders(request, METHODS),
+  })
+}
+
+export const GET: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:read')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const url = new URL(request.url)
+  const activeParam = url.searchParams.get('active')
+
+  try {
+    const tasks = await store.list(auth.supabase)
+    const filtered =
+      activeParam === null ? tasks : tasks.filter((task) => task.active === resolveBoolean(activeParam, task.active))
+    return jsonResponse({ tasks: filtered.map(serializeTask) }, 200, request, METHODS)
+  } catch (error) {
+    console.error('[TaskWorks] Failed to list tasks', error)
+    return jsonResponse({ error: 'Failed to list tasks' }, 500, request, METHODS)
+  }
+}
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const auth = await authenticateRequest(request, cookies, null, 'tasks:write')
+  if (!auth) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, request, METHODS)
+  }
+
+  const validation = validateCreateTaskInput(await readJsonBody(request))
+  if (!validation.ok) {
+    return jsonResponse({ error: 'Invalid task input', details: validation.errors }, 400, request, METHODS)
+  }
+
+  // Resolve RRULE dates with the time zone create() uses, so a rule that only
+  // fails against that day's date is reported as invalid input.
+  let input
+  try {
+    input = store.applyRRuleInput(validation.value, validation.value.timezone ?? resolveTimeZone())
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return jsonResponse({ error: 'Invalid task input', details: [`rrule: ${message}`] }, 400, request, METHODS)
+  }
+  if (input.startDate && input.endDate && input.endDate < input.startDate) {
+    return jsonResponse(
+      { error: 'Invalid task input', details: ['endDate must not be before startDate'] },
+      400,
+      request,
+      METHODS,
+    )
+  }
+
+  try {
+    const task = await store.create(input, auth.supabase)
+    const response = jsonResponse({ task: serializeTask(task) }, 201, request, METHODS)
+    response.headers.set('Location', `/api/v1/tasks/${task.id}`)
+    return response
+  } catch (error) {
+    console.error('[TaskWorks] Failed to create task', error)
+    return jsonResponse({ error: 'Failed to create task' }, 500, request, METHODS)
+  }
+}
@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro'
+import { isPersonalAccessToken } from '~/lib/api-tokens'
+import { authenticateRequest } from '~/lib/supabase.server'
+import { buildUserscript } from '~/lib/userscript.server'
+
+const SITE_URL = (() => {
+  const siteUrl = import.meta.env.PUBLIC_SITE_URL
+  if (typeof siteUrl === 'string' && siteUrl.length > 0) {
+    return siteUrl.replace(/\/?$/, '')
+  }
+  return ''
+})()
+
+/**
+ * The installable userscript. Userscript managers open an install dialog for
+ * `*.user.js` URLs and poll `@updateURL` for new versions. `?token=` embeds a
+ * personal API token with `blocks:read`, so per-user installs stay configured
+ * across updates; a revoked token makes the update fail instead of shipping a
+ * script that cannot authenticate.
+ */
+export const GET: APIRoute = async ({ request, cookies, url }) => {
+  const siteUrl = SITE_URL || url.origin
+  const token = url.searchParams.get('token')
+
+  if (token !== null) {
+    if (!isPersonalAccessToken(token) || !/^[A-Za-z0-9_-]+$/.test(token)) {
+      return textResponse('Invalid token', 400)
+    }
+    const auth = await authenticateRequest(request, cookies, token, 'blocks:read')
+    if (!auth) {
+      return textResponse('Unauthorized', 401)
+    }
+  }
+
+  return new Response(buildUserscript({ siteUrl, apiToken: token }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/javascript; charset=utf-8',
+      // Per-user scripts carry a secret and must not end up in shared caches.
+      'Cache-Control': token ? 'private, no-store' : 'public, max-age=300',
+    },
+  })
+}
+
+function textResponse(message: string, status: number): Response {
+  return new Response(message, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  })
+}
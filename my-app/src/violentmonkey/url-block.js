@@ -1,7 +1,7 @@
 // ==UserScript==
 // @name         URL Blacklist Redirect (Cats Hand Diagonal Slide)
 // @namespace    Violentmonkey Scripts
-// @version      4.2.0
+// @version      5.0.1
 // @description  Redirects with a cat's hand animation sliding in from the bottom-right. Settings are saved and editable via menu.
 // @author       -
 // @match        *://*/*
@@ -30,9 +30,14 @@
         API_TOKEN: 'tw_api_token',
         CACHE_TTL_MS: 'tw_cache_ttl_ms',
         WINDOW_CACHE: 'tw_windows_cache',
-        FOCUS_ONLY: 'tw_focus_only'
+        FOCUS_ONLY: 'tw_focus_only',
+        PENDING_EVENTS: 'tw_pending_block_events'
     };
 
+    // ----- 配布時に埋め込まれる値 -----
+    // /extensions/url-block.user.js から導入すると、サーバーがデプロイ先の URL (と個人用トークン) を書き込む
+    const DISTRIBUTION = { API_BASE: '', API_TOKEN: '' };
+
     // ----- デフォルト設定 -----
     const DEFAULTS = {
         BLACKLIST: [
@@ -42,8 +47,8 @@
         ],
         REDIRECT_URL: "https://www.google.com",
         BLOCKING_WINDOWS: [],
-        API_BASE: "https://my-app.yinyoo2904.workers.dev",
-        API_TOKEN: "",
+        API_BASE: DISTRIBUTION.API_BASE,
+        API_TOKEN: DISTRIBUTION.API_TOKEN,
         CACHE_TTL_MS: 5 * 60 * 1000,
         FOCUS_ONLY: false
     };
@@ -132,35 +137,34 @@
             .join('\n');
     }
 
-    function findActiveWindow(now, windows) {
-        if (!Array.isArray(windows) || !windows.length) {
-            return null;
+    function isWindowActive(now, window) {
+        if (!window) return false;
+        if (window.fullDay) {
+            return true;
         }
-        const nowMs = now.getTime();
-        const minutes = now.getHours() * 60 + now.getMinutes();
-        for (const window of windows) {
-            if (!window) continue;
-            if (window.fullDay) {
-                return window;
+        if (window.type === 'remote') {
+            if (typeof window.startMs !== 'number' || typeof window.endMs !== 'number') {
+                return false;
             }
-            if (window.type === 'remote') {
-                if (typeof window.startMs !== 'number' || typeof window.endMs !== 'number') {
-                    continue;
-                }
-                if (window.startMs <= nowMs && nowMs < window.endMs) {
-                    return window;
-                }
-            } else if (window.type === 'manual') {
-                if (window.wraps) {
-                    if (minutes >= window.startMinutes || minutes < window.endMinutes) {
-                        return window;
-                    }
-                } else if (minutes >= window.startMinutes && minutes < window.endMinutes) {
-                    return window;
-                }
+            const nowMs = now.getTime();
+            return window.startMs <= nowMs && nowMs < window.endMs;
+        }
+        if (window.type === 'manual') {
+            const minutes = now.getHours() * 60 + now.getMinutes();
+            if (window.wraps) {
+                return minutes >= window.startMinutes || minutes < window.endMinutes;
             }
+            return minutes >= window.startMinutes && minutes < window.endMinutes;
         }
-        return null;
+        return false;
+    }
+
+    // 重なっている時間帯はそれぞれ別のリダイレクト先・追加ブロックリストを持つため、すべて返す
+    function findActiveWindows(now, windows) {
+        if (!Array.isArray(windows) || !windows.length) {
+            return [];
+        }
+        return windows.filter(window => isWindowActive(now, window));
     }
 
     function formatDateForApi(date) {
@@ -179,20 +183,6 @@
         }
     }
 
-    function buildAuthorizationHeader(token) {
-        if (typeof token !== 'string') {
-            return '';
-        }
-        const trimmed = token.trim();
-        if (!trimmed) {
-            return '';
-        }
-        if (/^bearer\s+/i.test(trimmed)) {
-            return trimmed;
-        }
-        return `Bearer ${trimmed}`;
-    }
-
     // ----- 猫の手アニメーション関数 (修正版) -----
     function showCatHandAnimationAndRedirect(targetUrl) {
         const container = document.createElement('div');
@@ -234,20 +224,75 @@
     }
 
     // ----- TaskWorks API -----
-    function buildWindowsEndpoint(base) {
-        const normalized = base.replace(/\/+$/, '');
+    // 配布時は src/lib/api-client/endpoints.js の内容に置き換わる (API テスターと同じ実装)。
+    // このファイルを直接使う場合に備えて同じ処理を残している
+    // #region api-client
+    function buildApiEndpoint(base, path) {
+        const normalized = base.replace(/\s+/g, '').replace(/\/+$/, '');
+        if (!normalized) return '';
+        let root;
         if (/\/v1\/blocks\/windows$/i.test(normalized)) {
-            return normalized;
+            root = normalized.replace(/\/blocks\/windows$/i, '');
+        } else if (/\/api\/v1$/i.test(normalized)) {
+            root = normalized;
+        } else if (/\/api$/i.test(normalized)) {
+            root = `${normalized}/v1`;
+        } else {
+            root = `${normalized}/api/v1`;
+        }
+        return `${root}/${path.replace(/^\/+/, '')}`;
+    }
+
+    function buildWindowsEndpoint(base) {
+        return buildApiEndpoint(base, '/blocks/windows');
+    }
+
+    function buildAuthorizationHeader(token) {
+        if (typeof token !== 'string') return '';
+        const trimmed = token.trim();
+        if (!trimmed) return '';
+        if (/^bearer\s+/i.test(trimmed)) return trimmed;
+        return `Bearer ${trimmed}`;
+    }
+    // #endregion api-client
+
+    // v4.4 以前のキャッシュやローカルのブラックリストは文字列 (部分一致)
+    function normalizeBlocklistEntry(item) {
+        if (typeof item === 'string') {
+            const pattern = item.trim();
+            return pattern ? { pattern, matchType: 'substring' } : null;
         }
-        if (/\/api$/i.test(normalized)) {
-            return `${normalized}/v1/blocks/windows`;
+        if (!item || typeof item !== 'object' || typeof item.pattern !== 'string' || !item.pattern.trim()) {
+            return null;
+        }
+        const rawType = item.match_type || item.matchType;
+        const matchType = rawType === 'domain' || rawType === 'regex' ? rawType : 'substring';
+        return { pattern: item.pattern.trim(), matchType };
+    }
+
+    function matchesBlocklistEntry(url, entry) {
+        if (!entry) return false;
+        if (entry.matchType === 'domain') {
+            let host;
+            try {
+                host = new URL(url).hostname.toLowerCase();
+            } catch (error) {
+                return false;
+            }
+            const domain = entry.pattern.toLowerCase();
+            return host === domain || host.endsWith(`.${domain}`);
         }
-        if (/\/api\/v1$/i.test(normalized)) {
-            return `${normalized}/blocks/windows`;
+        if (entry.matchType === 'regex') {
+            try {
+                return new RegExp(entry.pattern, 'i').test(url);
+            } catch (error) {
+                return false;
+            }
         }
-        return `${normalized}/api/v1/blocks/windows`;
+        return url.includes(entry.pattern);
     }
 
+    // ブラウザ拡張 (extension/lib/windows.js) にも同じ実装があるため、変更したら揃えること
     function transformApiWindows(rawWindows) {
         if (!Array.isArray(rawWindows)) {
             return [];
@@ -262,10 +307,16 @@
             }
             const policy = entry.policy || {};
             const mode = typeof policy.mode === 'string' ? policy.mode.toLowerCase() : 'blocklist';
-            if (mode !== 'blocklist') {
+            if (mode !== 'blocklist' && mode !== 'allowlist') {
                 continue;
             }
             const redirectUrl = typeof policy.redirect_url === 'string' && policy.redirect_url.trim() ? policy.redirect_url.trim() : undefined;
+            const blocklist = Array.isArray(policy.blocklist)
+                ? policy.blocklist.map(normalizeBlocklistEntry).filter(Boolean)
+                : [];
+            const allowlist = Array.isArray(policy.allowlist)
+                ? policy.allowlist.map(normalizeBlocklistEntry).filter(Boolean)
+                : [];
             const fullDay = startMs === endMs;
             if (!fullDay && endMs <= startMs) {
                 continue;
@@ -277,7 +328,11 @@
                 fullDay,
                 redirectUrl,
                 severity: policy.severity || undefined,
-                reason: entry.reason || undefined
+                mode,
+                blocklist,
+                allowlist,
+                reason: entry.reason || undefined,
+                taskId: typeof entry.task_id === 'string' ? entry.task_id : undefined
             });
         }
         windows.sort((a, b) => {
@@ -289,17 +344,125 @@
         return windows;
     }
 
-    function fetchWindowsFromApi(config) {
+    // ----- ブロック記録 -----
+    // リダイレクトで送信が中断されても失われないよう、一度キューに積んでからまとめて送る
+    const MAX_PENDING_EVENTS = 200;
+    const EVENT_BATCH_SIZE = 50;
+
+    async function queueBlockEvent(event) {
+        const pending = await GM.getValue(STORAGE_KEYS.PENDING_EVENTS, []);
+        const next = [...(Array.isArray(pending) ? pending : []), event].slice(-MAX_PENDING_EVENTS);
+        await GM.setValue(STORAGE_KEYS.PENDING_EVENTS, next);
+    }
+
+    function postBlockEventsToApi(config, events) {
+        const endpoint = buildApiEndpoint(config.apiBase || '', '/blocks/events');
+        const authHeader = buildAuthorizationHeader(config.apiToken);
+
+        return new Promise((resolve, reject) => {
+            GM.xmlHttpRequest({
+                method: 'POST',
+                url: endpoint,
+                timeout: 8000,
+                withCredentials: true,
+                headers: {
+                    Accept: 'application/json',
+                    'Content-Type': 'application/json',
+                    ...(authHeader ? { Authorization: authHeader } : {})
+                },
+                data: JSON.stringify({ events }),
+                onload: response => resolve(response.status),
+                onerror: () => reject(new Error('TaskWorks APIへの接続に失敗しました。')),
+                ontimeout: () => reject(new Error('TaskWorks APIリクエストがタイムアウトしました。'))
+            });
+        });
+    }
+
+    let flushInFlight = false;
+
+    async function flushBlockEvents(config) {
+        if (!config.apiBase || flushInFlight) {
+            return;
+        }
+        flushInFlight = true;
+        try {
+            const pending = await GM.getValue(STORAGE_KEYS.PENDING_EVENTS, []);
+            if (!Array.isArray(pending) || !pending.length) {
+                return;
+            }
+            const batch = pending.slice(0, EVENT_BATCH_SIZE);
+            const status = await postBlockEventsToApi(config, batch);
+            // 400 は古すぎる・不正なイベントなので再送しない。401 などはトークン設定後に再送する
+            if ((status >= 200 && status < 300) || status === 400) {
+                const latest = await GM.getValue(STORAGE_KEYS.PENDING_EVENTS, []);
+                await GM.setValue(STORAGE_KEYS.PENDING_EVENTS, (Array.isArray(latest) ? latest : []).slice(batch.length));
+            }
+        } catch (error) {
+            console.warn('[URL Blacklist Redirect] ブロック記録の送信に失敗しました:', error);
+        } finally {
+            flushInFlight = false;
+        }
+    }
+
+    // 一時解除 (スヌーズ) はサーバーに理由付きで記録され、ウィンドウから解除時間が除かれる
+    function postSnoozeToApi(config, durationMinutes, reason) {
+        const endpoint = buildApiEndpoint(config.apiBase || '', '/blocks/snoozes');
+        const url = `${endpoint}?tz=${encodeURIComponent(getTimeZone())}`;
+        const authHeader = buildAuthorizationHeader(config.apiToken);
+
+        return new Promise((resolve, reject) => {
+            GM.xmlHttpRequest({
+                method: 'POST',
+                url,
+                timeout: 8000,
+                withCredentials: true,
+                headers: {
+                    Accept: 'application/json',
+                    'Content-Type': 'application/json',
+                    ...(authHeader ? { Authorization: authHeader } : {})
+                },
+                data: JSON.stringify({ durationMinutes, reason }),
+                onload: response => {
+                    if (response.status === 201) {
+                        try {
+                            resolve(JSON.parse(response.responseText));
+                        } catch (parseError) {
+                            resolve({});
+                        }
+                    } else if (response.status === 401) {
+                        reject(new Error('一時解除できませんでした。API トークンに「ブロックの一時解除」権限があるか確認してください。'));
+                    } else if (response.status === 429) {
+                        reject(new Error('厳格な時間帯の一時解除は今日の上限に達しました。'));
+                    } else {
+                        reject(new Error(`TaskWorks APIからステータス${response.status}が返されました。`));
+                    }
+                },
+                onerror: () => reject(new Error('TaskWorks APIへの接続に失敗しました。')),
+                ontimeout: () => reject(new Error('TaskWorks APIリクエストがタイムアウトしました。'))
+            });
+        });
+    }
+
+    // 今日と明日の2日分をまとめて取得し、日付が変わっても再取得を待たずにブロックできるようにする
+    const FETCH_DAYS = 2;
+
+    function readEtag(responseHeaders) {
+        const match = /^etag:\s*(.+)$/im.exec(responseHeaders || '');
+        return match ? match[1].trim() : null;
+    }
+
+    // 304 の場合は notModified: true を返し、呼び出し側でキャッシュを使い続ける
+    function fetchWindowsFromApi(config, etag) {
         const base = (config.apiBase || '').replace(/\/+$/, '');
         if (!base) {
-            return Promise.resolve([]);
+            return Promise.resolve({ windows: [], etag: null, notModified: false });
         }
         const endpoint = buildWindowsEndpoint(base);
         const today = new Date();
         const dateParam = formatDateForApi(today);
         const tzParam = getTimeZone();
         const focusOnlyParam = config.focusOnly ? '&focus_only=true' : '&focus_only=false';
-        const url = `${endpoint}?date=${encodeURIComponent(dateParam)}&tz=${encodeURIComponent(tzParam)}${focusOnlyParam}&merge=false`;
+        const url = `${endpoint}?from=${encodeURIComponent(dateParam)}&days=${FETCH_DAYS}&tz=${encodeURIComponent(tzParam)}${focusOnlyParam}&merge=false`;
         const authHeader = buildAuthorizationHeader(config.apiToken);
 
         return new Promise((resolve, reject) => {
@@ -310,13 +473,20 @@
                 withCredentials: true,
                 headers: {
                     Accept: 'application/json',
-                    ...(authHeader ? { Authorization: authHeader } : {})
+                    ...(authHeader ? { Authorization: authHeader } : {}),
+                    ...(etag ? { 'If-None-Match': etag } : {})
                 },
                 onload: response => {
-                    if (response.status >= 200 && response.status < 300) {
+                    if (response.status === 304) {
+                        resolve({ windows: null, etag, notModified: true });
+                    } else if (response.status >= 200 && response.status < 300) {
                         try {
                             const payload = JSON.parse(response.responseText);
-                            resolve(transformApiWindows(payload));
+                            resolve({
+                                windows: transformApiWindows(payload),
+                                etag: readEtag(response.responseHeaders),
+                                notModified: false
+                            });
                         } catch (parseError) {
                             reject(new Error('TaskWorks応答の解析に失敗しました。'));
                         }
@@ -347,8 +517,7 @@
         }
 
         try {
-            const windows = await fetchWindowsFromApi(config);
-            await GM.setValue(STORAGE_KEYS.WINDOW_CACHE, { windows, fetchedAt: Date.now() });
+            const windows = await refreshWindowCache(config, staleCache);
             return { windows, source: 'api' };
         } catch (error) {
             console.warn('[URL Blacklist Redirect] TaskWorks API fetch failed:', error);
@@ -359,6 +528,15 @@
         }
     }
 
+    // ETag が一致すればキャッシュ済みのウィンドウをそのまま使い、取得時刻だけ更新する
+    async function refreshWindowCache(config, cache) {
+        const usableCache = cache && Array.isArray(cache.windows) ? cache : null;
+        const result = await fetchWindowsFromApi(config, usableCache ? usableCache.etag : null);
+        const windows = result.notModified && usableCache ? usableCache.windows : result.windows || [];
+        await GM.setValue(STORAGE_KEYS.WINDOW_CACHE, { windows, fetchedAt: Date.now(), etag: result.etag || null });
+        return windows;
+    }
+
     const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
     let refreshTimerId = null;
     let refreshConfig = null;
@@ -411,8 +589,8 @@
         }
         refreshInFlight = true;
         try {
-            const windows = await fetchWindowsFromApi(refreshConfig);
-            await GM.setValue(STORAGE_KEYS.WINDOW_CACHE, { windows, fetchedAt: Date.now() });
+            const cache = await GM.getValue(STORAGE_KEYS.WINDOW_CACHE, null);
+            const windows = await refreshWindowCache(refreshConfig, cache);
             lastRefreshAt = Date.now();
             console.debug(`[URL Blacklist Redirect] 背景更新 (${reason}): ${windows.length} window(s)`);
         } catch (error) {
@@ -453,19 +631,50 @@
     }
     const effectiveWindows = windowsResult.source === 'manual' ? manualWindows : (windowsResult.windows || []);
     const windowSummaryText = formatWindowsForDisplay(effectiveWindows);
-    const activeWindow = findActiveWindow(new Date(), effectiveWindows);
+    const activeWindows = findActiveWindows(new Date(), effectiveWindows);
 
     scheduleWindowRefresh({ apiBase, apiToken, cacheTtlMs, focusOnly: !!focusOnly });
+    void flushBlockEvents({ apiBase, apiToken });
 
     // ----- メニュー登録 -----
     if (!registerMenu) {
         console.warn('registerMenuCommand 未対応環境');
     } else {
-        // 一回だけ無効化
-        registerMenu('このタブは1回だけ無効化', () => {
-            sessionStorage.setItem('tw_skip_once', '1');
-            alert('このタブでは次回読み込み時にブロックをスキップします。ページを再読み込みしてください。');
-        });
+        if (apiBase) {
+            // API 連携時はサーバーにスヌーズを記録する (ダッシュボードに理由付きで表示される)
+            registerMenu('ブロックを一時解除 (理由を記録)...', async () => {
+                const minutesInput = prompt('何分間ブロックを解除しますか？ (1〜60)', '10');
+                if (minutesInput === null) return;
+                const minutes = Number.parseInt(minutesInput, 10);
+                if (!Number.isInteger(minutes) || minutes < 1 || minutes > 60) {
+                    alert('1〜60 の整数で入力してください。');
+                    return;
+                }
+                const reason = prompt('解除する理由を入力してください。ダッシュボードに記録されます。', '');
+                if (reason === null) return;
+                if (!reason.trim()) {
+                    alert('理由の入力は必須です。');
+                    return;
+                }
+                try {
+                    const result = await postSnoozeToApi({ apiBase, apiToken }, minutes, reason.trim());
+                    await GM.setValue(STORAGE_KEYS.WINDOW_CACHE, null);
+                    const remaining = typeof result.strictRemainingToday === 'number'
+                        ? `\n厳格な時間帯の一時解除は今日あと ${result.strictRemainingToday} 回です。`
+                        : '';
+                    alert(`${minutes} 分間ブロックを解除しました。${remaining}`);
+                    window.location.reload();
+                } catch (error) {
+                    alert(error.message);
+                }
+            });
+        } else {
+            // 一回だけ無効化 (API 未設定時のローカル専用)
+            registerMenu('このタブは1回だけ無効化', () => {
+                sessionStorage.setItem('tw_skip_once', '1');
+                alert('このタブでは次回読み込み時にブロックをスキップします。ページを再読み込みしてください。');
+            });
+        }
 
         registerMenu('現在のドメインをブロック', async () => {
             const domain = window.location.hostname;
@@ -541,7 +750,7 @@
         registerMenu('TaskWorks APIトークンを設定...', async () => {
             const current = await GM.getValue(STORAGE_KEYS.API_TOKEN, apiToken || '');
             const input = prompt(
-                "TaskWorks APIのBearerトークンを入力してください。",
+                "TaskWorks の設定画面（APIトークン）で作成したトークン (tw_pat_...) を入力してください。",
                 current || ''
             );
             if (input !== null) {
@@ -595,14 +804,50 @@
     }
 
     const redirectUrl = await GM.getValue(STORAGE_KEYS.REDIRECT_URL, redirectUrlDefault);
-    const windowRedirectUrl = (activeWindow && typeof activeWindow.redirectUrl === 'string' && activeWindow.redirectUrl)
-        ? activeWindow.redirectUrl
-        : redirectUrl;
-
-    if (!skipOnce && activeWindow && !currentUrl.includes(windowRedirectUrl)) {
-        for (const blockedUrl of blacklist) {
-            if (!blockedUrl) continue;
-            if (currentUrl.includes(blockedUrl)) {
+
+    // リダイレクト先と同じオリジン (TaskWorks のタスクページなど) は許可リストモードでも開ける
+    function isSameOrigin(url, otherUrl) {
+        try {
+            return new URL(url).origin === new URL(otherUrl).origin;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    // 時間帯ごとに判定し、どれか1つでもブロックすればリダイレクトする。
+    // ブロックリストモード: 共通のブラックリストとタスク・タグのブロックリストに一致したらブロック
+    // 許可リストモード: 許可リストに一致しない URL はすべてブロック
+    // ブロックする場合は一致したパターン (許可リストモードでは null) を返す
+    function findBlockMatch(url, window, windowRedirectUrl) {
+        if (window.mode === 'allowlist') {
+            if (isSameOrigin(url, windowRedirectUrl)) return null;
+            const allowed = (window.allowlist || []).some(entry => matchesBlocklistEntry(url, entry));
+            return allowed ? null : { pattern: null, matchType: null };
+        }
+        const patterns = [...blacklist, ...(window.blocklist || [])].map(normalizeBlocklistEntry).filter(Boolean);
+        return patterns.find(entry => matchesBlocklistEntry(url, entry)) || null;
+    }
+
+    if (!skipOnce) {
+        for (const window of activeWindows) {
+            const windowRedirectUrl = (typeof window.redirectUrl === 'string' && window.redirectUrl)
+                ? window.redirectUrl
+                : redirectUrl;
+            if (currentUrl.includes(windowRedirectUrl)) continue;
+            const match = findBlockMatch(currentUrl, window, windowRedirectUrl);
+            if (match) {
+                if (apiBase) {
+                    await queueBlockEvent({
+                        occurredAt: new Date().toISOString(),
+                        domain: new URL(currentUrl).hostname,
+                        pattern: match.pattern,
+                        matchType: match.pattern ? match.matchType : null,
+                        mode: window.mode === 'allowlist' ? 'allowlist' : 'blocklist',
+                        reason: window.reason || null,
+                        taskId: window.taskId || null
+                    });
+                    void flushBlockEvents({ apiBase, apiToken });
+                }
                 // ここで return しない。メニュー登録まで到達させる
                 showCatHandAnimationAndRedirect(windowRedirectUrl);
                 break;
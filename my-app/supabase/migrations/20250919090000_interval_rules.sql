@@ -0,0 +1,39 @@
+begin;
+
+alter table public.period_rules add column if not exists interval_count integer;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.table_constraints
+    where table_schema = 'public'
+      and table_name = 'period_rules'
+      and constraint_name = 'period_rules_interval_count_check'
+  ) then
+    alter table public.period_rules add constraint period_rules_interval_count_check
+      check (interval_count is null or interval_count >= 1);
+  end if;
+end;
+$$;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.table_constraints
+    where table_schema = 'public'
+      and table_name = 'period_rules'
+      and constraint_name = 'period_rules_interval_period_check'
+  ) then
+    alter table public.period_rules add constraint period_rules_interval_period_check
+      check (cadence <> 'interval' or period in ('day', 'week'));
+  end if;
+end;
+$$;
+
+update public.period_rules
+set interval_count = 1
+where cadence = 'interval' and interval_count is null;
+
+commit;
@@ -0,0 +1,111 @@
+begin;
+
+-- Saves a task definition together with its period rules, time rules and tags
+-- in a single transaction. Runs as the caller so the existing RLS policies apply.
+--
+-- payload:
+--   id            uuid of the task to update; omit or null to insert a new task
+--   task          task_defs columns; on update only the keys present are changed
+--   period_rules  replaces all period rules when present
+--   time_rules    replaces all time rules when present
+--   tags          tag names; replaces the task's tags when present
+--
+-- Returns the task id, or null when updating a task that does not exist or is
+-- not visible to the caller.
+create or replace function public.save_task(payload jsonb)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_id uuid := nullif(payload->>'id', '')::uuid;
+  v_task jsonb := coalesce(payload->'task', '{}'::jsonb);
+  v_tags text[];
+begin
+  if v_id is null then
+    if coalesce(v_task->>'title', '') = '' then
+      raise exception 'save_task: task.title is required' using errcode = '22023';
+    end if;
+
+    insert into public.task_defs (title, description, kind, active, start_date, end_date)
+    values (
+      v_task->>'title',
+      v_task->>'description',
+      coalesce(v_task->>'kind', 'single'),
+      coalesce((v_task->>'active')::boolean, true),
+      (v_task->>'start_date')::date,
+      (v_task->>'end_date')::date
+    )
+    returning id into v_id;
+  else
+    update public.task_defs
+    set
+      title = case when v_task ? 'title' then v_task->>'title' else title end,
+      description = case when v_task ? 'description' then v_task->>'description' else description end,
+      kind = case when v_task ? 'kind' then v_task->>'kind' else kind end,
+      active = case when v_task ? 'active' then (v_task->>'active')::boolean else active end,
+      start_date = case when v_task ? 'start_date' then (v_task->>'start_date')::date else start_date end,
+      end_date = case when v_task ? 'end_date' then (v_task->>'end_date')::date else end_date end
+    where id = v_id;
+
+    if not found then
+      return null;
+    end if;
+  end if;
+
+  if payload ? 'period_rules' then
+    delete from public.period_rules where task_id = v_id;
+
+    insert into public.period_rules (
+      task_id, cadence, times_per_period, period, days_of_week, week_start, interval_count, timezone
+    )
+    select
+      v_id,
+      r.cadence,
+      r.times_per_period,
+      coalesce(r.period, 'day'),
+      r.days_of_week,
+      r.week_start,
+      r.interval_count,
+      coalesce(r.timezone, 'UTC')
+    from jsonb_populate_recordset(null::public.period_rules, coalesce(payload->'period_rules', '[]'::jsonb)) as r;
+  end if;
+
+  if payload ? 'time_rules' then
+    delete from public.time_rules where task_id = v_id;
+
+    insert into public.time_rules (task_id, start_time, end_time, anytime)
+    select v_id, r.start_time, r.end_time, coalesce(r.anytime, r.start_time is null)
+    from jsonb_populate_recordset(null::public.time_rules, coalesce(payload->'time_rules', '[]'::jsonb)) as r;
+  end if;
+
+  if payload ? 'tags' then
+    select coalesce(array_agg(distinct trimmed), '{}')
+    into v_tags
+    from (
+      select btrim(value) as trimmed
+      from jsonb_array_elements_text(coalesce(payload->'tags', '[]'::jsonb))
+    ) as names
+    where trimmed <> '';
+
+    insert into public.tags (name)
+    select unnest(v_tags)
+    on conflict (user_id, name) do nothing;
+
+    delete from public.task_tags where task_id = v_id;
+
+    insert into public.task_tags (task_id, tag_id)
+    select v_id, t.id
+    from public.tags t
+    where t.user_id = auth.uid() and t.name = any (v_tags);
+  end if;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.save_task(jsonb) from public;
+grant execute on function public.save_task(jsonb) to authenticated;
+
+commit;
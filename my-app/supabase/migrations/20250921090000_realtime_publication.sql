@@ -0,0 +1,35 @@
+begin;
+
+-- Publish task and execution changes so open dashboards on other devices can
+-- refresh. Realtime applies the tables' RLS policies to each subscriber.
+do $$
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    create publication supabase_realtime;
+  end if;
+end;
+$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'exec_logs'
+  ) then
+    alter publication supabase_realtime add table public.exec_logs;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'task_defs'
+  ) then
+    alter publication supabase_realtime add table public.task_defs;
+  end if;
+end;
+$$;
+
+-- Deletes only carry the primary key by default; include task_id so views can
+-- tell which task an undone execution belonged to.
+alter table public.exec_logs replica identity full;
+
+commit;
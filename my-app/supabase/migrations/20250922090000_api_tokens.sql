@@ -0,0 +1,79 @@
+begin;
+
+-- Personal access tokens for integrations that cannot hold a browser session
+-- (the blocking userscript, calendar clients). Only a SHA-256 hash of each
+-- token is stored; the plaintext is shown once when the token is created.
+create table if not exists public.api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade default auth.uid(),
+  label text not null,
+  token_prefix text not null,
+  token_hash text not null,
+  scopes text[] not null default array['blocks:read']::text[],
+  created_at timestamptz not null default timezone('utc', now()),
+  last_used_at timestamptz,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  constraint api_tokens_token_hash_key unique (token_hash),
+  constraint api_tokens_label_length check (char_length(btrim(label)) between 1 and 100),
+  constraint api_tokens_scopes_check check (
+    cardinality(scopes) > 0 and scopes <@ array['blocks:read', 'calendar:read']::text[]
+  )
+);
+
+create index if not exists api_tokens_user_idx on public.api_tokens (user_id, created_at desc);
+
+alter table public.api_tokens enable row level security;
+
+create policy "api_tokens_select_own" on public.api_tokens
+  for select
+  using (auth.uid() = user_id);
+
+create policy "api_tokens_insert_own" on public.api_tokens
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "api_tokens_update_own" on public.api_tokens
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "api_tokens_delete_own" on public.api_tokens
+  for delete
+  using (auth.uid() = user_id);
+
+-- The hash never leaves the database once written, and only the label and the
+-- revocation timestamp can be changed afterwards.
+revoke select, update on public.api_tokens from anon, authenticated;
+grant select (id, user_id, label, token_prefix, scopes, created_at, last_used_at, expires_at, revoked_at)
+  on public.api_tokens to authenticated;
+grant update (label, revoked_at) on public.api_tokens to authenticated;
+
+-- Resolves a token hash to its owner when the token is active and carries
+-- `p_scope`, recording the use. Called by the API server before it has a
+-- user session, hence security definer and the anon grant.
+create or replace function public.authenticate_api_token(p_token_hash text, p_scope text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  update public.api_tokens
+     set last_used_at = timezone('utc', now())
+   where token_hash = p_token_hash
+     and revoked_at is null
+     and (expires_at is null or expires_at > now())
+     and p_scope = any(scopes)
+  returning user_id into v_user_id;
+
+  return v_user_id;
+end;
+$$;
+
+revoke all on function public.authenticate_api_token(text, text) from public;
+grant execute on function public.authenticate_api_token(text, text) to anon, authenticated;
+
+commit;
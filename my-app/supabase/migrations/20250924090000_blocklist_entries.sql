@@ -0,0 +1,68 @@
+begin;
+
+-- URL patterns blocked during blocking windows, shared by every client through
+-- the windows API. An entry with neither task_id nor tag_id applies to all of
+-- the user's windows; otherwise only to windows of that task or of tasks
+-- carrying that tag.
+create table if not exists public.blocklist_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade default auth.uid(),
+  pattern text not null,
+  match_type text not null default 'substring',
+  task_id uuid references public.task_defs(id) on delete cascade,
+  tag_id uuid references public.tags(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  constraint blocklist_entries_pattern_length check (char_length(btrim(pattern)) between 1 and 500),
+  constraint blocklist_entries_match_type_check check (match_type in ('substring', 'domain', 'regex')),
+  constraint blocklist_entries_single_target check (task_id is null or tag_id is null),
+  constraint blocklist_entries_unique_pattern unique nulls not distinct (user_id, match_type, pattern, task_id, tag_id)
+);
+
+create index if not exists blocklist_entries_user_idx on public.blocklist_entries (user_id, created_at);
+create index if not exists blocklist_entries_task_idx on public.blocklist_entries (task_id) where task_id is not null;
+create index if not exists blocklist_entries_tag_idx on public.blocklist_entries (tag_id) where tag_id is not null;
+
+drop trigger if exists blocklist_entries_set_updated_at on public.blocklist_entries;
+create trigger blocklist_entries_set_updated_at
+before update on public.blocklist_entries
+for each row
+execute function public.handle_updated_at();
+
+alter table public.blocklist_entries enable row level security;
+
+create policy "blocklist_entries_select_own" on public.blocklist_entries
+  for select
+  using (auth.uid() = user_id);
+
+-- Linked tasks and tags must belong to the same user.
+create policy "blocklist_entries_insert_own" on public.blocklist_entries
+  for insert
+  with check (
+    auth.uid() = user_id
+    and (task_id is null or exists (
+      select 1 from public.task_defs td where td.id = blocklist_entries.task_id and td.user_id = auth.uid()
+    ))
+    and (tag_id is null or exists (
+      select 1 from public.tags t where t.id = blocklist_entries.tag_id and t.user_id = auth.uid()
+    ))
+  );
+
+create policy "blocklist_entries_update_own" on public.blocklist_entries
+  for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (task_id is null or exists (
+      select 1 from public.task_defs td where td.id = blocklist_entries.task_id and td.user_id = auth.uid()
+    ))
+    and (tag_id is null or exists (
+      select 1 from public.tags t where t.id = blocklist_entries.tag_id and t.user_id = auth.uid()
+    ))
+  );
+
+create policy "blocklist_entries_delete_own" on public.blocklist_entries
+  for delete
+  using (auth.uid() = user_id);
+
+commit;
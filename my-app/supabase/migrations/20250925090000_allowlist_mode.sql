@@ -0,0 +1,154 @@
+begin;
+
+-- Blocking mode for tasks and tags. 'blocklist' (the default when unset)
+-- blocks the listed patterns; 'allowlist' blocks everything except the
+-- patterns of the task, its tags and the blocklist entries linked to them.
+alter table public.task_defs add column if not exists block_mode text;
+alter table public.tags add column if not exists block_mode text;
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['task_defs', 'tags'] loop
+    if not exists (
+      select 1
+      from information_schema.table_constraints
+      where table_schema = 'public'
+        and table_name = v_table
+        and constraint_name = v_table || '_block_mode_check'
+    ) then
+      execute format(
+        'alter table public.%I add constraint %I check (block_mode is null or block_mode in (''blocklist'', ''allowlist''))',
+        v_table,
+        v_table || '_block_mode_check'
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+-- save_task accepts block_mode under `task` and in each `tag_policies` item.
+create or replace function public.save_task(payload jsonb)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_id uuid := nullif(payload->>'id', '')::uuid;
+  v_task jsonb := coalesce(payload->'task', '{}'::jsonb);
+  v_tags text[];
+begin
+  if v_id is null then
+    if coalesce(v_task->>'title', '') = '' then
+      raise exception 'save_task: task.title is required' using errcode = '22023';
+    end if;
+
+    insert into public.task_defs (
+      title, description, kind, active, start_date, end_date,
+      block_redirect_url, block_severity, block_patterns, block_mode
+    )
+    values (
+      v_task->>'title',
+      v_task->>'description',
+      coalesce(v_task->>'kind', 'single'),
+      coalesce((v_task->>'active')::boolean, true),
+      (v_task->>'start_date')::date,
+      (v_task->>'end_date')::date,
+      v_task->>'block_redirect_url',
+      v_task->>'block_severity',
+      public.jsonb_text_array(v_task->'block_patterns'),
+      v_task->>'block_mode'
+    )
+    returning id into v_id;
+  else
+    update public.task_defs
+    set
+      title = case when v_task ? 'title' then v_task->>'title' else title end,
+      description = case when v_task ? 'description' then v_task->>'description' else description end,
+      kind = case when v_task ? 'kind' then v_task->>'kind' else kind end,
+      active = case when v_task ? 'active' then (v_task->>'active')::boolean else active end,
+      start_date = case when v_task ? 'start_date' then (v_task->>'start_date')::date else start_date end,
+      end_date = case when v_task ? 'end_date' then (v_task->>'end_date')::date else end_date end,
+      block_redirect_url = case when v_task ? 'block_redirect_url' then v_task->>'block_redirect_url' else block_redirect_url end,
+      block_severity = case when v_task ? 'block_severity' then v_task->>'block_severity' else block_severity end,
+      block_patterns = case
+        when v_task ? 'block_patterns' then public.jsonb_text_array(v_task->'block_patterns')
+        else block_patterns
+      end,
+      block_mode = case when v_task ? 'block_mode' then v_task->>'block_mode' else block_mode end
+    where id = v_id;
+
+    if not found then
+      return null;
+    end if;
+  end if;
+
+  if payload ? 'period_rules' then
+    delete from public.period_rules where task_id = v_id;
+
+    insert into public.period_rules (
+      task_id, cadence, times_per_period, period, days_of_week, week_start, interval_count, timezone
+    )
+    select
+      v_id,
+      r.cadence,
+      r.times_per_period,
+      coalesce(r.period, 'day'),
+      r.days_of_week,
+      r.week_start,
+      r.interval_count,
+      coalesce(r.timezone, 'UTC')
+    from jsonb_populate_recordset(null::public.period_rules, coalesce(payload->'period_rules', '[]'::jsonb)) as r;
+  end if;
+
+  if payload ? 'time_rules' then
+    delete from public.time_rules where task_id = v_id;
+
+    insert into public.time_rules (task_id, start_time, end_time, anytime)
+    select v_id, r.start_time, r.end_time, coalesce(r.anytime, r.start_time is null)
+    from jsonb_populate_recordset(null::public.time_rules, coalesce(payload->'time_rules', '[]'::jsonb)) as r;
+  end if;
+
+  if payload ? 'tags' then
+    select coalesce(array_agg(distinct trimmed), '{}')
+    into v_tags
+    from (
+      select btrim(value) as trimmed
+      from jsonb_array_elements_text(coalesce(payload->'tags', '[]'::jsonb))
+    ) as names
+    where trimmed <> '';
+
+    insert into public.tags (name)
+    select unnest(v_tags)
+    on conflict (user_id, name) do nothing;
+
+    delete from public.task_tags where task_id = v_id;
+
+    insert into public.task_tags (task_id, tag_id)
+    select v_id, t.id
+    from public.tags t
+    where t.user_id = auth.uid() and t.name = any (v_tags);
+  end if;
+
+  -- Tag policies are shared by every task with the tag; only the listed tags change.
+  if payload ? 'tag_policies' then
+    update public.tags t
+    set
+      block_redirect_url = p.value->>'block_redirect_url',
+      block_severity = p.value->>'block_severity',
+      block_patterns = public.jsonb_text_array(p.value->'block_patterns'),
+      block_mode = p.value->>'block_mode'
+    from jsonb_array_elements(coalesce(payload->'tag_policies', '[]'::jsonb)) as p(value)
+    where t.user_id = auth.uid() and t.name = btrim(p.value->>'name');
+  end if;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.save_task(jsonb) from public;
+grant execute on function public.save_task(jsonb) to authenticated;
+
+commit;
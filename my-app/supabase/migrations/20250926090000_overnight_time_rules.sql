@@ -0,0 +1,22 @@
+begin;
+
+-- A time slot whose end_time is earlier than its start_time runs past midnight
+-- and ends on the next day (e.g. 23:00-01:00). Only an empty slot is invalid.
+alter table public.time_rules drop constraint if exists time_rules_end_after_start;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from information_schema.table_constraints
+    where table_schema = 'public'
+      and table_name = 'time_rules'
+      and constraint_name = 'time_rules_end_differs_from_start'
+  ) then
+    alter table public.time_rules add constraint time_rules_end_differs_from_start
+      check (end_time is null or start_time is null or end_time <> start_time);
+  end if;
+end;
+$$;
+
+commit;
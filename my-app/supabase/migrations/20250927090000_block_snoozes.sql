@@ -0,0 +1,39 @@
+begin;
+
+-- Temporary unblocks. Every snooze keeps the reason the user gave and the
+-- severity of the window it interrupted, and the log cannot be edited or
+-- deleted afterwards. The API limits how many strict windows can be snoozed
+-- per day; the windows API trims windows for the snoozed period.
+create table if not exists public.block_snoozes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade default auth.uid(),
+  starts_at timestamptz not null default timezone('utc', now()),
+  ends_at timestamptz not null,
+  reason text not null,
+  -- Highest severity among the windows active when the snooze started; null when none was.
+  severity text,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint block_snoozes_range_check check (ends_at > starts_at),
+  constraint block_snoozes_reason_length check (char_length(btrim(reason)) between 1 and 500),
+  constraint block_snoozes_severity_check check (severity is null or severity in ('strict', 'lenient'))
+);
+
+create index if not exists block_snoozes_user_idx on public.block_snoozes (user_id, starts_at desc);
+
+alter table public.block_snoozes enable row level security;
+
+create policy "block_snoozes_select_own" on public.block_snoozes
+  for select
+  using (auth.uid() = user_id);
+
+create policy "block_snoozes_insert_own" on public.block_snoozes
+  for insert
+  with check (auth.uid() = user_id);
+
+-- Personal API tokens can be allowed to create snoozes (the userscript's menu).
+alter table public.api_tokens drop constraint if exists api_tokens_scopes_check;
+alter table public.api_tokens add constraint api_tokens_scopes_check check (
+  cardinality(scopes) > 0 and scopes <@ array['blocks:read', 'blocks:snooze', 'calendar:read']::text[]
+);
+
+commit;
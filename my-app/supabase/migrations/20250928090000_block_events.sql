@@ -0,0 +1,54 @@
+begin;
+
+-- Pages the blocking clients redirected away from. Only the domain is kept,
+-- never the full URL, together with what matched and which window (task) was
+-- active, so the dashboard can report the most distracting sites.
+create table if not exists public.block_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade default auth.uid(),
+  occurred_at timestamptz not null,
+  domain text not null,
+  -- The blocklist pattern that matched; null in allowlist mode, where nothing matches.
+  pattern text,
+  match_type text,
+  mode text not null default 'blocklist',
+  reason text,
+  task_id uuid references public.task_defs(id) on delete set null,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint block_events_domain_length check (char_length(domain) between 1 and 253),
+  constraint block_events_pattern_length check (pattern is null or char_length(pattern) <= 500),
+  constraint block_events_reason_length check (reason is null or char_length(reason) <= 500),
+  constraint block_events_match_type_check check (match_type is null or match_type in ('substring', 'domain', 'regex')),
+  constraint block_events_mode_check check (mode in ('blocklist', 'allowlist'))
+);
+
+create index if not exists block_events_user_idx on public.block_events (user_id, occurred_at desc);
+create index if not exists block_events_task_idx on public.block_events (task_id) where task_id is not null;
+
+alter table public.block_events enable row level security;
+
+create policy "block_events_select_own" on public.block_events
+  for select
+  using (auth.uid() = user_id);
+
+create policy "block_events_insert_own" on public.block_events
+  for insert
+  with check (
+    auth.uid() = user_id
+    and (task_id is null or exists (
+      select 1 from public.task_defs td where td.id = block_events.task_id and td.user_id = auth.uid()
+    ))
+  );
+
+create policy "block_events_delete_own" on public.block_events
+  for delete
+  using (auth.uid() = user_id);
+
+-- Personal API tokens can be allowed to report blocked visits (the userscript).
+alter table public.api_tokens drop constraint if exists api_tokens_scopes_check;
+alter table public.api_tokens add constraint api_tokens_scopes_check check (
+  cardinality(scopes) > 0
+  and scopes <@ array['blocks:read', 'blocks:snooze', 'blocks:events', 'calendar:read']::text[]
+);
+
+commit;
@@ -0,0 +1,33 @@
+begin;
+
+-- Revocation is one-way. The column grant on revoked_at let an owner clear it
+-- and bring a revoked token back to life, so only the label stays directly
+-- updatable and revoked_at is set through revoke_api_token().
+revoke update (revoked_at) on public.api_tokens from authenticated;
+
+-- Marks one of the caller's tokens as revoked. Already revoked tokens keep
+-- their original timestamp; returns null when nothing was revoked.
+create or replace function public.revoke_api_token(p_token_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_revoked_at timestamptz;
+begin
+  update public.api_tokens
+     set revoked_at = timezone('utc', now())
+   where id = p_token_id
+     and user_id = auth.uid()
+     and revoked_at is null
+  returning revoked_at into v_revoked_at;
+
+  return v_revoked_at;
+end;
+$$;
+
+revoke all on function public.revoke_api_token(uuid) from public;
+grant execute on function public.revoke_api_token(uuid) to authenticated;
+
+commit;
@@ -0,0 +1,74 @@
+begin;
+
+-- The daily strict snooze limit was checked by the API before a separate
+-- insert, so concurrent requests could both pass it, and the insert policy let
+-- clients write snoozes (with any severity) directly. Snoozes are now created
+-- only through create_block_snooze(), which counts and inserts under a
+-- per-user lock.
+drop policy if exists "block_snoozes_insert_own" on public.block_snoozes;
+revoke insert on public.block_snoozes from anon, authenticated;
+
+-- p_severity is the highest severity among the windows active now, which the
+-- API resolves from the task schedules. The day the limit applies to is the
+-- current date in p_time_zone. Keep the limit in sync with
+-- MAX_STRICT_SNOOZES_PER_DAY in src/lib/snoozes.ts.
+create or replace function public.create_block_snooze(
+  p_duration_minutes integer,
+  p_reason text,
+  p_severity text,
+  p_time_zone text
+)
+returns public.block_snoozes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_strict_limit constant integer := 3;
+  v_now timestamptz := now();
+  v_local_day timestamp;
+  v_snooze public.block_snoozes;
+begin
+  if v_user_id is null then
+    raise exception 'create_block_snooze: not authenticated' using errcode = '42501';
+  end if;
+  if p_duration_minutes is null or p_duration_minutes not between 1 and 60 then
+    raise exception 'create_block_snooze: duration must be between 1 and 60 minutes' using errcode = '22023';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtextextended('block_snoozes:' || v_user_id::text, 0));
+
+  if p_severity = 'strict' then
+    -- Raises 22023 for an unknown time zone.
+    v_local_day := date_trunc('day', v_now at time zone coalesce(p_time_zone, 'UTC'));
+    if (
+      select count(*)
+        from public.block_snoozes
+       where user_id = v_user_id
+         and severity = 'strict'
+         and starts_at >= v_local_day at time zone coalesce(p_time_zone, 'UTC')
+         and starts_at < (v_local_day + interval '1 day') at time zone coalesce(p_time_zone, 'UTC')
+    ) >= v_strict_limit then
+      raise exception 'create_block_snooze: strict snooze limit reached' using errcode = 'TW429';
+    end if;
+  end if;
+
+  insert into public.block_snoozes (user_id, starts_at, ends_at, reason, severity)
+  values (
+    v_user_id,
+    v_now,
+    v_now + make_interval(mins => p_duration_minutes),
+    btrim(p_reason),
+    p_severity
+  )
+  returning * into v_snooze;
+
+  return v_snooze;
+end;
+$$;
+
+revoke all on function public.create_block_snooze(integer, text, text, text) from public;
+grant execute on function public.create_block_snooze(integer, text, text, text) to authenticated;
+
+commit;
@@ -0,0 +1,73 @@
+begin;
+
+-- create_block_snooze() trusted the p_severity its caller passed, and any
+-- signed-in user could call it, so passing 'lenient' skipped the strict limit.
+-- Severity comes from the task schedules, which only the API evaluates, so the
+-- function is now callable by the service role alone and takes the user id the
+-- API authenticated instead of auth.uid().
+drop function if exists public.create_block_snooze(integer, text, text, text);
+
+-- p_severity is the highest severity among the windows active now, which the
+-- API resolves from the task schedules. The day the limit applies to is the
+-- current date in p_time_zone. Keep the limit in sync with
+-- MAX_STRICT_SNOOZES_PER_DAY in src/lib/snoozes.ts.
+create function public.create_block_snooze(
+  p_user_id uuid,
+  p_duration_minutes integer,
+  p_reason text,
+  p_severity text,
+  p_time_zone text
+)
+returns public.block_snoozes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_strict_limit constant integer := 3;
+  v_now timestamptz := now();
+  v_local_day timestamp;
+  v_snooze public.block_snoozes;
+begin
+  if p_user_id is null then
+    raise exception 'create_block_snooze: user id is required' using errcode = '22023';
+  end if;
+  if p_duration_minutes is null or p_duration_minutes not between 1 and 60 then
+    raise exception 'create_block_snooze: duration must be between 1 and 60 minutes' using errcode = '22023';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtextextended('block_snoozes:' || p_user_id::text, 0));
+
+  if p_severity = 'strict' then
+    -- Raises 22023 for an unknown time zone.
+    v_local_day := date_trunc('day', v_now at time zone coalesce(p_time_zone, 'UTC'));
+    if (
+      select count(*)
+        from public.block_snoozes
+       where user_id = p_user_id
+         and severity = 'strict'
+         and starts_at >= v_local_day at time zone coalesce(p_time_zone, 'UTC')
+         and starts_at < (v_local_day + interval '1 day') at time zone coalesce(p_time_zone, 'UTC')
+    ) >= v_strict_limit then
+      raise exception 'create_block_snooze: strict snooze limit reached' using errcode = 'TW429';
+    end if;
+  end if;
+
+  insert into public.block_snoozes (user_id, starts_at, ends_at, reason, severity)
+  values (
+    p_user_id,
+    v_now,
+    v_now + make_interval(mins => p_duration_minutes),
+    btrim(p_reason),
+    p_severity
+  )
+  returning * into v_snooze;
+
+  return v_snooze;
+end;
+$$;
+
+revoke all on function public.create_block_snooze(uuid, integer, text, text, text) from public, anon, authenticated;
+grant execute on function public.create_block_snooze(uuid, integer, text, text, text) to service_role;
+
+commit;
@@ -0,0 +1,18 @@
+begin;
+
+-- Personal API tokens can be allowed to read (tasks:read) or change
+-- (tasks:write) tasks and their executions through /api/v1.
+alter table public.api_tokens drop constraint if exists api_tokens_scopes_check;
+alter table public.api_tokens add constraint api_tokens_scopes_check check (
+  cardinality(scopes) > 0
+  and scopes <@ array[
+    'blocks:read',
+    'blocks:snooze',
+    'blocks:events',
+    'calendar:read',
+    'tasks:read',
+    'tasks:write'
+  ]::text[]
+);
+
+commit;